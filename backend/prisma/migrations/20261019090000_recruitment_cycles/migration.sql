@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "RecruitmentCycle" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "opensAt" TIMESTAMP(3) NOT NULL,
+    "closesAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecruitmentCycle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecruitmentCycle_name_key" ON "RecruitmentCycle"("name");
+
+-- Seed the current cycle so existing applications have a home.
+INSERT INTO "RecruitmentCycle" ("id", "name", "opensAt", "isActive", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    '''25–''26',
+    COALESCE((SELECT MIN("createdAt") FROM "Application"), CURRENT_TIMESTAMP),
+    true,
+    CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN "cycleId" TEXT;
+
+UPDATE "Application"
+SET "cycleId" = (SELECT "id" FROM "RecruitmentCycle" WHERE "isActive" = true LIMIT 1);
+
+ALTER TABLE "Application" ALTER COLUMN "cycleId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Application_userId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Application_userId_cycleId_key" ON "Application"("userId", "cycleId");
+
+-- CreateIndex
+CREATE INDEX "Application_cycleId_status_idx" ON "Application"("cycleId", "status");
+
+-- AddForeignKey
+ALTER TABLE "Application" ADD CONSTRAINT "Application_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "RecruitmentCycle"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "ApplicationEventType" AS ENUM ('STARTED', 'DRAFT_SAVED', 'PAYMENT_PROOF_UPLOADED', 'SUBMITTED', 'REAPPLIED', 'PAYMENT_VERIFIED', 'DECIDED');
+
+-- CreateTable
+CREATE TABLE "ApplicationEvent" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "actorUserId" TEXT,
+    "type" "ApplicationEventType" NOT NULL,
+    "fromStatus" "ApplicationStatus",
+    "toStatus" "ApplicationStatus",
+    "note" TEXT,
+    "metadataJson" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApplicationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApplicationEvent_applicationId_createdAt_idx" ON "ApplicationEvent"("applicationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ApplicationEvent" ADD CONSTRAINT "ApplicationEvent_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApplicationEvent" ADD CONSTRAINT "ApplicationEvent_actorUserId_fkey" FOREIGN KEY ("actorUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "FormDefinition" (
+    "id" TEXT NOT NULL,
+    "cycleId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "sectionsJson" JSONB NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FormDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN "formDefinitionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FormDefinition_cycleId_version_key" ON "FormDefinition"("cycleId", "version");
+
+-- AddForeignKey
+ALTER TABLE "FormDefinition" ADD CONSTRAINT "FormDefinition_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "RecruitmentCycle"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FormDefinition" ADD CONSTRAINT "FormDefinition_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Application" ADD CONSTRAINT "Application_formDefinitionId_fkey" FOREIGN KEY ("formDefinitionId") REFERENCES "FormDefinition"("id") ON DELETE SET NULL ON UPDATE CASCADE;
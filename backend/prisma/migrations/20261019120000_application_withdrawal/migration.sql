@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "ApplicationStatus" ADD VALUE 'WITHDRAWN';
+
+-- AlterEnum
+ALTER TYPE "ApplicationEventType" ADD VALUE 'WITHDRAWN';
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "withdrawalReason" TEXT,
+ADD COLUMN     "withdrawnAt" TIMESTAMP(3);
@@ -0,0 +1,56 @@
+-- AlterEnum
+ALTER TYPE "ApplicationStatus" ADD VALUE 'INTERVIEW';
+
+-- AlterEnum
+ALTER TYPE "ApplicationEventType" ADD VALUE 'INTERVIEW_INVITED';
+ALTER TYPE "ApplicationEventType" ADD VALUE 'INTERVIEW_BOOKED';
+ALTER TYPE "ApplicationEventType" ADD VALUE 'INTERVIEW_RESCHEDULED';
+ALTER TYPE "ApplicationEventType" ADD VALUE 'INTERVIEW_CANCELLED';
+
+-- CreateTable
+CREATE TABLE "InterviewSlot" (
+    "id" TEXT NOT NULL,
+    "cycleId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "location" TEXT,
+    "videoUrl" TEXT,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InterviewSlot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InterviewBooking" (
+    "id" TEXT NOT NULL,
+    "slotId" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InterviewBooking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InterviewSlot_cycleId_startsAt_idx" ON "InterviewSlot"("cycleId", "startsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InterviewBooking_applicationId_key" ON "InterviewBooking"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "InterviewBooking_slotId_idx" ON "InterviewBooking"("slotId");
+
+-- AddForeignKey
+ALTER TABLE "InterviewSlot" ADD CONSTRAINT "InterviewSlot_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "RecruitmentCycle"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewSlot" ADD CONSTRAINT "InterviewSlot_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewBooking" ADD CONSTRAINT "InterviewBooking_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "InterviewSlot"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewBooking" ADD CONSTRAINT "InterviewBooking_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
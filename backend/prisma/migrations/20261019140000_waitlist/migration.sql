@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "ApplicationStatus" ADD VALUE 'WAITLISTED';
+
+-- AlterEnum
+ALTER TYPE "ApplicationEventType" ADD VALUE 'WAITLIST_PROMOTED';
+
+-- AlterTable
+ALTER TABLE "RecruitmentCycle" ADD COLUMN     "acceptanceCapacity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "waitlistPosition" INTEGER;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "RubricCriterion" (
+    "id" TEXT NOT NULL,
+    "cycleId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "scaleMin" INTEGER NOT NULL DEFAULT 1,
+    "scaleMax" INTEGER NOT NULL DEFAULT 5,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RubricCriterion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApplicationScore" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "reviewerUserId" TEXT NOT NULL,
+    "scoresJson" JSONB NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApplicationScore_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RubricCriterion_cycleId_sortOrder_idx" ON "RubricCriterion"("cycleId", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApplicationScore_applicationId_reviewerUserId_key" ON "ApplicationScore"("applicationId", "reviewerUserId");
+
+-- AddForeignKey
+ALTER TABLE "RubricCriterion" ADD CONSTRAINT "RubricCriterion_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "RecruitmentCycle"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApplicationScore" ADD CONSTRAINT "ApplicationScore_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApplicationScore" ADD CONSTRAINT "ApplicationScore_reviewerUserId_fkey" FOREIGN KEY ("reviewerUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "ApplicationEventType" ADD VALUE 'REVIEWER_ASSIGNED';
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "assignedAt" TIMESTAMP(3),
+ADD COLUMN     "assignedReviewerUserId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Application_assignedReviewerUserId_status_idx" ON "Application"("assignedReviewerUserId", "status");
+
+-- AddForeignKey
+ALTER TABLE "Application" ADD CONSTRAINT "Application_assignedReviewerUserId_fkey" FOREIGN KEY ("assignedReviewerUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "ApplicationComment" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "authorUserId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "mentionedUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "editedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApplicationComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApplicationCommentRevision" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApplicationCommentRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApplicationComment_applicationId_createdAt_idx" ON "ApplicationComment"("applicationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ApplicationCommentRevision_commentId_createdAt_idx" ON "ApplicationCommentRevision"("commentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ApplicationComment" ADD CONSTRAINT "ApplicationComment_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApplicationComment" ADD CONSTRAINT "ApplicationComment_authorUserId_fkey" FOREIGN KEY ("authorUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApplicationCommentRevision" ADD CONSTRAINT "ApplicationCommentRevision_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "ApplicationComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "IdentityRevealReason" AS ENUM ('SCORED', 'DECIDED', 'SUPER_ADMIN');
+
+-- AlterTable
+ALTER TABLE "RecruitmentCycle" ADD COLUMN     "blindReview" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "IdentityReveal" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "viewerUserId" TEXT NOT NULL,
+    "reason" "IdentityRevealReason" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IdentityReveal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IdentityReveal_applicationId_viewerUserId_key" ON "IdentityReveal"("applicationId", "viewerUserId");
+
+-- AddForeignKey
+ALTER TABLE "IdentityReveal" ADD CONSTRAINT "IdentityReveal_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IdentityReveal" ADD CONSTRAINT "IdentityReveal_viewerUserId_fkey" FOREIGN KEY ("viewerUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
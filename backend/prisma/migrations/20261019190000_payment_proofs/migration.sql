@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "PaymentProofStatus" AS ENUM ('PENDING', 'CONFIRMED', 'SUPERSEDED');
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "currentPaymentProofId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PaymentProof" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "uploadedByUserId" TEXT NOT NULL,
+    "objectKey" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "contentLength" INTEGER NOT NULL,
+    "status" "PaymentProofStatus" NOT NULL DEFAULT 'PENDING',
+    "uploadedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "confirmedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentProof_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill one proof per application from the previously attached key.
+-- Size and type come from the latest upload event when one was recorded.
+INSERT INTO "PaymentProof" ("id", "applicationId", "uploadedByUserId", "objectKey", "contentType", "contentLength", "status", "uploadedAt", "confirmedAt", "updatedAt")
+SELECT
+    gen_random_uuid()::TEXT,
+    a."id",
+    a."userId",
+    a."paymentProofKey",
+    COALESCE(
+        e."metadataJson"->>'contentType',
+        CASE
+            WHEN a."paymentProofKey" LIKE '%.png' THEN 'image/png'
+            WHEN a."paymentProofKey" LIKE '%.webp' THEN 'image/webp'
+            ELSE 'image/jpeg'
+        END
+    ),
+    COALESCE((e."metadataJson"->>'contentLength')::INTEGER, 0),
+    'CONFIRMED',
+    COALESCE(a."paymentProofUploadedAt", a."updatedAt"),
+    COALESCE(a."paymentProofUploadedAt", a."updatedAt"),
+    CURRENT_TIMESTAMP
+FROM "Application" a
+LEFT JOIN LATERAL (
+    SELECT "metadataJson"
+    FROM "ApplicationEvent"
+    WHERE "applicationId" = a."id"
+      AND "type" = 'PAYMENT_PROOF_UPLOADED'
+      AND "metadataJson"->>'objectKey' = a."paymentProofKey"
+    ORDER BY "createdAt" DESC
+    LIMIT 1
+) e ON TRUE
+WHERE a."paymentProofKey" IS NOT NULL;
+
+UPDATE "Application" a
+SET "currentPaymentProofId" = p."id"
+FROM "PaymentProof" p
+WHERE p."applicationId" = a."id" AND p."objectKey" = a."paymentProofKey";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Application_currentPaymentProofId_key" ON "Application"("currentPaymentProofId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentProof_objectKey_key" ON "PaymentProof"("objectKey");
+
+-- CreateIndex
+CREATE INDEX "PaymentProof_applicationId_uploadedAt_idx" ON "PaymentProof"("applicationId", "uploadedAt");
+
+-- AddForeignKey
+ALTER TABLE "Application" ADD CONSTRAINT "Application_currentPaymentProofId_fkey" FOREIGN KEY ("currentPaymentProofId") REFERENCES "PaymentProof"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentProof" ADD CONSTRAINT "PaymentProof_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentProof" ADD CONSTRAINT "PaymentProof_uploadedByUserId_fkey" FOREIGN KEY ("uploadedByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "PaymentProofStatus" ADD VALUE 'INVALID';
+
+-- Proofs attached before confirmation existed keep counting as uploaded.
+UPDATE "PaymentProof" SET "status" = 'CONFIRMED', "confirmedAt" = "uploadedAt"
+WHERE "status" = 'PENDING'
+  AND "id" IN (SELECT "currentPaymentProofId" FROM "Application" WHERE "currentPaymentProofId" IS NOT NULL);
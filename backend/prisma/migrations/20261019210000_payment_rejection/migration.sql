@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "ApplicationEventType" ADD VALUE 'PAYMENT_REJECTED';
+
+-- AlterEnum
+ALTER TYPE "PaymentProofStatus" ADD VALUE 'REJECTED';
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "paymentRejectedAt" TIMESTAMP(3),
+ADD COLUMN     "paymentRejectedByUserId" TEXT,
+ADD COLUMN     "paymentRejectionReason" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Application" ADD CONSTRAINT "Application_paymentRejectedByUserId_fkey" FOREIGN KEY ("paymentRejectedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "MembershipFee" (
+    "id" TEXT NOT NULL,
+    "cycleId" TEXT NOT NULL,
+    "memberType" TEXT NOT NULL,
+    "universityType" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MembershipFee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MembershipFee_cycleId_memberType_universityType_key" ON "MembershipFee"("cycleId", "memberType", "universityType");
+
+-- AddForeignKey
+ALTER TABLE "MembershipFee" ADD CONSTRAINT "MembershipFee_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "RecruitmentCycle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN "paymentReferenceKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "PaymentProof" ADD COLUMN "contentSha256" TEXT;
+
+-- Backfill: same normalization as normalizeReference, for submitted applications.
+UPDATE "Application"
+SET "paymentReferenceKey" = NULLIF(
+    regexp_replace(upper("answersJson"->>'referenceNumber'), '[^A-Z0-9]', '', 'g'),
+    ''
+)
+WHERE "status" <> 'DRAFT';
+
+-- CreateIndex
+CREATE INDEX "Application_paymentReferenceKey_idx" ON "Application"("paymentReferenceKey");
+
+-- CreateIndex
+CREATE INDEX "PaymentProof_contentSha256_idx" ON "PaymentProof"("contentSha256");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "PaymentProof" ADD COLUMN "thumbnailKey" TEXT,
+ADD COLUMN "previewKey" TEXT,
+ADD COLUMN "processedAt" TIMESTAMP(3);
@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "ApplicationEventType" ADD VALUE 'REFUND_REQUESTED';
+ALTER TYPE "ApplicationEventType" ADD VALUE 'REFUND_APPROVED';
+ALTER TYPE "ApplicationEventType" ADD VALUE 'REFUND_SENT';
+
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('REQUESTED', 'APPROVED', 'SENT');
+
+-- CreateTable
+CREATE TABLE "Refund" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "method" TEXT NOT NULL,
+    "reference" TEXT,
+    "status" "RefundStatus" NOT NULL DEFAULT 'REQUESTED',
+    "note" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "approvedAt" TIMESTAMP(3),
+    "sentAt" TIMESTAMP(3),
+    "processedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_applicationId_key" ON "Refund"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "Refund_status_requestedAt_idx" ON "Refund"("status", "requestedAt");
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_processedByUserId_fkey" FOREIGN KEY ("processedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "searchVector" tsvector;
+
+-- Applicant name and email rank above answer text. Only string answers are
+-- indexed, so numbers and booleans never match.
+CREATE FUNCTION application_search_vector(answers JSONB, user_id TEXT)
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english', coalesce(u."name", '') || ' ' || coalesce(u."email", '')), 'A')
+      || setweight(jsonb_to_tsvector('english', coalesce(answers, '{}'::jsonb), '["string"]'), 'B')
+  FROM "User" u
+  WHERE u."id" = user_id
+$$ LANGUAGE sql STABLE;
+
+CREATE FUNCTION application_search_vector_refresh()
+RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := application_search_vector(NEW."answersJson", NEW."userId");
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Application_searchVector_refresh"
+BEFORE INSERT OR UPDATE OF "answersJson", "userId" ON "Application"
+FOR EACH ROW EXECUTE FUNCTION application_search_vector_refresh();
+
+CREATE FUNCTION application_search_vector_user_refresh()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE "Application"
+  SET "searchVector" = application_search_vector("answersJson", "userId")
+  WHERE "userId" = NEW."id";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "User_applicationSearchVector_refresh"
+AFTER UPDATE OF "name", "email" ON "User"
+FOR EACH ROW
+WHEN (OLD."name" IS DISTINCT FROM NEW."name" OR OLD."email" IS DISTINCT FROM NEW."email")
+EXECUTE FUNCTION application_search_vector_user_refresh();
+
+-- Backfill
+UPDATE "Application" SET "searchVector" = application_search_vector("answersJson", "userId");
+
+-- CreateIndex
+CREATE INDEX "Application_searchVector_idx" ON "Application" USING GIN ("searchVector");
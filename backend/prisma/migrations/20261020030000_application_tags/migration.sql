@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "ApplicationEventType" ADD VALUE 'TAGGED';
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Application_tags_idx" ON "Application" USING GIN ("tags");
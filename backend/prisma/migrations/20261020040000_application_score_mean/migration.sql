@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "scoreMean" DOUBLE PRECISION;
+
+-- Backfill with the weighting of computeWeightedScore: each review scores
+-- 0–100 over the cycle's active criteria it has a number for, rounded to a
+-- tenth, and the application keeps the mean of its reviews.
+WITH "weighted" AS (
+  SELECT s."applicationId",
+         ROUND((SUM(c."weight" * (((s."scoresJson" ->> c."id")::DOUBLE PRECISION) - c."scaleMin") / (c."scaleMax" - c."scaleMin"))
+           / SUM(c."weight") * 100)::NUMERIC, 1) AS "score"
+  FROM "ApplicationScore" s
+  JOIN "Application" a ON a."id" = s."applicationId"
+  JOIN "RubricCriterion" c ON c."cycleId" = a."cycleId"
+   AND c."archivedAt" IS NULL
+   AND c."scaleMax" > c."scaleMin"
+   AND jsonb_typeof(s."scoresJson" -> c."id") = 'number'
+  GROUP BY s."id", s."applicationId"
+)
+UPDATE "Application" a
+SET "scoreMean" = m."mean"
+FROM (
+  SELECT "applicationId", ROUND(AVG("score"), 1)::DOUBLE PRECISION AS "mean"
+  FROM "weighted"
+  GROUP BY "applicationId"
+) m
+WHERE a."id" = m."applicationId";
+
+-- CreateIndex
+CREATE INDEX "Application_cycleId_scoreMean_idx" ON "Application"("cycleId", "scoreMean");
@@ -1,5 +1,7 @@
 import "dotenv/config";
 import { PrismaClient } from "@prisma/client";
+import { defaultApplicationFormSections } from "../src/config/applicationForm";
+import { defaultRubricCriteria } from "../src/config/rubric";
 
 const prisma = new PrismaClient();
 
@@ -12,7 +14,7 @@ const parseAdminEmails = () =>
 const isValidEmail = (value: string) =>
   /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
 
-const run = async () => {
+const ensureAdmins = async () => {
   const adminEmails = parseAdminEmails().filter(isValidEmail);
 
   if (adminEmails.length === 0) {
@@ -44,6 +46,71 @@ const run = async () => {
   console.log("Seed complete: admin users ensured.");
 };
 
+const ensureActiveCycleForm = async () => {
+  const cycle = await prisma.recruitmentCycle.findFirst({
+    where: { isActive: true },
+    select: { id: true, name: true },
+  });
+
+  if (!cycle) {
+    console.log("No active recruitment cycle. Form seed skipped.");
+    return;
+  }
+
+  const existing = await prisma.formDefinition.findFirst({
+    where: { cycleId: cycle.id },
+    select: { id: true },
+  });
+  if (existing) {
+    return;
+  }
+
+  await prisma.formDefinition.create({
+    data: {
+      cycleId: cycle.id,
+      version: 1,
+      sectionsJson: defaultApplicationFormSections,
+      publishedAt: new Date(),
+    },
+  });
+  console.log(`Seeded application form v1 for cycle ${cycle.name}.`);
+};
+
+const ensureActiveCycleRubric = async () => {
+  const cycle = await prisma.recruitmentCycle.findFirst({
+    where: { isActive: true },
+    select: { id: true, name: true },
+  });
+
+  if (!cycle) {
+    console.log("No active recruitment cycle. Rubric seed skipped.");
+    return;
+  }
+
+  const existing = await prisma.rubricCriterion.findFirst({
+    where: { cycleId: cycle.id },
+    select: { id: true },
+  });
+  if (existing) {
+    return;
+  }
+
+  await prisma.rubricCriterion.createMany({
+    data: defaultRubricCriteria.map((criterion, index) => ({
+      ...criterion,
+      cycleId: cycle.id,
+      sortOrder: index,
+    })),
+  });
+  console.log(`Seeded default rubric for cycle ${cycle.name}.`);
+};
+
+const run = async () => {
+  await ensureAdmins();
+  await ensureActiveCycleForm();
+  await ensureActiveCycleRubric();
+};
+
 run()
   .catch((error) => {
     console.error("Seed failed:", error);
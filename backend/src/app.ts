@@ -11,6 +11,7 @@ import onboardingRouter from "./routes/onboarding";
 import adminRouter from "./routes/admin";
 import meRouter from "./routes/me";
 import applicationRouter from "./routes/application";
+import storageRouter from "./routes/storage";
 import { notFound } from "./middleware/notFound";
 import { errorHandler } from "./middleware/errorHandler";
 
@@ -27,6 +28,9 @@ app.use(
     allowedHeaders: ["Content-Type", "X-CSRF-Token"],
   })
 );
+// Signed storage URLs carry their own authorization and receive raw uploads,
+// so they sit ahead of the JSON parser, sessions, and CSRF.
+app.use("/storage", storageRouter);
 app.use(express.json({ limit: "1mb" }));
 app.use(sessionMiddleware);
 
@@ -3,6 +3,7 @@ import { Strategy as GoogleStrategy, Profile as GoogleProfile } from "passport-g
 import { UserRole } from "@prisma/client";
 import prisma from "../db/prisma";
 import { env } from "../config/env";
+import { isBootstrapAdmin } from "../utils/adminRoles";
 
 const getPrimaryEmail = (profile: GoogleProfile) => {
   const email = profile.emails?.[0]?.value?.toLowerCase();
@@ -33,7 +34,7 @@ export const configurePassport = () => {
             return done(null, false, { message: "missing_email" });
           }
 
-          const isAdminEmail = env.ADMIN_EMAILS.includes(email);
+          const isAdminEmail = isBootstrapAdmin(email);
 
           const displayName = profile.displayName || email;
           const avatarUrl = profile.photos?.[0]?.value ?? null;
@@ -0,0 +1,223 @@
+import type { FormSection } from "../validation/schemas";
+
+// Baseline question set from `docs/app questions`. Used until a cycle has a
+// published FormDefinition, and as the seed for the first stored version.
+export const defaultApplicationFormSections: FormSection[] = [
+  {
+    id: "personal",
+    title: "Personal",
+    hint: "Personal Details — tell us who you are.",
+    includesPaymentProof: false,
+    questions: [
+      {
+        id: "email",
+        label: "Email Address",
+        type: "email",
+        required: true,
+        helpText: "Please input your active email.",
+        width: "half",
+      },
+      {
+        id: "fullName",
+        label: "Full Name (Last, First, Middle)",
+        type: "short_text",
+        required: true,
+        helpText: "Example: Favila, Lynn Kelly Rapada",
+        placeholder: "Last Name, First Name, Middle Name",
+        width: "half",
+        maxLength: 200,
+      },
+      {
+        id: "universityAndBranch",
+        label: "University and Branch",
+        type: "short_text",
+        required: true,
+        helpText: "Please do not abbreviate.",
+        placeholder: "e.g. University of the Philippines - Diliman",
+        width: "full",
+        maxLength: 200,
+      },
+      {
+        id: "currentYearLevelAndProgram",
+        label: "Current Year Level and Program",
+        type: "short_text",
+        required: true,
+        helpText: "Please do not abbreviate.",
+        placeholder: "e.g. 2nd Year - BS Marketing Management",
+        width: "full",
+        maxLength: 200,
+      },
+      {
+        id: "facebookLink",
+        label: "Facebook Link",
+        type: "url",
+        required: true,
+        helpText: "Required.",
+        placeholder: "https://www.facebook.com/yourprofile",
+        width: "half",
+      },
+      {
+        id: "linkedInLink",
+        label: "LinkedIn Link (optional)",
+        type: "url",
+        required: false,
+        helpText: "Optional.",
+        placeholder: "https://www.linkedin.com/in/yourprofile",
+        width: "half",
+      },
+      {
+        id: "resumeOrCv",
+        label: "Resume / Curriculum Vitae Link",
+        type: "long_text",
+        required: true,
+        helpText:
+          "Attach a working link to your Resume / CV. If not applicable, list your previous key projects/roles in bullet points.",
+        placeholder: "https://drive.google.com/...",
+        width: "full",
+        minLength: 3,
+        maxLength: 2000,
+      },
+      {
+        id: "hobbiesAndInterests",
+        label: "Hobbies and Interests",
+        type: "long_text",
+        required: true,
+        width: "full",
+        maxLength: 1000,
+      },
+    ],
+  },
+  {
+    id: "story",
+    title: "Story",
+    hint: "We got a few questions for you! Answer each in 3–4 sentences only.",
+    includesPaymentProof: false,
+    questions: [
+      {
+        id: "personalWhy",
+        label: "What is your personal \"Why?\"",
+        type: "long_text",
+        required: true,
+        helpText:
+          "The thing that drives you to achieve great things. Tell us what motivates you and fuels your ambition.",
+        width: "full",
+        maxLength: 4000,
+      },
+      {
+        id: "currentBuildingOrWantToBuild",
+        label: "What are you currently building, or what do you want to build?",
+        type: "long_text",
+        required: true,
+        helpText:
+          "Tell us about anything you are actively building. If you haven't started yet, share what you would like to build—and what problem you hope to solve.",
+        width: "full",
+        maxLength: 4000,
+      },
+      {
+        id: "whyAsesManila",
+        label: "Why do you want to be part of ASES Manila?",
+        type: "long_text",
+        required: true,
+        helpText:
+          "Tell us why this community matters to you and how it fits into your growth journey.",
+        width: "full",
+        maxLength: 4000,
+      },
+      {
+        id: "oneToTwoYearVision",
+        label: "Where do you see yourself in 1–2 years?",
+        type: "long_text",
+        required: true,
+        helpText:
+          "Your short-term vision. What do you hope to learn, achieve, or create soon?",
+        width: "full",
+        maxLength: 4000,
+      },
+      {
+        id: "fiveYearVision",
+        label: "How about 5 years from now?",
+        type: "long_text",
+        required: true,
+        helpText:
+          "Your long-term vision. How do you plan to grow and make an impact in the future?",
+        width: "full",
+        maxLength: 4000,
+      },
+      {
+        id: "uniqueAboutYou",
+        label: "What is unique about you?",
+        type: "long_text",
+        required: true,
+        helpText:
+          "Something that sets you apart. Skills, perspectives, experiences, or qualities we can't find anywhere else.",
+        width: "full",
+        maxLength: 4000,
+      },
+    ],
+  },
+  {
+    id: "payment",
+    title: "Payment",
+    hint: "Application Fee & Payment — kindly pay the membership fee before submitting.",
+    includesPaymentProof: true,
+    questions: [
+      {
+        id: "memberType",
+        label: "Type of Member",
+        type: "select",
+        required: true,
+        width: "half",
+        options: [
+          { value: "NEW", label: "New" },
+          { value: "RETURNING", label: "Returning" },
+        ],
+      },
+      {
+        id: "universityType",
+        label: "Type of University",
+        type: "select",
+        required: true,
+        width: "half",
+        options: [
+          { value: "PUBLIC", label: "Public" },
+          { value: "PRIVATE", label: "Private" },
+        ],
+      },
+      {
+        id: "amountPaid",
+        label: "Amount Paid",
+        type: "number",
+        required: true,
+        placeholder: "e.g. 350",
+        width: "half",
+        min: 1,
+      },
+      {
+        id: "referenceNumber",
+        label: "Reference Number",
+        type: "short_text",
+        required: true,
+        width: "half",
+        maxLength: 200,
+      },
+    ],
+  },
+  {
+    id: "review",
+    title: "Review",
+    hint: "Nice one, that's about it! Verify everything looks good before submitting.",
+    includesPaymentProof: false,
+    questions: [
+      {
+        id: "description",
+        label: "Anything else you'd like to share? (optional)",
+        type: "long_text",
+        required: false,
+        helpText:
+          "Anything else we should know? Tell us more about yourself, your goals, or anything you'd like to add.",
+        width: "full",
+        maxLength: 1000,
+      },
+    ],
+  },
+];
@@ -0,0 +1,15 @@
+// Answer keys that identify the applicant and are hidden while a cycle runs in
+// blind review mode. `email` is included alongside the requested fields since
+// the form asks for it directly.
+export const identityAnswerKeys = [
+  "email",
+  "fullName",
+  "universityAndBranch",
+  "facebookLink",
+  "linkedInLink",
+  "resumeOrCv",
+];
+
+// Event metadata keys that identify the applicant. Payment proof object keys
+// embed the uploader's user id.
+export const identityMetadataKeys = ["objectKey"];
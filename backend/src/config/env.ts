@@ -23,9 +23,14 @@ const toList = (value: string | undefined): string[] =>
     .map((entry) => entry.trim().toLowerCase())
     .filter(Boolean);
 
+const toStorageDriver = (value: string | undefined): "s3" | "local" =>
+  value?.trim().toLowerCase() === "local" ? "local" : "s3";
+
+const port = toNumber(process.env.PORT, 3001);
+
 export const env = {
   NODE_ENV: process.env.NODE_ENV ?? "development",
-  PORT: toNumber(process.env.PORT, 3001),
+  PORT: port,
   APP_ORIGIN: process.env.APP_ORIGIN ?? "http://localhost:3000",
   DATABASE_URL: process.env.DATABASE_URL ?? "",
   SESSION_SECRET: process.env.SESSION_SECRET ?? "",
@@ -33,6 +38,15 @@ export const env = {
   GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET ?? "",
   GOOGLE_CALLBACK_URL: process.env.GOOGLE_CALLBACK_URL ?? "",
   ADMIN_EMAILS: toList(process.env.ADMIN_EMAILS),
+  SUPER_ADMIN_EMAILS: toList(process.env.SUPER_ADMIN_EMAILS),
+  STORAGE_DRIVER: toStorageDriver(process.env.STORAGE_DRIVER),
+  LOCAL_STORAGE_DIR: process.env.LOCAL_STORAGE_DIR ?? ".storage",
+  LOCAL_STORAGE_PUBLIC_URL:
+    process.env.LOCAL_STORAGE_PUBLIC_URL ?? `http://localhost:${port}`,
+  LOCAL_STORAGE_SECRET:
+    process.env.LOCAL_STORAGE_SECRET ||
+    process.env.SESSION_SECRET ||
+    "dev-local-storage-secret",
   MINIO_ENDPOINT: process.env.MINIO_ENDPOINT ?? "",
   MINIO_REGION: process.env.MINIO_REGION ?? "us-east-1",
   MINIO_ACCESS_KEY: process.env.MINIO_ACCESS_KEY ?? "",
@@ -54,13 +68,14 @@ if (!env.SESSION_SECRET) {
 }
 
 if (
-  !env.MINIO_ENDPOINT ||
-  !env.MINIO_ACCESS_KEY ||
-  !env.MINIO_SECRET_KEY ||
-  !env.MINIO_BUCKET
+  env.STORAGE_DRIVER === "s3" &&
+  (!env.MINIO_ENDPOINT ||
+    !env.MINIO_ACCESS_KEY ||
+    !env.MINIO_SECRET_KEY ||
+    !env.MINIO_BUCKET)
 ) {
   console.warn(
-    "MinIO env vars are not fully configured. Payment proof upload URLs will fail."
+    "MinIO env vars are not fully configured. Payment proof upload URLs will fail. Set STORAGE_DRIVER=local to store files on disk instead."
   );
 }
 
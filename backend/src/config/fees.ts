@@ -0,0 +1,7 @@
+// Fees used for cycles that have no schedule of their own, in centavos.
+export const defaultMembershipFees = [
+  { memberType: "NEW", universityType: "PUBLIC", amountCents: 25000 },
+  { memberType: "NEW", universityType: "PRIVATE", amountCents: 35000 },
+  { memberType: "RETURNING", universityType: "PUBLIC", amountCents: 25000 },
+  { memberType: "RETURNING", universityType: "PRIVATE", amountCents: 25000 },
+];
@@ -0,0 +1,25 @@
+// Starting rubric for new cycles. Weights are relative; each criterion is
+// normalised to its own scale before weighting.
+export const defaultRubricCriteria = [
+  {
+    label: "Vision",
+    description: "Clarity and ambition of the applicant's goals and personal \"why\".",
+    weight: 1.5,
+    scaleMin: 1,
+    scaleMax: 5,
+  },
+  {
+    label: "Builder mindset",
+    description: "Evidence of building, shipping, or taking initiative on ideas.",
+    weight: 1.5,
+    scaleMin: 1,
+    scaleMax: 5,
+  },
+  {
+    label: "Culture fit",
+    description: "Alignment with the community and willingness to contribute.",
+    weight: 1,
+    scaleMin: 1,
+    scaleMax: 5,
+  },
+];
@@ -0,0 +1,81 @@
+import "dotenv/config";
+import prisma from "../db/prisma";
+import {
+  deletePaymentProofObjects,
+  listPaymentProofObjects,
+} from "../storage/paymentProofs";
+
+// Objects younger than this are left alone so an upload whose row is still
+// being written is never mistaken for an orphan.
+const minimumAgeMs = 60 * 60 * 1000;
+const lookupBatchSize = 500;
+
+const dryRun = process.argv.includes("--dry-run");
+
+// Rows marked INVALID failed confirmation, so their bytes are never served.
+// Thumbnails and previews belong to the row of their original.
+const findOrphanedKeys = async (objectKeys: string[]) => {
+  const known = await prisma.paymentProof.findMany({
+    where: {
+      OR: [
+        { objectKey: { in: objectKeys } },
+        { thumbnailKey: { in: objectKeys } },
+        { previewKey: { in: objectKeys } },
+      ],
+      status: { not: "INVALID" },
+    },
+    select: { objectKey: true, thumbnailKey: true, previewKey: true },
+  });
+  const knownKeys = new Set(
+    known.flatMap((proof) => [
+      proof.objectKey,
+      proof.thumbnailKey,
+      proof.previewKey,
+    ])
+  );
+  return objectKeys.filter((key) => !knownKeys.has(key));
+};
+
+const run = async () => {
+  const cutoff = Date.now() - minimumAgeMs;
+  const orphaned: string[] = [];
+  let scanned = 0;
+  let batch: string[] = [];
+
+  for await (const object of listPaymentProofObjects()) {
+    scanned += 1;
+    if (object.lastModified && object.lastModified.getTime() > cutoff) {
+      continue;
+    }
+    batch.push(object.key);
+    if (batch.length >= lookupBatchSize) {
+      orphaned.push(...(await findOrphanedKeys(batch)));
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    orphaned.push(...(await findOrphanedKeys(batch)));
+  }
+
+  console.log(`Scanned ${scanned} objects, ${orphaned.length} without a usable payment proof row.`);
+  if (orphaned.length === 0) {
+    return;
+  }
+
+  if (dryRun) {
+    orphaned.forEach((key) => console.log(`Would delete ${key}`));
+    return;
+  }
+
+  await deletePaymentProofObjects(orphaned);
+  console.log(`Deleted ${orphaned.length} orphaned objects.`);
+};
+
+run()
+  .catch((error) => {
+    console.error("Payment proof cleanup failed:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
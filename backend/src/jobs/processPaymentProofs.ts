@@ -0,0 +1,74 @@
+import "dotenv/config";
+import prisma from "../db/prisma";
+import {
+  hashPaymentProofBytes,
+  readPaymentProofObject,
+} from "../storage/paymentProofs";
+import { processPaymentProof } from "../utils/paymentProofImages";
+
+const batchSize = 50;
+
+// Catches up proofs that confirmation could not process, and proofs confirmed
+// before content hashes or derived images existed. Hashes are taken from the
+// stored bytes before processing rewrites them.
+const run = async () => {
+  let processed = 0;
+  let failed = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const proofs = await prisma.paymentProof.findMany({
+      where: {
+        OR: [{ contentSha256: null }, { processedAt: null }],
+        status: { in: ["CONFIRMED", "SUPERSEDED", "REJECTED"] },
+      },
+      orderBy: { id: "asc" },
+      take: batchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      select: {
+        id: true,
+        objectKey: true,
+        contentType: true,
+        contentSha256: true,
+        processedAt: true,
+      },
+    });
+    if (proofs.length === 0) {
+      break;
+    }
+    cursor = proofs[proofs.length - 1].id;
+
+    for (const proof of proofs) {
+      try {
+        const bytes = await readPaymentProofObject(proof.objectKey);
+        if (!proof.contentSha256) {
+          await prisma.paymentProof.update({
+            where: { id: proof.id },
+            data: { contentSha256: hashPaymentProofBytes(bytes) },
+          });
+        }
+        if (!proof.processedAt) {
+          await processPaymentProof(proof, bytes);
+        }
+        processed += 1;
+      } catch (error) {
+        failed += 1;
+        console.log(
+          `Could not process proof ${proof.id} (${proof.objectKey}):`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+  }
+
+  console.log(`Processed ${processed} payment proofs, ${failed} failed.`);
+};
+
+run()
+  .catch((error) => {
+    console.error("Payment proof processing failed:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -34,3 +34,18 @@ export const validateParams =
     req.params = result.data as Request["params"];
     return next();
   };
+
+export const validateQuery =
+  (schema: ZodSchema) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      return next(
+        new HttpError(400, "validation_error", formatZodError(result.error), {
+          issues: result.error.issues,
+        })
+      );
+    }
+    req.query = result.data as Request["query"];
+    return next();
+  };
@@ -1,221 +1,2727 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
+import type { ApplicationStatus, Prisma, UserRole } from "@prisma/client";
 import prisma from "../db/prisma";
 import { requireAdmin } from "../middleware/requireAdmin";
 import { asyncHandler } from "../utils/asyncHandler";
-import { validateBody, validateParams } from "../middleware/validate";
 import {
+  validateBody,
+  validateParams,
+  validateQuery,
+} from "../middleware/validate";
+import {
+  adminApplicationExportQuerySchema,
+  adminApplicationSearchQuerySchema,
+  adminApplicationsQuerySchema,
+  adminUsersQuerySchema,
+  applicationAssignmentSchema,
+  applicationBulkActionSchema,
+  applicationCommentParamSchema,
+  applicationCommentSchema,
   applicationDecisionSchema,
+  applicationScoreSchema,
+  assignmentDistributeSchema,
+  formDefinitionCreateSchema,
+  formVersionParamSchema,
+  interviewSlotCreateSchema,
+  interviewSlotUpdateSchema,
+  interviewSlotsQuerySchema,
+  membershipFeesUpdateSchema,
+  paymentReconciliationConfirmSchema,
+  paymentReconciliationPreviewSchema,
+  paymentRejectSchema,
+  paymentVerifySchema,
+  recruitmentCycleCreateSchema,
+  recruitmentCycleUpdateSchema,
+  refundAdvanceSchema,
+  refundCreateSchema,
+  refundsQuerySchema,
+  rubricCriterionCreateSchema,
+  rubricCriterionUpdateSchema,
+  reviewerWorkloadQuerySchema,
   userIdParamSchema,
+  userRoleUpdateSchema,
   uuidParamSchema,
+  type ApplicationBulkAction,
 } from "../validation/schemas";
 import { HttpError } from "../utils/httpError";
+import { isBootstrapAdmin, lockAdminUserIds } from "../utils/adminRoles";
+import {
+  getFormDefinitionForApplication,
+  getFormDefinitionForCycle,
+  getFormQuestions,
+} from "../utils/formDefinition";
+import {
+  getActiveRecruitmentCycle,
+  recruitmentCycleSelect,
+} from "../utils/recruitmentCycle";
+import {
+  buildInterviewIcs,
+  interviewSlotSelect,
+  toInterviewSlotSummary,
+} from "../utils/interview";
+import {
+  getReviewerWorkload,
+  openReviewStatuses,
+  planAssignments,
+  requireReviewer,
+  reviewerSelect,
+  type AssignmentStrategy,
+} from "../utils/assignment";
+import {
+  getApplicantPseudonym,
+  redactApplicant,
+  redactApplicantEvent,
+  redactIdentityAnswers,
+  redactPaymentProofKeys,
+  resolveHiddenIdentities,
+} from "../utils/blindReview";
+import {
+  applicationCommentSelect,
+  resolveMentionedUserIds,
+  withCommentMentions,
+} from "../utils/comments";
+import {
+  countAcceptedApplications,
+  ensureAcceptanceCapacity,
+  getNextWaitlistPosition,
+  lockRecruitmentCycle,
+} from "../utils/waitlist";
+import {
+  computeWeightedScore,
+  getRubricCriteria,
+  parseRubricScores,
+  refreshApplicationScoreMeans,
+  rubricCriterionSelect,
+  summarizeApplicationScores,
+  summarizeScores,
+  type RubricCriterionSummary,
+} from "../utils/rubric";
+import {
+  buildAdminApplicationBaseWhere,
+  buildScoreCursorWhere,
+  buildSubmittedAtCursorWhere,
+  buildVisibleScoreWhere,
+  decodeAdminApplicationCursor,
+  encodeAdminApplicationCursor,
+  listedApplicationStatuses,
+  type AdminApplicationCursor,
+  type AdminApplicationSort,
+} from "../utils/applicationList";
+import {
+  applicationExportContentTypes,
+  buildApplicationExportColumns,
+  createApplicationExportWriter,
+  readApplicationExportBatches,
+  toApplicationExportValues,
+  type ApplicationExportFormat,
+} from "../utils/applicationExport";
+import {
+  isIdentityMatchKey,
+  searchApplications,
+  toSnippetSegments,
+  userEmailMatchKey,
+  userNameMatchKey,
+} from "../utils/applicationSearch";
+import {
+  getPaymentAnswers,
+  getStatementMatchSkipReason,
+  normalizeReference,
+  parseStatementAmount,
+  readStatement,
+  reconcileStatement,
+  reconciliationCandidateSelect,
+  type StatementRow,
+} from "../utils/paymentReconciliation";
+import {
+  checkPaymentAmount,
+  ensurePaymentAmountOrOverride,
+  getFeeSchedule,
+  isPaymentAmountMismatch,
+} from "../utils/fees";
+import {
+  ensureNoPaymentDuplicatesOrAcknowledged,
+  findPaymentDuplicates,
+  hasPaymentDuplicates,
+} from "../utils/paymentDuplicates";
+import type { PaymentDuplicateIds } from "../utils/paymentDuplicates";
+import {
+  ensureRefundTransition,
+  refundEventTypes,
+  refundSelect,
+  refundableStatuses,
+  toRefundView,
+} from "../utils/refunds";
+import { toCsv } from "../utils/csv";
 import {
   createPaymentProofViewUrl,
   paymentProofObjectExists,
-} from "../storage/minio";
+} from "../storage/paymentProofs";
+
+const router = Router();
+
+router.use(requireAdmin);
+
+const resolveCycleFilter = async (cycleId: string | undefined) => {
+  if (!cycleId) {
+    return getActiveRecruitmentCycle();
+  }
+
+  const cycle = await prisma.recruitmentCycle.findUnique({
+    where: { id: cycleId },
+    select: recruitmentCycleSelect,
+  });
+  if (!cycle) {
+    throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+  }
+  return cycle;
+};
+
+// Links are a convenience; a storage outage should not fail the whole response.
+const createOptionalPaymentProofViewUrl = async (objectKey: string | null) => {
+  if (!objectKey) {
+    return null;
+  }
+  try {
+    return await createPaymentProofViewUrl(objectKey);
+  } catch {
+    return null;
+  }
+};
+
+router.get(
+  "/cycles",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const cycles = await prisma.recruitmentCycle.findMany({
+      orderBy: { opensAt: "desc" },
+      select: {
+        ...recruitmentCycleSelect,
+        createdAt: true,
+        _count: { select: { applications: true } },
+      },
+    });
+    res.status(200).json({ data: cycles });
+  })
+);
+
+router.post(
+  "/cycles",
+  validateBody(recruitmentCycleCreateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const {
+      name,
+      opensAt,
+      closesAt,
+      isActive = false,
+      acceptanceCapacity,
+      blindReview = false,
+    } = req.body;
+
+    const created = await prisma.$transaction(async (tx) => {
+      if (isActive) {
+        await tx.recruitmentCycle.updateMany({
+          where: { isActive: true },
+          data: { isActive: false },
+        });
+      }
+      return tx.recruitmentCycle.create({
+        data: {
+          name,
+          opensAt,
+          closesAt: closesAt ?? null,
+          isActive,
+          acceptanceCapacity: acceptanceCapacity ?? null,
+          blindReview,
+        },
+        select: recruitmentCycleSelect,
+      });
+    });
+
+    res.status(201).json({ data: created });
+  })
+);
+
+router.patch(
+  "/cycles/:id",
+  validateParams(uuidParamSchema),
+  validateBody(recruitmentCycleUpdateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const existing = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: recruitmentCycleSelect,
+    });
+
+    if (!existing) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    const opensAt: Date = req.body.opensAt ?? existing.opensAt;
+    const closesAt: Date | null =
+      req.body.closesAt === undefined ? existing.closesAt : req.body.closesAt;
+    if (closesAt && closesAt <= opensAt) {
+      throw new HttpError(
+        400,
+        "invalid_cycle_window",
+        "closesAt must be after opensAt."
+      );
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (req.body.isActive) {
+        await tx.recruitmentCycle.updateMany({
+          where: { isActive: true, id: { not: existing.id } },
+          data: { isActive: false },
+        });
+      }
+      return tx.recruitmentCycle.update({
+        where: { id: existing.id },
+        data: {
+          name: req.body.name,
+          opensAt,
+          closesAt,
+          isActive: req.body.isActive,
+          acceptanceCapacity: req.body.acceptanceCapacity,
+          blindReview: req.body.blindReview,
+        },
+        select: recruitmentCycleSelect,
+      });
+    });
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+const formDefinitionSelect = {
+  id: true,
+  version: true,
+  sectionsJson: true,
+  publishedAt: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+} as const;
+
+router.get(
+  "/cycles/:id/forms",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!cycle) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    const [versions, current] = await Promise.all([
+      prisma.formDefinition.findMany({
+        where: { cycleId: cycle.id },
+        orderBy: { version: "desc" },
+        select: formDefinitionSelect,
+      }),
+      getFormDefinitionForCycle(cycle.id),
+    ]);
+
+    res.status(200).json({ data: versions, current });
+  })
+);
+
+router.post(
+  "/cycles/:id/forms",
+  validateParams(uuidParamSchema),
+  validateBody(formDefinitionCreateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!cycle) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    const latest = await prisma.formDefinition.findFirst({
+      where: { cycleId: cycle.id },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    const created = await prisma.formDefinition.create({
+      data: {
+        cycleId: cycle.id,
+        version: (latest?.version ?? 0) + 1,
+        sectionsJson: req.body.sections,
+        publishedAt: req.body.publish ? new Date() : null,
+        createdByUserId: req.user!.id,
+      },
+      select: formDefinitionSelect,
+    });
+
+    res.status(201).json({ data: created });
+  })
+);
+
+router.post(
+  "/cycles/:id/forms/:version/publish",
+  validateParams(formVersionParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, version } = req.params as unknown as {
+      id: string;
+      version: number;
+    };
+    const definition = await prisma.formDefinition.findUnique({
+      where: { cycleId_version: { cycleId: id, version } },
+      select: { id: true, publishedAt: true },
+    });
+
+    if (!definition) {
+      throw new HttpError(
+        404,
+        "form_definition_not_found",
+        "Form definition not found."
+      );
+    }
+
+    const updated = await prisma.formDefinition.update({
+      where: { id: definition.id },
+      data: { publishedAt: definition.publishedAt ?? new Date() },
+      select: formDefinitionSelect,
+    });
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+router.get(
+  "/cycles/:id/waitlist",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: recruitmentCycleSelect,
+    });
+    if (!cycle) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    const [acceptedCount, waitlist] = await Promise.all([
+      countAcceptedApplications(prisma, cycle.id),
+      prisma.application.findMany({
+        where: { cycleId: cycle.id, status: "WAITLISTED" },
+        orderBy: { waitlistPosition: "asc" },
+        select: {
+          id: true,
+          waitlistPosition: true,
+          reviewedAt: true,
+          user: { select: { id: true, email: true, name: true } },
+        },
+      }),
+    ]);
+    const hiddenIdentities = await resolveHiddenIdentities(
+      req.user!,
+      waitlist.map(({ id }) => ({ id, blindReview: cycle.blindReview }))
+    );
+
+    res.status(200).json({
+      data: {
+        cycle,
+        acceptedCount,
+        remainingCapacity:
+          cycle.acceptanceCapacity == null
+            ? null
+            : Math.max(0, cycle.acceptanceCapacity - acceptedCount),
+        waitlist: waitlist.map((application, index) => {
+          const identityHidden = hiddenIdentities.has(application.id);
+          return {
+            ...(identityHidden ? redactApplicant(application) : application),
+            identityHidden,
+            rank: index + 1,
+          };
+        }),
+      },
+    });
+  })
+);
+
+router.post(
+  "/cycles/:id/waitlist/promote",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const now = new Date();
+    const promoted = await prisma.$transaction(async (tx) => {
+      const cycle = await lockRecruitmentCycle(tx, req.params.id);
+      await ensureAcceptanceCapacity(tx, cycle);
+
+      const next = await tx.application.findFirst({
+        where: { cycleId: cycle.id, status: "WAITLISTED" },
+        orderBy: { waitlistPosition: "asc" },
+        select: { id: true, status: true },
+      });
+      if (!next) {
+        throw new HttpError(409, "waitlist_empty", "The waitlist is empty.");
+      }
+
+      return tx.application.update({
+        where: { id: next.id },
+        data: {
+          status: "ACCEPTED",
+          waitlistPosition: null,
+          reviewedAt: now,
+          reviewedByUserId: req.user!.id,
+          events: {
+            create: {
+              type: "WAITLIST_PROMOTED",
+              actorUserId: req.user!.id,
+              fromStatus: next.status,
+              toStatus: "ACCEPTED",
+            },
+          },
+        },
+        select: {
+          id: true,
+          status: true,
+          reviewedAt: true,
+          user: { select: { id: true, email: true, name: true } },
+          cycle: { select: { blindReview: true } },
+        },
+      });
+    });
+
+    const { cycle, ...application } = promoted;
+    const hiddenIdentities = await resolveHiddenIdentities(req.user!, [
+      { id: application.id, blindReview: cycle.blindReview },
+    ]);
+    const identityHidden = hiddenIdentities.has(application.id);
+    res.status(200).json({
+      data: {
+        ...(identityHidden ? redactApplicant(application) : application),
+        identityHidden,
+      },
+    });
+  })
+);
+
+router.post(
+  "/cycles/:id/assignments",
+  validateParams(uuidParamSchema),
+  validateBody(assignmentDistributeSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const strategy: AssignmentStrategy = req.body.strategy;
+    const reviewerUserIds: string[] | undefined = req.body.reviewerUserIds;
+    const now = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Serializes concurrent distributions for the same cycle.
+      const cycle = await lockRecruitmentCycle(tx, req.params.id);
+
+      const { reviewers } = await getReviewerWorkload(tx, cycle.id, reviewerUserIds);
+      if (reviewers.length === 0) {
+        throw new HttpError(400, "invalid_reviewer", "No admin reviewers to assign to.");
+      }
+      if (reviewerUserIds && reviewers.length !== new Set(reviewerUserIds).size) {
+        throw new HttpError(400, "invalid_reviewer", "Reviewers must be admins.");
+      }
+
+      const [unassigned, lastAssigned] = await Promise.all([
+        tx.application.findMany({
+          where: {
+            cycleId: cycle.id,
+            status: { in: openReviewStatuses },
+            assignedReviewerUserId: null,
+          },
+          orderBy: { submittedAt: "asc" },
+          select: { id: true },
+        }),
+        tx.application.findFirst({
+          where: { cycleId: cycle.id, assignedAt: { not: null } },
+          orderBy: { assignedAt: "desc" },
+          select: { assignedReviewerUserId: true },
+        }),
+      ]);
+
+      const plan = planAssignments(
+        unassigned.map((application) => application.id),
+        reviewers,
+        strategy,
+        lastAssigned?.assignedReviewerUserId ?? null
+      );
+
+      for (const { applicationId, reviewerUserId } of plan) {
+        await tx.application.update({
+          where: { id: applicationId },
+          data: {
+            assignedReviewerUserId: reviewerUserId,
+            assignedAt: now,
+            events: {
+              create: {
+                type: "REVIEWER_ASSIGNED",
+                actorUserId: req.user!.id,
+                metadataJson: { reviewerUserId, previousReviewerUserId: null, strategy },
+              },
+            },
+          },
+        });
+      }
+
+      return {
+        assignedCount: plan.length,
+        workload: await getReviewerWorkload(tx, cycle.id),
+      };
+    });
+
+    res.status(200).json({ data: result });
+  })
+);
+
+router.get(
+  "/cycles/:id/fees",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!cycle) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    res.status(200).json({ data: await getFeeSchedule(prisma, cycle.id) });
+  })
+);
+
+// Replaces the whole table; pairs left out no longer have an expected fee.
+router.put(
+  "/cycles/:id/fees",
+  validateParams(uuidParamSchema),
+  validateBody(membershipFeesUpdateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!cycle) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    const fees: Array<{
+      memberType: string;
+      universityType: string;
+      amount: number;
+    }> = req.body.fees;
+    const schedule = await prisma.$transaction(async (tx) => {
+      await tx.membershipFee.deleteMany({ where: { cycleId: cycle.id } });
+      await tx.membershipFee.createMany({
+        data: fees.map((fee) => ({
+          cycleId: cycle.id,
+          memberType: fee.memberType,
+          universityType: fee.universityType,
+          amountCents: Math.round(fee.amount * 100),
+        })),
+      });
+      return getFeeSchedule(tx, cycle.id);
+    });
+
+    res.status(200).json({ data: schedule });
+  })
+);
+
+const toStatementRowView = (row: StatementRow) => ({
+  line: row.line,
+  date: row.date,
+  reference: row.reference,
+  amount: row.amountCents === null ? null : row.amountCents / 100,
+});
+
+router.post(
+  "/cycles/:id/payment-reconciliation",
+  validateParams(uuidParamSchema),
+  validateBody(paymentReconciliationPreviewSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, blindReview: true },
+    });
+    if (!cycle) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    const statement = readStatement(req.body.csv, req.body.columns);
+    const applications = await prisma.application.findMany({
+      where: { cycleId: cycle.id, status: { not: "DRAFT" } },
+      orderBy: { submittedAt: "asc" },
+      select: {
+        ...reconciliationCandidateSelect,
+        user: { select: { id: true, email: true, name: true } },
+      },
+    });
+    const { fees } = await getFeeSchedule(prisma, cycle.id);
+    const reconciled = reconcileStatement(statement.rows, applications);
+    const duplicates = await findPaymentDuplicates(
+      prisma,
+      reconciled.matched.map(({ application }) => application)
+    );
+    // A wrong fee or a possible duplicate payment still needs a reviewer to
+    // override it on the application itself.
+    const getReviewReason = (application: (typeof applications)[number]) =>
+      isPaymentAmountMismatch(checkPaymentAmount(fees, application.answersJson))
+        ? ("fee_mismatch" as const)
+        : hasPaymentDuplicates(duplicates.get(application.id)!)
+          ? ("possible_duplicate_payment" as const)
+          : null;
+    const result = {
+      ...reconciled,
+      matched: reconciled.matched.filter(
+        ({ application }) => getReviewReason(application) === null
+      ),
+      ambiguous: [
+        ...reconciled.ambiguous,
+        ...reconciled.matched.flatMap(({ row, application }) => {
+          const reason = getReviewReason(application);
+          return reason ? [{ row, reason, candidates: [application] }] : [];
+        }),
+      ].sort((a, b) => a.row.line - b.row.line),
+    };
+
+    const shownIds = new Set([
+      ...result.matched.map(({ application }) => application.id),
+      ...result.ambiguous.flatMap(({ candidates }) =>
+        candidates.map((candidate) => candidate.id)
+      ),
+      ...result.unmatchedApplications.map((application) => application.id),
+    ]);
+    const hiddenIdentities = await resolveHiddenIdentities(
+      req.user!,
+      Array.from(shownIds, (id) => ({ id, blindReview: cycle.blindReview }))
+    );
+    const toApplicationView = (
+      application: (typeof applications)[number]
+    ) => {
+      const { answersJson, user, ...rest } = application;
+      const { referenceNumber, amountPaidCents } = getPaymentAnswers(answersJson);
+      const identityHidden = hiddenIdentities.has(application.id);
+      return {
+        id: rest.id,
+        status: rest.status,
+        referenceNumber,
+        amountPaid: amountPaidCents === null ? null : amountPaidCents / 100,
+        user: identityHidden
+          ? redactApplicant({ id: rest.id, user }).user
+          : user,
+        identityHidden,
+      };
+    };
+
+    res.status(200).json({
+      data: {
+        headers: statement.headers,
+        columns: statement.columns,
+        rowCount: statement.rows.length,
+        matched: result.matched.map(({ row, application }) => ({
+          row: toStatementRowView(row),
+          application: toApplicationView(application),
+        })),
+        ambiguous: result.ambiguous.map(({ row, reason, candidates }) => ({
+          row: toStatementRowView(row),
+          reason,
+          candidates: candidates.map(toApplicationView),
+        })),
+        unmatched: result.unmatched.map(({ row, reason }) => ({
+          row: toStatementRowView(row),
+          reason,
+        })),
+        unmatchedApplications: result.unmatchedApplications.map(toApplicationView),
+      },
+    });
+  })
+);
+
+router.post(
+  "/cycles/:id/payment-reconciliation/confirm",
+  validateParams(uuidParamSchema),
+  validateBody(paymentReconciliationConfirmSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!cycle) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    const matches: Array<{
+      applicationId: string;
+      reference: string;
+      amount: number;
+      date?: string | null;
+    }> = req.body.matches;
+    const now = new Date();
+    const { fees } = await getFeeSchedule(prisma, cycle.id);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const applications = await tx.application.findMany({
+        where: {
+          id: { in: matches.map((match) => match.applicationId) },
+          cycleId: cycle.id,
+        },
+        select: reconciliationCandidateSelect,
+      });
+      const byId = new Map(
+        applications.map((application) => [application.id, application])
+      );
+      const duplicates = await findPaymentDuplicates(tx, applications);
+
+      const verified: string[] = [];
+      const skipped: Array<{ applicationId: string; reason: string }> = [];
+      for (const match of matches) {
+        const application = byId.get(match.applicationId);
+        if (!application) {
+          skipped.push({ applicationId: match.applicationId, reason: "not_found" });
+          continue;
+        }
+        if (verified.includes(application.id)) {
+          skipped.push({ applicationId: application.id, reason: "duplicate_match" });
+          continue;
+        }
+
+        // The preview is advisory; every match is re-checked against the
+        // applicant's answers before it is trusted.
+        const answers = getPaymentAnswers(application.answersJson);
+        const reason =
+          getStatementMatchSkipReason(application) ??
+          (normalizeReference(answers.referenceNumber) !==
+          normalizeReference(match.reference)
+            ? "reference_mismatch"
+            : answers.amountPaidCents !== parseStatementAmount(match.amount)
+              ? "amount_mismatch"
+              : isPaymentAmountMismatch(
+                    checkPaymentAmount(fees, application.answersJson)
+                  )
+                ? "fee_mismatch"
+                : hasPaymentDuplicates(duplicates.get(application.id)!)
+                  ? "possible_duplicate_payment"
+                  : null);
+        if (reason) {
+          skipped.push({ applicationId: application.id, reason });
+          continue;
+        }
+
+        await tx.application.update({
+          where: { id: application.id },
+          data: {
+            paymentVerifiedAt: now,
+            paymentVerifiedByUserId: req.user!.id,
+            events: {
+              create: {
+                type: "PAYMENT_VERIFIED",
+                actorUserId: req.user!.id,
+                fromStatus: application.status,
+                toStatus: application.status,
+                metadataJson: {
+                  source: "statement",
+                  reference: match.reference,
+                  amount: match.amount,
+                  date: match.date ?? null,
+                },
+              },
+            },
+          },
+        });
+        verified.push(application.id);
+      }
+
+      return { verifiedCount: verified.length, verified, skipped };
+    });
+
+    res.status(200).json({ data: result });
+  })
+);
+
+router.get(
+  "/cycles/:id/rubric",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!cycle) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    res.status(200).json({ data: await getRubricCriteria(cycle.id) });
+  })
+);
+
+router.post(
+  "/cycles/:id/rubric",
+  validateParams(uuidParamSchema),
+  validateBody(rubricCriterionCreateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await prisma.recruitmentCycle.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!cycle) {
+      throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+    }
+
+    let sortOrder: number | undefined = req.body.sortOrder;
+    if (sortOrder === undefined) {
+      const last = await prisma.rubricCriterion.aggregate({
+        where: { cycleId: cycle.id, archivedAt: null },
+        _max: { sortOrder: true },
+      });
+      sortOrder = (last._max.sortOrder ?? -1) + 1;
+    }
+
+    const created = await prisma.rubricCriterion.create({
+      data: {
+        cycleId: cycle.id,
+        label: req.body.label,
+        description: req.body.description ?? null,
+        weight: req.body.weight,
+        scaleMin: req.body.scaleMin,
+        scaleMax: req.body.scaleMax,
+        sortOrder,
+      },
+      select: rubricCriterionSelect,
+    });
+
+    res.status(201).json({ data: created });
+  })
+);
+
+router.patch(
+  "/rubric-criteria/:id",
+  validateParams(uuidParamSchema),
+  validateBody(rubricCriterionUpdateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const existing = await prisma.rubricCriterion.findFirst({
+      where: { id: req.params.id, archivedAt: null },
+      select: { id: true, cycleId: true, weight: true },
+    });
+    if (!existing) {
+      throw new HttpError(404, "criterion_not_found", "Rubric criterion not found.");
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const criterion = await tx.rubricCriterion.update({
+        where: { id: existing.id },
+        data: {
+          label: req.body.label,
+          description: req.body.description,
+          weight: req.body.weight,
+          sortOrder: req.body.sortOrder,
+        },
+        select: rubricCriterionSelect,
+      });
+      if (criterion.weight !== existing.weight) {
+        await refreshApplicationScoreMeans(tx, {
+          cycleId: existing.cycleId,
+          scores: { some: {} },
+        });
+      }
+      return criterion;
+    });
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+// Criteria are archived rather than deleted so submitted scores keep their keys.
+router.delete(
+  "/rubric-criteria/:id",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const existing = await prisma.rubricCriterion.findFirst({
+      where: { id: req.params.id, archivedAt: null },
+      select: { id: true, cycleId: true },
+    });
+    if (!existing) {
+      throw new HttpError(404, "criterion_not_found", "Rubric criterion not found.");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.rubricCriterion.update({
+        where: { id: existing.id },
+        data: { archivedAt: new Date() },
+      });
+      await refreshApplicationScoreMeans(tx, {
+        cycleId: existing.cycleId,
+        scores: { some: {} },
+      });
+    });
+    res.status(204).send();
+  })
+);
+
+router.get(
+  "/users",
+  validateQuery(adminUsersQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { cycleId, role } = req.query as { cycleId?: string; role?: UserRole };
+    const users = await prisma.user.findMany({
+      where: role ? { role } : undefined,
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        onboardingCompletedAt: true,
+        createdAt: true,
+        applications: {
+          where: cycleId ? { cycleId } : undefined,
+          orderBy: { createdAt: "desc" },
+          select: {
+            status: true,
+            submittedAt: true,
+            paymentVerifiedAt: true,
+            cycle: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+    res.status(200).json({
+      data: users.map((user) => ({
+        ...user,
+        isBootstrapAdmin: isBootstrapAdmin(user.email),
+      })),
+    });
+  })
+);
+
+router.patch(
+  "/users/:id/role",
+  validateParams(uuidParamSchema),
+  validateBody(userRoleUpdateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const role: UserRole = req.body.role;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const adminIds = await lockAdminUserIds(tx);
+      const user = await tx.user.findUnique({
+        where: { id: req.params.id },
+        select: { id: true, email: true, role: true },
+      });
+
+      if (!user) {
+        throw new HttpError(404, "user_not_found", "User not found.");
+      }
+
+      if (user.role === role) {
+        throw new HttpError(
+          409,
+          "role_unchanged",
+          role === "ADMIN" ? "User is already an admin." : "User is not an admin."
+        );
+      }
+
+      let releasedAssignmentCount = 0;
+      if (role === "MEMBER") {
+        if (user.id === req.user!.id) {
+          throw new HttpError(
+            409,
+            "cannot_demote_self",
+            "You cannot remove your own admin role."
+          );
+        }
+        if (isBootstrapAdmin(user.email)) {
+          throw new HttpError(
+            409,
+            "bootstrap_admin",
+            "This admin is listed in ADMIN_EMAILS and can only be removed there."
+          );
+        }
+        if (adminIds.filter((id) => id !== user.id).length === 0) {
+          throw new HttpError(409, "last_admin", "At least one admin must remain.");
+        }
+
+        // Open reviews go back to the unassigned pool for redistribution.
+        const assigned = await tx.application.findMany({
+          where: {
+            assignedReviewerUserId: user.id,
+            status: { in: openReviewStatuses },
+          },
+          select: { id: true },
+        });
+        if (assigned.length > 0) {
+          await tx.application.updateMany({
+            where: { id: { in: assigned.map((application) => application.id) } },
+            data: { assignedReviewerUserId: null, assignedAt: null },
+          });
+          await tx.applicationEvent.createMany({
+            data: assigned.map((application) => ({
+              applicationId: application.id,
+              type: "REVIEWER_ASSIGNED" as const,
+              actorUserId: req.user!.id,
+              metadataJson: {
+                reviewerUserId: null,
+                previousReviewerUserId: user.id,
+                reason: "reviewer_demoted",
+              },
+            })),
+          });
+        }
+        releasedAssignmentCount = assigned.length;
+      }
+
+      const updated = await tx.user.update({
+        where: { id: user.id },
+        data: { role },
+        select: { id: true, email: true, name: true, role: true },
+      });
+      return { user: updated, releasedAssignmentCount };
+    });
+
+    res.status(200).json({
+      data: {
+        ...result.user,
+        isBootstrapAdmin: isBootstrapAdmin(result.user.email),
+        releasedAssignmentCount: result.releasedAssignmentCount,
+      },
+    });
+  })
+);
+
+router.get(
+  "/reviewers",
+  validateQuery(reviewerWorkloadQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { cycleId } = req.query as { cycleId?: string };
+    const cycle = await resolveCycleFilter(cycleId);
+    const workload = await getReviewerWorkload(prisma, cycle?.id ?? null);
+    res.status(200).json({ data: workload, cycle });
+  })
+);
+
+const adminApplicationListSelect = {
+  id: true,
+  status: true,
+  submittedAt: true,
+  paymentProofKey: true,
+  paymentProofUploadedAt: true,
+  paymentVerifiedAt: true,
+  paymentRejectedAt: true,
+  paymentRejectionReason: true,
+  reviewedAt: true,
+  decisionNote: true,
+  withdrawnAt: true,
+  withdrawalReason: true,
+  waitlistPosition: true,
+  tags: true,
+  assignedAt: true,
+  assignedReviewer: { select: reviewerSelect },
+  currentPaymentProof: { select: { thumbnailKey: true, processedAt: true } },
+  cycle: { select: { id: true, name: true, blindReview: true } },
+  user: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      onboardingCompletedAt: true,
+    },
+  },
+} as const;
+
+type AdminApplicationFilterQuery = {
+  cycleId?: string;
+  includeWithdrawn: boolean;
+  assignedTo?: string;
+  status?: ApplicationStatus;
+  paymentVerified?: boolean;
+  memberType?: string;
+  universityType?: string;
+  submittedFrom?: Date;
+  submittedTo?: Date;
+  reviewedBy?: string;
+  tag?: string;
+};
+
+// `baseWhere` leaves out the status filter so the list can count every tab.
+const resolveAdminApplicationWhere = (
+  query: AdminApplicationFilterQuery,
+  cycleId: string | null,
+  viewerId: string
+) => {
+  const baseWhere = buildAdminApplicationBaseWhere({
+    cycleId,
+    includeWithdrawn: query.includeWithdrawn,
+    status: query.status,
+    paymentVerified: query.paymentVerified,
+    memberType: query.memberType,
+    universityType: query.universityType,
+    submittedFrom: query.submittedFrom,
+    submittedTo: query.submittedTo,
+    reviewedByUserId: query.reviewedBy === "me" ? viewerId : query.reviewedBy,
+    tag: query.tag,
+    assignedReviewerUserId:
+      query.assignedTo === "me"
+        ? viewerId
+        : query.assignedTo === "unassigned"
+          ? null
+          : query.assignedTo,
+  });
+  const where: Prisma.ApplicationWhereInput = query.status
+    ? { AND: [baseWhere, { status: query.status }] }
+    : baseWhere;
+  return { baseWhere, where };
+};
+
+router.get(
+  "/applications",
+  validateQuery(adminApplicationsQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as AdminApplicationFilterQuery & {
+      sort?: AdminApplicationSort;
+      cursor?: string;
+      limit: number;
+    };
+    const { sort = "newest", cursor: rawCursor, limit } = query;
+    const cycle = await resolveCycleFilter(query.cycleId);
+    const cursor = rawCursor
+      ? decodeAdminApplicationCursor(rawCursor, sort)
+      : null;
+
+    const { baseWhere, where } = resolveAdminApplicationWhere(
+      query,
+      cycle?.id ?? null,
+      req.user!.id
+    );
+
+    let page: Array<
+      Prisma.ApplicationGetPayload<{ select: typeof adminApplicationListSelect }>
+    >;
+    let nextCursor: AdminApplicationCursor | null = null;
+    if (sort === "newest" || sort === "oldest") {
+      const direction = sort === "newest" ? "desc" : "asc";
+      const rows = await prisma.application.findMany({
+        where: cursor
+          ? {
+              AND: [
+                where,
+                buildSubmittedAtCursorWhere(
+                  cursor as { submittedAt: string; id: string },
+                  sort
+                ),
+              ],
+            }
+          : where,
+        orderBy: [{ submittedAt: direction }, { id: direction }],
+        take: limit + 1,
+        select: adminApplicationListSelect,
+      });
+      page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      if (rows.length > limit && last) {
+        nextCursor = { submittedAt: last.submittedAt.toISOString(), id: last.id };
+      }
+    } else {
+      // Only ids and means are ranked in SQL; the page is loaded in full once
+      // its order is known, so no hidden mean reaches the response.
+      const scoreCursor = cursor as { scoreMean: number | null; id: string } | null;
+      const visibleScore = buildVisibleScoreWhere(req.user!.id);
+      const ranked: Array<{ id: string; scoreMean: number | null }> = [];
+      if (!scoreCursor || scoreCursor.scoreMean !== null) {
+        ranked.push(
+          ...(await prisma.application.findMany({
+            where: {
+              AND: [
+                where,
+                visibleScore,
+                ...(scoreCursor
+                  ? [
+                      buildScoreCursorWhere(
+                        scoreCursor as { scoreMean: number; id: string },
+                        sort
+                      ),
+                    ]
+                  : []),
+              ],
+            },
+            orderBy: [
+              { scoreMean: sort === "score_asc" ? "asc" : "desc" },
+              { id: "asc" },
+            ],
+            take: limit + 1,
+            select: { id: true, scoreMean: true },
+          }))
+        );
+      }
+      if (ranked.length <= limit) {
+        const hidden = await prisma.application.findMany({
+          where: {
+            AND: [
+              where,
+              { NOT: visibleScore },
+              ...(scoreCursor?.scoreMean === null
+                ? [{ id: { gt: scoreCursor.id } }]
+                : []),
+            ],
+          },
+          orderBy: { id: "asc" },
+          take: limit + 1 - ranked.length,
+          select: { id: true },
+        });
+        ranked.push(...hidden.map(({ id }) => ({ id, scoreMean: null })));
+      }
+      const pageIds = ranked.slice(0, limit).map(({ id }) => id);
+      const rows = await prisma.application.findMany({
+        where: { id: { in: pageIds } },
+        select: adminApplicationListSelect,
+      });
+      const byId = new Map(rows.map((row) => [row.id, row]));
+      page = pageIds.flatMap((id) => {
+        const row = byId.get(id);
+        return row ? [row] : [];
+      });
+      if (ranked.length > limit) {
+        nextCursor = ranked[limit - 1];
+      }
+    }
+
+    const [statusCounts, paymentUnverified] = await Promise.all([
+      prisma.application.groupBy({
+        by: ["status"],
+        where: baseWhere,
+        _count: { _all: true },
+      }),
+      prisma.application.count({
+        where: { AND: [baseWhere, { paymentVerifiedAt: null }] },
+      }),
+    ]);
+    const byStatus = Object.fromEntries(
+      listedApplicationStatuses.map((key) => [
+        key,
+        statusCounts.find((entry) => entry.status === key)?._count._all ?? 0,
+      ])
+    ) as Record<ApplicationStatus, number>;
+
+    const hiddenIdentities = await resolveHiddenIdentities(
+      req.user!,
+      page.map((application) => ({
+        id: application.id,
+        blindReview: application.cycle.blindReview,
+      }))
+    );
+    const scoreSummaries = await summarizeApplicationScores(
+      page.map((application) => ({
+        id: application.id,
+        cycleId: application.cycle.id,
+      })),
+      req.user!.id
+    );
+
+    const data = await Promise.all(
+      page.map(async ({ currentPaymentProof, ...application }) => {
+        // The list shows thumbnails only; until a proof is processed it has
+        // none rather than falling back to the full-size original.
+        const paymentProofThumbnailUrl = await createOptionalPaymentProofViewUrl(
+          currentPaymentProof?.thumbnailKey ?? null
+        );
+
+        const identityHidden = hiddenIdentities.has(application.id);
+        return {
+          ...(identityHidden
+            ? { ...redactApplicant(application), paymentProofKey: null }
+            : application),
+          identityHidden,
+          paymentProofThumbnailUrl,
+          paymentProofProcessing:
+            currentPaymentProof !== null && currentPaymentProof.processedAt === null,
+          score: scoreSummaries.get(application.id)!,
+        };
+      })
+    );
+
+    res.status(200).json({
+      data,
+      cycle,
+      counts: {
+        total: statusCounts.reduce((sum, entry) => sum + entry._count._all, 0),
+        byStatus,
+        paymentUnverified,
+      },
+      pageInfo: {
+        limit,
+        nextCursor: nextCursor ? encodeAdminApplicationCursor(nextCursor) : null,
+      },
+    });
+  })
+);
+
+// Every matching application with all of its answers, written batch by batch
+// so large cycles never sit in memory.
+router.get(
+  "/applications/export",
+  validateQuery(adminApplicationExportQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as AdminApplicationFilterQuery & {
+      format: ApplicationExportFormat;
+      sort?: "newest" | "oldest";
+    };
+    const cycle = await resolveCycleFilter(query.cycleId);
+    const { where } = resolveAdminApplicationWhere(
+      query,
+      cycle?.id ?? null,
+      req.user!.id
+    );
+    const columns = await buildApplicationExportColumns(where);
+
+    const filename = `applications-${new Date().toISOString().slice(0, 10)}.${query.format}`;
+    res.status(200);
+    res.setHeader("Content-Type", applicationExportContentTypes[query.format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+    const writer = createApplicationExportWriter(
+      query.format,
+      res,
+      columns.map((column) => column.header)
+    );
+    // Stops the database pager as soon as the client goes away.
+    const disconnected = new AbortController();
+    res.once("close", () => disconnected.abort());
+    try {
+      for await (const batch of readApplicationExportBatches(
+        where,
+        query.sort ?? "newest",
+        disconnected.signal
+      )) {
+        const hiddenIdentities = await resolveHiddenIdentities(
+          req.user!,
+          batch.map((application) => ({
+            id: application.id,
+            blindReview: application.cycle.blindReview,
+          }))
+        );
+        await writer.writeRows(
+          batch.map((application) =>
+            toApplicationExportValues(
+              columns,
+              application,
+              hiddenIdentities.has(application.id)
+            )
+          )
+        );
+      }
+      await writer.finish();
+    } catch (error) {
+      // The status line has gone out; cutting the connection is the only way
+      // left to tell the client the file is incomplete.
+      res.destroy(error as Error);
+    }
+  })
+);
+
+router.get(
+  "/applications/search",
+  validateQuery(adminApplicationSearchQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { q, cycleId, includeWithdrawn, limit } = req.query as unknown as {
+      q: string;
+      cycleId?: string;
+      includeWithdrawn: boolean;
+      limit: number;
+    };
+    const cycle = await resolveCycleFilter(cycleId);
+    const rows = await searchApplications({
+      query: q,
+      cycleId: cycle?.id ?? null,
+      includeWithdrawn,
+      limit,
+    });
+
+    const applications = await prisma.application.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      select: {
+        id: true,
+        status: true,
+        submittedAt: true,
+        formDefinitionId: true,
+        cycle: { select: { id: true, name: true, blindReview: true } },
+        user: { select: { id: true, email: true, name: true } },
+      },
+    });
+    const byId = new Map(applications.map((application) => [application.id, application]));
+    const hiddenIdentities = await resolveHiddenIdentities(
+      req.user!,
+      applications.map((application) => ({
+        id: application.id,
+        blindReview: application.cycle.blindReview,
+      }))
+    );
+
+    const labelsByForm = new Map<string, Promise<Map<string, string>>>();
+    const getQuestionLabels = (application: (typeof applications)[number]) => {
+      const key = `${application.cycle.id}:${application.formDefinitionId ?? ""}`;
+      if (!labelsByForm.has(key)) {
+        labelsByForm.set(
+          key,
+          getFormDefinitionForApplication({
+            cycleId: application.cycle.id,
+            formDefinitionId: application.formDefinitionId,
+          }).then(
+            (form) =>
+              new Map(
+                getFormQuestions(form.sections).map((question) => [
+                  question.id,
+                  question.label,
+                ])
+              )
+          )
+        );
+      }
+      return labelsByForm.get(key)!;
+    };
+
+    // Under blind review an application is only found through answers that do
+    // not identify the applicant, and those answers are never quoted.
+    const results = await Promise.all(
+      rows.map(async (row) => {
+        const application = byId.get(row.id);
+        const identityHidden = hiddenIdentities.has(row.id);
+        if (!application || (identityHidden && !row.matchesWithoutIdentity)) {
+          return [];
+        }
+        const labels = await getQuestionLabels(application);
+        const { formDefinitionId, cycle, ...summary } = application;
+        return [
+          {
+            application: {
+              ...(identityHidden ? redactApplicant(summary) : summary),
+              cycle: { id: cycle.id, name: cycle.name },
+              identityHidden,
+            },
+            rank: row.rank,
+            matches: row.matches
+              .filter((match) => !identityHidden || !isIdentityMatchKey(match.key))
+              .map((match) => ({
+                questionId: match.key,
+                label:
+                  match.key === userNameMatchKey
+                    ? "Name"
+                    : match.key === userEmailMatchKey
+                      ? "Email"
+                      : labels.get(match.key) ?? match.key,
+                segments: toSnippetSegments(match.headline),
+              })),
+          },
+        ];
+      })
+    );
+
+    res.status(200).json({ data: results.flat(), cycle });
+  })
+);
+
+const applicationScoreSelect = {
+  id: true,
+  scoresJson: true,
+  comment: true,
+  createdAt: true,
+  updatedAt: true,
+  reviewer: { select: { id: true, email: true, name: true } },
+} as const;
+
+type ApplicationScoreRow = Prisma.ApplicationScoreGetPayload<{
+  select: typeof applicationScoreSelect;
+}>;
+
+// Other reviewers' scores stay hidden until the viewer has submitted their own,
+// so a first impression is never anchored on someone else's numbers.
+const buildScoringView = (
+  criteria: RubricCriterionSummary[],
+  scores: ApplicationScoreRow[],
+  viewerUserId: string
+) => {
+  const reviews = scores.map(({ scoresJson, ...score }) => ({
+    ...score,
+    scores: scoresJson,
+    weightedScore: computeWeightedScore(criteria, scoresJson),
+  }));
+  const mine = reviews.find((review) => review.reviewer.id === viewerUserId) ?? null;
+  const weightedScores = reviews
+    .map((review) => review.weightedScore)
+    .filter((value): value is number => value !== null);
+
+  return {
+    criteria,
+    mine,
+    summary: summarizeScores(weightedScores, !mine),
+    reviews: mine ? reviews : [],
+  };
+};
+
+// Other applications sharing the payment, named under their own cycle's blind
+// review rules.
+const getPaymentDuplicatesView = async (
+  viewer: { id: string; email: string },
+  duplicates: PaymentDuplicateIds
+) => {
+  const others = await prisma.application.findMany({
+    where: { id: { in: [...duplicates.reference, ...duplicates.image] } },
+    select: {
+      id: true,
+      status: true,
+      submittedAt: true,
+      paymentVerifiedAt: true,
+      cycle: { select: { id: true, name: true, blindReview: true } },
+      user: { select: { id: true, email: true, name: true } },
+    },
+  });
+  const hiddenIdentities = await resolveHiddenIdentities(
+    viewer,
+    others.map((other) => ({ id: other.id, blindReview: other.cycle.blindReview }))
+  );
+  const byId = new Map(
+    others.map(({ cycle, ...other }) => {
+      const identityHidden = hiddenIdentities.has(other.id);
+      return [
+        other.id,
+        {
+          ...(identityHidden ? redactApplicant(other) : other),
+          cycle: { id: cycle.id, name: cycle.name },
+          identityHidden,
+        },
+      ];
+    })
+  );
+  const toViews = (ids: string[]) =>
+    ids.flatMap((id) => {
+      const view = byId.get(id);
+      return view ? [view] : [];
+    });
+
+  return {
+    reference: toViews(duplicates.reference),
+    image: toViews(duplicates.image),
+  };
+};
+
+router.get(
+  "/applications/:id",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await prisma.application.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        cycleId: true,
+        formDefinitionId: true,
+        status: true,
+        answersJson: true,
+        submittedAt: true,
+        paymentProofKey: true,
+        paymentProofUploadedAt: true,
+        paymentVerifiedAt: true,
+        paymentRejectedAt: true,
+        paymentRejectionReason: true,
+        reviewedAt: true,
+        decisionNote: true,
+        withdrawnAt: true,
+        withdrawalReason: true,
+        waitlistPosition: true,
+        tags: true,
+        assignedAt: true,
+        assignedReviewer: { select: reviewerSelect },
+        currentPaymentProofId: true,
+        paymentReferenceKey: true,
+        refund: { select: refundSelect },
+        paymentProofs: {
+          orderBy: { uploadedAt: "desc" },
+          select: {
+            id: true,
+            objectKey: true,
+            contentType: true,
+            contentLength: true,
+            contentSha256: true,
+            thumbnailKey: true,
+            previewKey: true,
+            status: true,
+            uploadedAt: true,
+            confirmedAt: true,
+            processedAt: true,
+          },
+        },
+        cycle: { select: { id: true, name: true, blindReview: true } },
+        interviewBooking: {
+          select: {
+            id: true,
+            slot: {
+              select: {
+                id: true,
+                startsAt: true,
+                endsAt: true,
+                location: true,
+                videoUrl: true,
+              },
+            },
+          },
+        },
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            onboardingCompletedAt: true,
+          },
+        },
+      },
+    });
+
+    if (!application) {
+      throw new HttpError(404, "application_not_found", "Application not found.");
+    }
+
+    const currentPaymentProof =
+      application.paymentProofs.find(
+        (proof) => proof.id === application.currentPaymentProofId
+      ) ?? null;
+    // Unprocessed proofs have no preview, so the original stands in.
+    const [paymentProofViewUrl, paymentProofPreviewUrl] = await Promise.all([
+      createOptionalPaymentProofViewUrl(application.paymentProofKey),
+      createOptionalPaymentProofViewUrl(
+        currentPaymentProof?.previewKey ?? application.paymentProofKey
+      ),
+    ]);
+
+    const paymentProofs = await Promise.all(
+      application.paymentProofs.map(async (proof) => {
+        const [viewUrl, thumbnailUrl] = await Promise.all([
+          createOptionalPaymentProofViewUrl(proof.objectKey),
+          createOptionalPaymentProofViewUrl(proof.thumbnailKey),
+        ]);
+        return {
+          ...proof,
+          isCurrent: proof.id === application.currentPaymentProofId,
+          viewUrl,
+          thumbnailUrl,
+        };
+      })
+    );
+
+    const {
+      cycleId,
+      formDefinitionId,
+      paymentReferenceKey,
+      refund,
+      ...applicationDetail
+    } = application;
+    const duplicateIds = (
+      await findPaymentDuplicates(prisma, [
+        { id: application.id, paymentReferenceKey, currentPaymentProof },
+      ])
+    ).get(application.id)!;
+    const hiddenIdentities = await resolveHiddenIdentities(req.user!, [
+      { id: application.id, blindReview: application.cycle.blindReview },
+    ]);
+    const identityHidden = hiddenIdentities.has(application.id);
+    const [form, criteria, scores, feeSchedule, paymentDuplicates] = await Promise.all([
+      getFormDefinitionForApplication({ cycleId, formDefinitionId }),
+      getRubricCriteria(cycleId),
+      prisma.applicationScore.findMany({
+        where: { applicationId: application.id },
+        orderBy: { createdAt: "asc" },
+        select: applicationScoreSelect,
+      }),
+      getFeeSchedule(prisma, cycleId),
+      getPaymentDuplicatesView(req.user!, duplicateIds),
+    ]);
+
+    res.status(200).json({
+      data: {
+        ...(identityHidden
+          ? {
+              ...redactApplicant(applicationDetail),
+              answersJson: redactIdentityAnswers(application.answersJson),
+              paymentProofKey: null,
+            }
+          : applicationDetail),
+        answers: identityHidden
+          ? redactIdentityAnswers(application.answersJson)
+          : application.answersJson,
+        identityHidden,
+        paymentProofViewUrl,
+        paymentProofPreviewUrl,
+        paymentProofs: identityHidden
+          ? paymentProofs.map(redactPaymentProofKeys)
+          : paymentProofs,
+        paymentAmount: checkPaymentAmount(
+          feeSchedule.fees,
+          application.answersJson
+        ),
+        paymentDuplicates,
+        refund: refund ? toRefundView(refund) : null,
+        form,
+        scoring: buildScoringView(criteria, scores, req.user!.id),
+      },
+    });
+  })
+);
+
+router.get(
+  "/applications/:id/events",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await prisma.application.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        userId: true,
+        cycle: { select: { blindReview: true } },
+        events: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            type: true,
+            fromStatus: true,
+            toStatus: true,
+            note: true,
+            metadataJson: true,
+            createdAt: true,
+            actor: {
+              select: {
+                id: true,
+                email: true,
+                name: true,
+                role: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!application) {
+      throw new HttpError(404, "application_not_found", "Application not found.");
+    }
+
+    const hiddenIdentities = await resolveHiddenIdentities(req.user!, [
+      { id: application.id, blindReview: application.cycle.blindReview },
+    ]);
+    res.status(200).json({
+      data: hiddenIdentities.has(application.id)
+        ? application.events.map((event) =>
+            redactApplicantEvent(event, application)
+          )
+        : application.events,
+    });
+  })
+);
+
+const ensureApplicationExists = async (id: string) => {
+  const application = await prisma.application.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!application) {
+    throw new HttpError(404, "application_not_found", "Application not found.");
+  }
+  return application;
+};
+
+// Only the author may edit or delete a comment.
+const requireOwnComment = async (
+  applicationId: string,
+  commentId: string,
+  userId: string
+) => {
+  const comment = await prisma.applicationComment.findFirst({
+    where: { id: commentId, applicationId },
+    select: { id: true, body: true, authorUserId: true },
+  });
+  if (!comment) {
+    throw new HttpError(404, "comment_not_found", "Comment not found.");
+  }
+  if (comment.authorUserId !== userId) {
+    throw new HttpError(
+      403,
+      "not_comment_author",
+      "Only the author can change this comment."
+    );
+  }
+  return comment;
+};
+
+router.get(
+  "/applications/:id/comments",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await ensureApplicationExists(req.params.id);
+    const comments = await prisma.applicationComment.findMany({
+      where: { applicationId: application.id },
+      orderBy: { createdAt: "asc" },
+      select: applicationCommentSelect,
+    });
+
+    res.status(200).json({ data: await withCommentMentions(prisma, comments) });
+  })
+);
+
+router.post(
+  "/applications/:id/comments",
+  validateParams(uuidParamSchema),
+  validateBody(applicationCommentSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await ensureApplicationExists(req.params.id);
+    const body: string = req.body.body;
+
+    const created = await prisma.applicationComment.create({
+      data: {
+        applicationId: application.id,
+        authorUserId: req.user!.id,
+        body,
+        mentionedUserIds: await resolveMentionedUserIds(prisma, body),
+      },
+      select: applicationCommentSelect,
+    });
+
+    const [comment] = await withCommentMentions(prisma, [created]);
+    res.status(201).json({ data: comment });
+  })
+);
+
+router.patch(
+  "/applications/:id/comments/:commentId",
+  validateParams(applicationCommentParamSchema),
+  validateBody(applicationCommentSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const existing = await requireOwnComment(
+      req.params.id,
+      req.params.commentId,
+      req.user!.id
+    );
+    const body: string = req.body.body;
+    if (body === existing.body) {
+      throw new HttpError(409, "comment_unchanged", "Comment text is unchanged.");
+    }
+
+    // The replaced text is kept as a revision so edits stay auditable.
+    const updated = await prisma.applicationComment.update({
+      where: { id: existing.id },
+      data: {
+        body,
+        mentionedUserIds: await resolveMentionedUserIds(prisma, body),
+        editedAt: new Date(),
+        revisions: { create: { body: existing.body } },
+      },
+      select: applicationCommentSelect,
+    });
+
+    const [comment] = await withCommentMentions(prisma, [updated]);
+    res.status(200).json({ data: comment });
+  })
+);
+
+router.delete(
+  "/applications/:id/comments/:commentId",
+  validateParams(applicationCommentParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const existing = await requireOwnComment(
+      req.params.id,
+      req.params.commentId,
+      req.user!.id
+    );
+
+    await prisma.applicationComment.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  })
+);
+
+router.get(
+  "/applications/:id/identity-reveals",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await ensureApplicationExists(req.params.id);
+    const reveals = await prisma.identityReveal.findMany({
+      where: { applicationId: application.id },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        reason: true,
+        createdAt: true,
+        viewer: { select: reviewerSelect },
+      },
+    });
+    res.status(200).json({ data: reveals });
+  })
+);
+
+// Shared by the single and bulk endpoints so both apply the same guards.
+const verifyApplicationPayment = async (
+  applicationId: string,
+  actorUserId: string,
+  options: { overrideAmountMismatch: boolean; acknowledgeDuplicatePayment: boolean }
+) => {
+  const application = await prisma.application.findUnique({
+    where: { id: applicationId },
+    select: {
+      id: true,
+      cycleId: true,
+      status: true,
+      answersJson: true,
+      paymentProofKey: true,
+      paymentRejectedAt: true,
+      paymentReferenceKey: true,
+      currentPaymentProof: { select: { contentSha256: true } },
+    },
+  });
+
+  if (!application) {
+    throw new HttpError(404, "application_not_found", "Application not found.");
+  }
+
+  if (!application.paymentProofKey) {
+    throw new HttpError(
+      409,
+      "payment_proof_missing",
+      "Payment proof must be uploaded before verification."
+    );
+  }
+
+  if (application.paymentRejectedAt) {
+    throw new HttpError(
+      409,
+      "payment_proof_rejected",
+      "The current payment proof was rejected. Wait for the applicant to upload a new one."
+    );
+  }
+
+  if (application.status === "DRAFT") {
+    throw new HttpError(
+      409,
+      "application_not_submitted",
+      "Application must be submitted before payment verification."
+    );
+  }
+
+  if (application.status === "WITHDRAWN") {
+    throw new HttpError(
+      409,
+      "application_withdrawn",
+      "Withdrawn applications cannot be verified."
+    );
+  }
+
+  let exists = false;
+  try {
+    exists = await paymentProofObjectExists(application.paymentProofKey);
+  } catch (error) {
+    throw new HttpError(
+      500,
+      "storage_unavailable",
+      "Payment proof storage is unavailable.",
+      { error: error instanceof Error ? error.message : "unknown_error" }
+    );
+  }
+  if (!exists) {
+    throw new HttpError(
+      409,
+      "payment_proof_not_found",
+      "Payment proof file was not found in object storage."
+    );
+  }
+
+  const { fees } = await getFeeSchedule(prisma, application.cycleId);
+  const amountCheck = checkPaymentAmount(fees, application.answersJson);
+  ensurePaymentAmountOrOverride(amountCheck, options.overrideAmountMismatch);
+  const duplicates = (
+    await findPaymentDuplicates(prisma, [application])
+  ).get(application.id)!;
+  ensureNoPaymentDuplicatesOrAcknowledged(
+    duplicates,
+    options.acknowledgeDuplicatePayment
+  );
+
+  const now = new Date();
+  return prisma.application.update({
+    where: { id: application.id },
+    data: {
+      paymentVerifiedAt: now,
+      paymentVerifiedByUserId: actorUserId,
+      events: {
+        create: {
+          type: "PAYMENT_VERIFIED",
+          actorUserId,
+          fromStatus: application.status,
+          toStatus: application.status,
+          metadataJson:
+            isPaymentAmountMismatch(amountCheck) ||
+            hasPaymentDuplicates(duplicates)
+              ? {
+                  ...(isPaymentAmountMismatch(amountCheck)
+                    ? { amountOverride: true, ...amountCheck }
+                    : {}),
+                  ...(hasPaymentDuplicates(duplicates)
+                    ? { duplicateAcknowledged: true, duplicates }
+                    : {}),
+                }
+              : undefined,
+        },
+      },
+    },
+    select: {
+      id: true,
+      status: true,
+      paymentProofKey: true,
+      paymentVerifiedAt: true,
+      paymentVerifiedByUserId: true,
+    },
+  });
+};
+
+router.post(
+  "/applications/:id/payment-verify",
+  validateParams(uuidParamSchema),
+  validateBody(paymentVerifySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const updated = await verifyApplicationPayment(req.params.id, req.user!.id, {
+      overrideAmountMismatch: req.body.overrideAmountMismatch,
+      acknowledgeDuplicatePayment: req.body.acknowledgeDuplicatePayment,
+    });
+    res.status(200).json({ data: updated });
+  })
+);
+
+router.post(
+  "/applications/:id/payment-reject",
+  validateParams(uuidParamSchema),
+  validateBody(paymentRejectSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await prisma.application.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        status: true,
+        currentPaymentProofId: true,
+        paymentRejectedAt: true,
+      },
+    });
+
+    if (!application) {
+      throw new HttpError(404, "application_not_found", "Application not found.");
+    }
+
+    if (!application.currentPaymentProofId) {
+      throw new HttpError(
+        409,
+        "payment_proof_missing",
+        "There is no payment proof to reject."
+      );
+    }
+
+    if (application.status !== "PENDING" && application.status !== "INTERVIEW") {
+      throw new HttpError(
+        409,
+        "cannot_reject_payment",
+        "Payment proof can only be rejected while the application is under review."
+      );
+    }
+
+    if (application.paymentRejectedAt) {
+      throw new HttpError(
+        409,
+        "payment_proof_rejected",
+        "The current payment proof was already rejected."
+      );
+    }
+
+    const reason: string = req.body.reason;
+    const now = new Date();
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.paymentProof.update({
+        where: { id: application.currentPaymentProofId! },
+        data: { status: "REJECTED" },
+      });
+      return tx.application.update({
+        where: { id: application.id },
+        data: {
+          paymentVerifiedAt: null,
+          paymentVerifiedByUserId: null,
+          paymentRejectedAt: now,
+          paymentRejectedByUserId: req.user!.id,
+          paymentRejectionReason: reason,
+          events: {
+            create: {
+              type: "PAYMENT_REJECTED",
+              actorUserId: req.user!.id,
+              fromStatus: application.status,
+              toStatus: application.status,
+              note: reason,
+            },
+          },
+        },
+        select: {
+          id: true,
+          status: true,
+          paymentVerifiedAt: true,
+          paymentRejectedAt: true,
+          paymentRejectionReason: true,
+        },
+      });
+    });
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+// Refunds are for applicants who paid but will not become members.
+router.post(
+  "/applications/:id/refunds",
+  validateParams(uuidParamSchema),
+  validateBody(refundCreateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await prisma.application.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        status: true,
+        answersJson: true,
+        paymentVerifiedAt: true,
+        refund: { select: { id: true } },
+      },
+    });
+
+    if (!application) {
+      throw new HttpError(404, "application_not_found", "Application not found.");
+    }
+
+    if (
+      !refundableStatuses.includes(application.status) ||
+      !application.paymentVerifiedAt
+    ) {
+      throw new HttpError(
+        409,
+        "refund_not_allowed",
+        "Only rejected or withdrawn applications with a verified payment can be refunded."
+      );
+    }
+
+    if (application.refund) {
+      throw new HttpError(
+        409,
+        "refund_exists",
+        "A refund has already been recorded for this application."
+      );
+    }
+
+    const amountCents = Math.round(req.body.amount * 100);
+    const { amountPaidCents } = getPaymentAnswers(application.answersJson);
+    if (amountPaidCents !== null && amountCents > amountPaidCents) {
+      throw new HttpError(
+        409,
+        "refund_exceeds_payment",
+        "A refund cannot be larger than the amount paid.",
+        { amount: amountCents / 100, amountPaid: amountPaidCents / 100 }
+      );
+    }
+
+    const refund = await prisma.$transaction(async (tx) => {
+      const created = await tx.refund.create({
+        data: {
+          applicationId: application.id,
+          amountCents,
+          method: req.body.method,
+          reference: req.body.reference ?? null,
+          note: req.body.note ?? null,
+          processedByUserId: req.user!.id,
+        },
+        select: refundSelect,
+      });
+      await tx.applicationEvent.create({
+        data: {
+          applicationId: application.id,
+          type: refundEventTypes.REQUESTED,
+          actorUserId: req.user!.id,
+          fromStatus: application.status,
+          toStatus: application.status,
+          note: req.body.note ?? null,
+          metadataJson: { amount: amountCents / 100, method: req.body.method },
+        },
+      });
+      return created;
+    });
+
+    res.status(201).json({ data: toRefundView(refund) });
+  })
+);
+
+const refundListSelect = {
+  ...refundSelect,
+  application: {
+    select: {
+      id: true,
+      status: true,
+      cycle: { select: { id: true, name: true, blindReview: true } },
+      user: { select: { id: true, email: true, name: true } },
+    },
+  },
+} as const;
+
+const listRefunds = async (
+  viewer: { id: string; email: string },
+  filters: { cycleId?: string; status?: "REQUESTED" | "APPROVED" | "SENT" }
+) => {
+  const refunds = await prisma.refund.findMany({
+    where: {
+      status: filters.status,
+      ...(filters.cycleId ? { application: { cycleId: filters.cycleId } } : {}),
+    },
+    orderBy: { requestedAt: "asc" },
+    select: refundListSelect,
+  });
+  const hiddenIdentities = await resolveHiddenIdentities(
+    viewer,
+    refunds.map(({ application }) => ({
+      id: application.id,
+      blindReview: application.cycle.blindReview,
+    }))
+  );
+
+  return refunds.map(({ application: { cycle, ...application }, ...refund }) => {
+    const identityHidden = hiddenIdentities.has(application.id);
+    return toRefundView({
+      ...refund,
+      application: {
+        ...(identityHidden ? redactApplicant(application) : application),
+        cycle: { id: cycle.id, name: cycle.name },
+        identityHidden,
+      },
+    });
+  });
+};
+
+router.get(
+  "/refunds",
+  validateQuery(refundsQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.status(200).json({
+      data: await listRefunds(
+        req.user!,
+        req.query as { cycleId?: string; status?: "REQUESTED" | "APPROVED" | "SENT" }
+      ),
+    });
+  })
+);
+
+// Same rows as GET /refunds, as a CSV the treasurer can work through.
+router.get(
+  "/refunds/export",
+  validateQuery(refundsQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const refunds = await listRefunds(
+      req.user!,
+      req.query as { cycleId?: string; status?: "REQUESTED" | "APPROVED" | "SENT" }
+    );
+    const toDate = (value: Date | null) => (value ? value.toISOString() : null);
+    const csv = toCsv([
+      [
+        "Refund ID",
+        "Application ID",
+        "Cycle",
+        "Applicant",
+        "Email",
+        "Application status",
+        "Amount",
+        "Method",
+        "Reference",
+        "Status",
+        "Requested at",
+        "Approved at",
+        "Sent at",
+        "Processed by",
+        "Note",
+      ],
+      ...refunds.map((refund) => [
+        refund.id,
+        refund.application.id,
+        refund.application.cycle.name,
+        refund.application.user.name,
+        refund.application.user.email,
+        refund.application.status,
+        refund.amount.toFixed(2),
+        refund.method,
+        refund.reference,
+        refund.status,
+        toDate(refund.requestedAt),
+        toDate(refund.approvedAt),
+        toDate(refund.sentAt),
+        refund.processedBy?.email ?? null,
+        refund.note,
+      ]),
+    ]);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="refunds-${new Date().toISOString().slice(0, 10)}.csv"`
+    );
+    res.status(200).send(csv);
+  })
+);
+
+router.post(
+  "/refunds/:id/advance",
+  validateParams(uuidParamSchema),
+  validateBody(refundAdvanceSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const refund = await prisma.refund.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        status: true,
+        reference: true,
+        note: true,
+        application: { select: { id: true, status: true } },
+      },
+    });
+
+    if (!refund) {
+      throw new HttpError(404, "refund_not_found", "Refund not found.");
+    }
+
+    const status: "APPROVED" | "SENT" = req.body.status;
+    ensureRefundTransition(refund.status, status);
+
+    const reference: string | null = req.body.reference ?? refund.reference;
+    if (status === "SENT" && !reference) {
+      throw new HttpError(
+        400,
+        "refund_reference_required",
+        "Add the transfer reference before marking a refund as sent."
+      );
+    }
+
+    const now = new Date();
+    const updated = await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        status,
+        reference,
+        note: req.body.note ?? refund.note,
+        processedBy: { connect: { id: req.user!.id } },
+        ...(status === "APPROVED" ? { approvedAt: now } : { sentAt: now }),
+        application: {
+          update: {
+            events: {
+              create: {
+                type: refundEventTypes[status],
+                actorUserId: req.user!.id,
+                fromStatus: refund.application.status,
+                toStatus: refund.application.status,
+                note: req.body.note ?? null,
+                metadataJson: reference ? { reference } : undefined,
+              },
+            },
+          },
+        },
+      },
+      select: refundSelect,
+    });
+
+    res.status(200).json({ data: toRefundView(updated) });
+  })
+);
+
+router.post(
+  "/applications/:id/interview",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await prisma.application.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, status: true },
+    });
 
-const router = Router();
+    if (!application) {
+      throw new HttpError(404, "application_not_found", "Application not found.");
+    }
 
-router.use(requireAdmin);
+    if (application.status !== "PENDING") {
+      throw new HttpError(
+        409,
+        "cannot_invite_to_interview",
+        "Only pending applications can be moved to the interview stage."
+      );
+    }
 
-router.get(
-  "/users",
-  asyncHandler(async (_req: Request, res: Response) => {
-    const users = await prisma.user.findMany({
-      orderBy: { createdAt: "desc" },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        onboardingCompletedAt: true,
-        createdAt: true,
-        application: {
-          select: {
-            status: true,
-            submittedAt: true,
-            paymentVerifiedAt: true,
+    const updated = await prisma.application.update({
+      where: { id: application.id },
+      data: {
+        status: "INTERVIEW",
+        events: {
+          create: {
+            type: "INTERVIEW_INVITED",
+            actorUserId: req.user!.id,
+            fromStatus: application.status,
+            toStatus: "INTERVIEW",
           },
         },
       },
+      select: { id: true, status: true },
     });
-    res.status(200).json({ data: users });
+
+    res.status(200).json({ data: updated });
   })
 );
 
-router.get(
-  "/applications",
-  asyncHandler(async (_req: Request, res: Response) => {
-    const applications = await prisma.application.findMany({
-      where: {
-        status: {
-          not: "DRAFT",
+const decideApplication = async (
+  applicationId: string,
+  actorUserId: string,
+  decision: {
+    status: "ACCEPTED" | "REJECTED" | "WAITLISTED";
+    decisionNote?: string | null;
+  }
+) => {
+  const application = await prisma.application.findUnique({
+    where: { id: applicationId },
+    select: {
+      id: true,
+      cycleId: true,
+      status: true,
+      paymentVerifiedAt: true,
+      waitlistPosition: true,
+    },
+  });
+
+  if (!application) {
+    throw new HttpError(404, "application_not_found", "Application not found.");
+  }
+
+  if (application.status === "DRAFT") {
+    throw new HttpError(
+      409,
+      "application_not_submitted",
+      "Application must be submitted before decision."
+    );
+  }
+
+  if (application.status === "WITHDRAWN") {
+    throw new HttpError(
+      409,
+      "application_withdrawn",
+      "Withdrawn applications cannot be decided."
+    );
+  }
+
+  const { status } = decision;
+  if (status !== "REJECTED" && !application.paymentVerifiedAt) {
+    throw new HttpError(
+      409,
+      "payment_not_verified",
+      "Payment must be verified before accepting or waitlisting an application."
+    );
+  }
+
+  const now = new Date();
+  return prisma.$transaction(async (tx) => {
+    let waitlistPosition: number | null = null;
+    if (status !== "REJECTED" && status !== application.status) {
+      const cycle = await lockRecruitmentCycle(tx, application.cycleId);
+      if (status === "ACCEPTED") {
+        await ensureAcceptanceCapacity(tx, cycle);
+      } else {
+        waitlistPosition = await getNextWaitlistPosition(tx, cycle.id);
+      }
+    } else if (status === "WAITLISTED") {
+      waitlistPosition = application.waitlistPosition;
+    }
+
+    return tx.application.update({
+      where: { id: application.id },
+      data: {
+        status,
+        waitlistPosition,
+        reviewedAt: now,
+        reviewedByUserId: actorUserId,
+        decisionNote: decision.decisionNote ?? null,
+        events: {
+          create: {
+            type: "DECIDED",
+            actorUserId,
+            fromStatus: application.status,
+            toStatus: status,
+            note: decision.decisionNote ?? null,
+          },
         },
       },
-      orderBy: { submittedAt: "desc" },
       select: {
         id: true,
         status: true,
-        submittedAt: true,
-        paymentProofKey: true,
-        paymentProofUploadedAt: true,
-        paymentVerifiedAt: true,
+        waitlistPosition: true,
         reviewedAt: true,
+        reviewedByUserId: true,
         decisionNote: true,
-        user: {
-          select: {
-            id: true,
-            email: true,
-            name: true,
-            onboardingCompletedAt: true,
-          },
-        },
       },
     });
+  });
+};
 
-    const data = await Promise.all(
-      applications.map(async (application) => {
-        let paymentProofViewUrl: string | null = null;
-
-        if (application.paymentProofKey) {
-          try {
-            paymentProofViewUrl = await createPaymentProofViewUrl(
-              application.paymentProofKey
-            );
-          } catch {
-            paymentProofViewUrl = null;
-          }
-        }
+router.post(
+  "/applications/:id/decision",
+  validateParams(uuidParamSchema),
+  validateBody(applicationDecisionSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const updated = await decideApplication(req.params.id, req.user!.id, req.body);
+    res.status(200).json({ data: updated });
+  })
+);
 
-        return {
-          ...application,
-          paymentProofViewUrl,
-        };
-      })
+const tagApplication = async (
+  applicationId: string,
+  actorUserId: string,
+  tag: string
+) => {
+  const application = await prisma.application.findUnique({
+    where: { id: applicationId },
+    select: { id: true, status: true, tags: true },
+  });
+
+  if (!application) {
+    throw new HttpError(404, "application_not_found", "Application not found.");
+  }
+
+  if (application.status === "DRAFT") {
+    throw new HttpError(
+      409,
+      "application_not_submitted",
+      "Application must be submitted before tagging."
     );
+  }
 
-    res.status(200).json({ data });
-  })
-);
+  if (application.tags.includes(tag)) {
+    throw new HttpError(409, "tag_exists", "Application already has this tag.");
+  }
 
-router.get(
-  "/applications/:id",
-  validateParams(uuidParamSchema),
-  asyncHandler(async (req: Request, res: Response) => {
-    const application = await prisma.application.findUnique({
-      where: { id: req.params.id },
-      select: {
-        id: true,
-        status: true,
-        answersJson: true,
-        submittedAt: true,
-        paymentProofKey: true,
-        paymentProofUploadedAt: true,
-        paymentVerifiedAt: true,
-        reviewedAt: true,
-        decisionNote: true,
-        user: {
-          select: {
-            id: true,
-            email: true,
-            name: true,
-            onboardingCompletedAt: true,
-          },
+  return prisma.application.update({
+    where: { id: application.id },
+    data: {
+      tags: { push: tag },
+      events: {
+        create: {
+          type: "TAGGED",
+          actorUserId,
+          metadataJson: { tag },
         },
       },
-    });
+    },
+    select: { id: true, tags: true },
+  });
+};
 
-    if (!application) {
-      throw new HttpError(404, "application_not_found", "Application not found.");
-    }
+// Runs the single-application action for each id in order and reports every
+// outcome; a guard failing on one application does not stop the rest.
+router.post(
+  "/applications/bulk",
+  validateBody(applicationBulkActionSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const input = req.body as ApplicationBulkAction;
+    const actorUserId = req.user!.id;
+    const runAction = (applicationId: string): Promise<unknown> => {
+      switch (input.action) {
+        case "verify_payment":
+          return verifyApplicationPayment(applicationId, actorUserId, {
+            overrideAmountMismatch: false,
+            acknowledgeDuplicatePayment: false,
+          });
+        case "accept":
+        case "reject":
+          return decideApplication(applicationId, actorUserId, {
+            status: input.action === "accept" ? "ACCEPTED" : "REJECTED",
+            decisionNote: input.decisionNote,
+          });
+        case "tag":
+          return tagApplication(applicationId, actorUserId, input.tag);
+      }
+    };
 
-    let paymentProofViewUrl: string | null = null;
-    if (application.paymentProofKey) {
+    // Sequential on purpose: each acceptance locks the cycle and re-checks
+    // capacity, so the report matches the order the ids were sent in.
+    const results: Array<
+      | { applicationId: string; ok: true; data: unknown }
+      | {
+          applicationId: string;
+          ok: false;
+          error: { status: number; code: string; message: string };
+        }
+    > = [];
+    for (const applicationId of input.applicationIds) {
       try {
-        paymentProofViewUrl = await createPaymentProofViewUrl(
-          application.paymentProofKey
-        );
-      } catch {
-        paymentProofViewUrl = null;
+        results.push({ applicationId, ok: true, data: await runAction(applicationId) });
+      } catch (error) {
+        if (!(error instanceof HttpError)) {
+          throw error;
+        }
+        results.push({
+          applicationId,
+          ok: false,
+          error: { status: error.statusCode, code: error.code, message: error.message },
+        });
       }
     }
 
+    const succeeded = results.filter((result) => result.ok).length;
     res.status(200).json({
-      data: {
-        ...application,
-        answers: application.answersJson,
-        paymentProofViewUrl,
-      },
+      data: results,
+      summary: { succeeded, failed: results.length - succeeded },
     });
   })
 );
 
 router.post(
-  "/applications/:id/payment-verify",
+  "/applications/:id/assignment",
   validateParams(uuidParamSchema),
+  validateBody(applicationAssignmentSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const application = await prisma.application.findUnique({
       where: { id: req.params.id },
-      select: {
-        id: true,
-        status: true,
-        paymentProofKey: true,
-      },
+      select: { id: true, status: true, assignedReviewerUserId: true },
     });
 
     if (!application) {
       throw new HttpError(404, "application_not_found", "Application not found.");
     }
 
-    if (!application.paymentProofKey) {
+    if (application.status === "DRAFT" || application.status === "WITHDRAWN") {
       throw new HttpError(
         409,
-        "payment_proof_missing",
-        "Payment proof must be uploaded before verification."
+        "application_not_assignable",
+        "Only submitted applications can be assigned."
       );
     }
 
-    if (application.status === "DRAFT") {
-      throw new HttpError(
-        409,
-        "application_not_submitted",
-        "Application must be submitted before payment verification."
-      );
+    const reviewerUserId: string | null = req.body.reviewerUserId;
+    if (reviewerUserId) {
+      await requireReviewer(prisma, reviewerUserId);
     }
 
-    let exists = false;
-    try {
-      exists = await paymentProofObjectExists(application.paymentProofKey);
-    } catch (error) {
-      throw new HttpError(
-        500,
-        "storage_unavailable",
-        "Payment proof storage is unavailable.",
-        { error: error instanceof Error ? error.message : "unknown_error" }
-      );
-    }
-    if (!exists) {
+    if (reviewerUserId === application.assignedReviewerUserId) {
       throw new HttpError(
         409,
-        "payment_proof_not_found",
-        "Payment proof file was not found in object storage."
+        "assignment_unchanged",
+        reviewerUserId
+          ? "Application is already assigned to this reviewer."
+          : "Application is not assigned."
       );
     }
 
-    const now = new Date();
     const updated = await prisma.application.update({
       where: { id: application.id },
       data: {
-        paymentVerifiedAt: now,
-        paymentVerifiedByUserId: req.user!.id,
+        assignedReviewerUserId: reviewerUserId,
+        assignedAt: reviewerUserId ? new Date() : null,
+        events: {
+          create: {
+            type: "REVIEWER_ASSIGNED",
+            actorUserId: req.user!.id,
+            metadataJson: {
+              reviewerUserId,
+              previousReviewerUserId: application.assignedReviewerUserId,
+            },
+          },
+        },
       },
       select: {
         id: true,
-        status: true,
-        paymentProofKey: true,
-        paymentVerifiedAt: true,
-        paymentVerifiedByUserId: true,
+        assignedAt: true,
+        assignedReviewer: { select: reviewerSelect },
       },
     });
 
@@ -224,58 +2730,293 @@ router.post(
 );
 
 router.post(
-  "/applications/:id/decision",
+  "/applications/:id/scores",
   validateParams(uuidParamSchema),
-  validateBody(applicationDecisionSchema),
+  validateBody(applicationScoreSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const application = await prisma.application.findUnique({
       where: { id: req.params.id },
-      select: {
-        id: true,
-        status: true,
-        paymentVerifiedAt: true,
-      },
+      select: { id: true, cycleId: true, status: true },
     });
 
     if (!application) {
       throw new HttpError(404, "application_not_found", "Application not found.");
     }
 
-    if (application.status === "DRAFT") {
+    if (application.status === "DRAFT" || application.status === "WITHDRAWN") {
       throw new HttpError(
         409,
-        "application_not_submitted",
-        "Application must be submitted before decision."
+        "application_not_scorable",
+        "Only submitted applications can be scored."
       );
     }
 
-    if (req.body.status === "ACCEPTED" && !application.paymentVerifiedAt) {
+    const criteria = await getRubricCriteria(application.cycleId);
+    const scoresJson = parseRubricScores(criteria, req.body.scores);
+    const comment = req.body.comment ?? null;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.applicationScore.upsert({
+        where: {
+          applicationId_reviewerUserId: {
+            applicationId: application.id,
+            reviewerUserId: req.user!.id,
+          },
+        },
+        create: {
+          applicationId: application.id,
+          reviewerUserId: req.user!.id,
+          scoresJson,
+          comment,
+        },
+        update: { scoresJson, comment },
+      });
+      await refreshApplicationScoreMeans(tx, { id: application.id });
+    });
+
+    const scores = await prisma.applicationScore.findMany({
+      where: { applicationId: application.id },
+      orderBy: { createdAt: "asc" },
+      select: applicationScoreSelect,
+    });
+
+    res.status(200).json({
+      data: buildScoringView(criteria, scores, req.user!.id),
+    });
+  })
+);
+
+router.get(
+  "/interview-slots",
+  validateQuery(interviewSlotsQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { cycleId, from, to } = req.query as {
+      cycleId?: string;
+      from?: Date;
+      to?: Date;
+    };
+    const cycle = await resolveCycleFilter(cycleId);
+
+    const slots = await prisma.interviewSlot.findMany({
+      where: {
+        ...(cycle ? { cycleId: cycle.id } : {}),
+        ...(from || to ? { startsAt: { gte: from, lt: to } } : {}),
+      },
+      orderBy: { startsAt: "asc" },
+      select: {
+        ...interviewSlotSelect,
+        bookings: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            createdAt: true,
+            application: {
+              select: {
+                id: true,
+                status: true,
+                user: { select: { id: true, email: true, name: true } },
+                cycle: { select: { blindReview: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const hiddenIdentities = await resolveHiddenIdentities(
+      req.user!,
+      slots.flatMap(({ bookings }) =>
+        bookings.map(({ application }) => ({
+          id: application.id,
+          blindReview: application.cycle.blindReview,
+        }))
+      )
+    );
+    const data = slots.map(({ bookings, ...slot }) => ({
+      ...toInterviewSlotSummary(slot),
+      bookings: bookings.map(({ application, ...booking }) => {
+        const summary = {
+          id: application.id,
+          status: application.status,
+          user: application.user,
+        };
+        const identityHidden = hiddenIdentities.has(application.id);
+        return {
+          ...booking,
+          application: {
+            ...(identityHidden ? redactApplicant(summary) : summary),
+            identityHidden,
+          },
+        };
+      }),
+    }));
+
+    res.status(200).json({ data, cycle });
+  })
+);
+
+router.post(
+  "/interview-slots",
+  validateBody(interviewSlotCreateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { cycleId, startsAt, endsAt, capacity, location, videoUrl } = req.body;
+    const cycle = await resolveCycleFilter(cycleId);
+    if (!cycle) {
       throw new HttpError(
         409,
-        "payment_not_verified",
-        "Payment must be verified before accepting an application."
+        "no_active_cycle",
+        "There is no active recruitment cycle."
       );
     }
 
-    const now = new Date();
-    const updated = await prisma.application.update({
-      where: { id: application.id },
+    const created = await prisma.interviewSlot.create({
       data: {
-        status: req.body.status,
-        reviewedAt: now,
-        reviewedByUserId: req.user!.id,
-        decisionNote: req.body.decisionNote ?? null,
+        cycleId: cycle.id,
+        startsAt,
+        endsAt,
+        capacity,
+        location: location || null,
+        videoUrl: videoUrl || null,
+        createdByUserId: req.user!.id,
       },
+      select: interviewSlotSelect,
+    });
+
+    res.status(201).json({ data: toInterviewSlotSummary(created) });
+  })
+);
+
+router.patch(
+  "/interview-slots/:id",
+  validateParams(uuidParamSchema),
+  validateBody(interviewSlotUpdateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const existing = await prisma.interviewSlot.findUnique({
+      where: { id: req.params.id },
+      select: interviewSlotSelect,
+    });
+
+    if (!existing) {
+      throw new HttpError(404, "slot_not_found", "Interview slot not found.");
+    }
+
+    const startsAt: Date = req.body.startsAt ?? existing.startsAt;
+    const endsAt: Date = req.body.endsAt ?? existing.endsAt;
+    if (endsAt <= startsAt) {
+      throw new HttpError(
+        400,
+        "invalid_slot_window",
+        "endsAt must be after startsAt."
+      );
+    }
+
+    const location: string | null =
+      req.body.location === undefined ? existing.location : req.body.location || null;
+    const videoUrl: string | null =
+      req.body.videoUrl === undefined ? existing.videoUrl : req.body.videoUrl || null;
+    if (!location && !videoUrl) {
+      throw new HttpError(
+        400,
+        "slot_location_required",
+        "Provide a location or a video link."
+      );
+    }
+
+    const capacity: number = req.body.capacity ?? existing.capacity;
+    if (capacity < existing._count.bookings) {
+      throw new HttpError(
+        409,
+        "capacity_below_bookings",
+        "Capacity cannot be lower than the number of existing bookings.",
+        { bookedCount: existing._count.bookings }
+      );
+    }
+
+    const updated = await prisma.interviewSlot.update({
+      where: { id: existing.id },
+      data: { startsAt, endsAt, capacity, location, videoUrl },
+      select: interviewSlotSelect,
+    });
+
+    res.status(200).json({ data: toInterviewSlotSummary(updated) });
+  })
+);
+
+router.delete(
+  "/interview-slots/:id",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const existing = await prisma.interviewSlot.findUnique({
+      where: { id: req.params.id },
+      select: interviewSlotSelect,
+    });
+
+    if (!existing) {
+      throw new HttpError(404, "slot_not_found", "Interview slot not found.");
+    }
+
+    if (existing._count.bookings > 0) {
+      throw new HttpError(
+        409,
+        "slot_has_bookings",
+        "Slots with bookings cannot be deleted."
+      );
+    }
+
+    await prisma.interviewSlot.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  })
+);
+
+router.get(
+  "/interview-bookings/:id/ics",
+  validateParams(uuidParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const booking = await prisma.interviewBooking.findUnique({
+      where: { id: req.params.id },
       select: {
         id: true,
-        status: true,
-        reviewedAt: true,
-        reviewedByUserId: true,
-        decisionNote: true,
+        slot: {
+          select: {
+            startsAt: true,
+            endsAt: true,
+            location: true,
+            videoUrl: true,
+          },
+        },
+        application: {
+          select: {
+            id: true,
+            user: { select: { name: true, email: true } },
+            cycle: { select: { blindReview: true } },
+          },
+        },
       },
     });
 
-    res.status(200).json({ data: updated });
+    if (!booking) {
+      throw new HttpError(404, "booking_not_found", "Interview booking not found.");
+    }
+
+    const { application } = booking;
+    const hiddenIdentities = await resolveHiddenIdentities(req.user!, [
+      { id: application.id, blindReview: application.cycle.blindReview },
+    ]);
+    const applicant = hiddenIdentities.has(application.id)
+      ? getApplicantPseudonym(application.id)
+      : application.user.name || application.user.email;
+    const ics = buildInterviewIcs({
+      id: booking.id,
+      summary: `ASES interview: ${applicant}`,
+      slot: booking.slot,
+    });
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="interview-${booking.id}.ics"`
+    );
+    res.status(200).send(ics);
   })
 );
 
@@ -1,5 +1,10 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
+import type {
+  ApplicationEventType,
+  ApplicationStatus,
+  PaymentProofStatus,
+} from "@prisma/client";
 import prisma from "../db/prisma";
 import { requireAuth } from "../middleware/requireAuth";
 import { asyncHandler } from "../utils/asyncHandler";
@@ -8,34 +13,151 @@ import {
   applicationDraftSaveSchema,
   applicationReapplySchema,
   applicationSubmitSchema,
+  applicationWithdrawSchema,
+  interviewBookingSchema,
+  paymentProofConfirmSchema,
   paymentProofUploadUrlSchema,
 } from "../validation/schemas";
 import { HttpError } from "../utils/httpError";
 import {
   buildPaymentProofObjectKey,
-  createPaymentProofUploadUrl,
-} from "../storage/minio";
+  createPaymentProofUploadForm,
+  deletePaymentProofObjects,
+  hashPaymentProofBytes,
+  headPaymentProofObject,
+  readPaymentProofObject,
+  readPaymentProofObjectPrefix,
+} from "../storage/paymentProofs";
+import {
+  detectImageMimeType,
+  imageSignatureByteCount,
+} from "../utils/fileSignature";
 import { getMissingRequiredApplicationFields } from "../utils/applicationCompleteness";
+import {
+  getFormDefinitionForApplication,
+  getFormDefinitionForCycle,
+  parseApplicationAnswers,
+} from "../utils/formDefinition";
+import {
+  ensureRecruitmentCycleOpen,
+  getActiveRecruitmentCycle,
+  isRecruitmentCycleOpen,
+  requireActiveRecruitmentCycle,
+} from "../utils/recruitmentCycle";
+import {
+  buildInterviewIcs,
+  ensureInterviewSlotNotStarted,
+  interviewSlotSelect,
+  lockInterviewSlot,
+  toInterviewSlotSummary,
+} from "../utils/interview";
+import { getWaitlistRank } from "../utils/waitlist";
+import { getFeeSchedule, resolveExpectedFee } from "../utils/fees";
+import { processPaymentProof } from "../utils/paymentProofImages";
+import {
+  applicantRefundSelect,
+  refundableStatuses,
+  toRefundView,
+} from "../utils/refunds";
+import {
+  findPaymentDuplicates,
+  getPaymentReferenceKey,
+  hasPaymentDuplicates,
+} from "../utils/paymentDuplicates";
 
 const router = Router();
 
+const withdrawableStatuses: ApplicationStatus[] = [
+  "PENDING",
+  "INTERVIEW",
+  "WAITLISTED",
+  "ACCEPTED",
+];
+
+const hasConfirmedPaymentProof = (application: {
+  currentPaymentProof: { status: PaymentProofStatus } | null;
+}) => application.currentPaymentProof?.status === "CONFIRMED";
+
+// Drafts and rejected applications can always replace their proof; in-review
+// applications only after an admin has rejected the current one.
+const canUploadPaymentProof = (application: {
+  status: ApplicationStatus;
+  paymentRejectedAt: Date | null;
+}) =>
+  application.status === "DRAFT" ||
+  application.status === "REJECTED" ||
+  (application.paymentRejectedAt !== null &&
+    (application.status === "PENDING" || application.status === "INTERVIEW"));
+
+// Kept on the submission event so reviewers can see what was flagged at the time.
+const getSubmissionDuplicateMetadata = async (
+  application: {
+    id: string;
+    currentPaymentProof: { contentSha256: string | null } | null;
+  },
+  paymentReferenceKey: string | null
+) => {
+  const duplicates = (
+    await findPaymentDuplicates(prisma, [{ ...application, paymentReferenceKey }])
+  ).get(application.id)!;
+  return hasPaymentDuplicates(duplicates)
+    ? { possibleDuplicatePayment: duplicates }
+    : undefined;
+};
+
+// Staff bookkeeping that applicants should not see in their timeline. Refund
+// events carry treasurer notes; applicants get the refund status instead.
+// Tags are internal labels.
+const staffOnlyEventTypes: ApplicationEventType[] = [
+  "REVIEWER_ASSIGNED",
+  "REFUND_REQUESTED",
+  "REFUND_APPROVED",
+  "REFUND_SENT",
+  "TAGGED",
+];
+
 router.use(requireAuth);
 
 router.get(
   "/",
   asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await getActiveRecruitmentCycle();
+    const cycleSummary = cycle
+      ? { ...cycle, isOpen: isRecruitmentCycleOpen(cycle) }
+      : null;
+
+    if (!cycle) {
+      res.status(200).json({
+        hasApplication: false,
+        application: null,
+        cycle: cycleSummary,
+        fees: [],
+      });
+      return;
+    }
+
+    const { fees } = await getFeeSchedule(prisma, cycle.id);
     const application = await prisma.application.findUnique({
-      where: { userId: req.user!.id },
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
       select: {
         id: true,
+        cycleId: true,
+        formDefinitionId: true,
         status: true,
         answersJson: true,
         updatedAt: true,
         submittedAt: true,
         reviewedAt: true,
+        withdrawnAt: true,
+        withdrawalReason: true,
+        waitlistPosition: true,
         paymentProofKey: true,
         paymentProofUploadedAt: true,
         paymentVerifiedAt: true,
+        paymentRejectedAt: true,
+        paymentRejectionReason: true,
+        currentPaymentProof: { select: { status: true } },
+        refund: { select: applicantRefundSelect },
       },
     });
 
@@ -43,41 +165,117 @@ router.get(
       res.status(200).json({
         hasApplication: false,
         application: null,
+        cycle: cycleSummary,
+        fees,
       });
       return;
     }
 
-    const { answersJson, ...applicationSummary } = application;
+    const {
+      answersJson,
+      cycleId,
+      formDefinitionId,
+      waitlistPosition,
+      currentPaymentProof,
+      refund,
+      ...applicationSummary
+    } = application;
     const answers = (answersJson ?? {}) as Record<string, unknown>;
+    const form = await getFormDefinitionForApplication({
+      cycleId,
+      formDefinitionId,
+    });
     const missingRequiredFields = getMissingRequiredApplicationFields(
+      form.sections,
       answers
     );
-    const missingPaymentProof = !application.paymentProofKey;
+    const missingPaymentProof = !hasConfirmedPaymentProof(application);
+    const waitlistRank =
+      application.status === "WAITLISTED"
+        ? await getWaitlistRank(prisma, { cycleId, waitlistPosition })
+        : null;
 
     res.status(200).json({
       hasApplication: true,
       application: {
         ...applicationSummary,
         answers,
+        waitlistPosition: waitlistRank,
         canSubmit: application.status === "DRAFT",
         canReapply: application.status === "REJECTED",
-        canUploadPaymentProof:
-          application.status === "DRAFT" || application.status === "REJECTED",
+        canWithdraw: withdrawableStatuses.includes(application.status),
+        canRestart: application.status === "WITHDRAWN",
+        canUploadPaymentProof: canUploadPaymentProof(application),
+        paymentNeedsAttention: application.paymentRejectedAt !== null,
         membershipGranted: application.status === "ACCEPTED",
         isCompleteForSubmission:
           missingRequiredFields.length === 0 && !missingPaymentProof,
         missingRequiredFields,
         missingPaymentProof,
+        expectedFee: resolveExpectedFee(fees, answers),
+        refund:
+          refundableStatuses.includes(application.status) && refund
+            ? toRefundView(refund)
+            : null,
       },
+      cycle: cycleSummary,
+      fees,
     });
   })
 );
 
+router.get(
+  "/form",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
+    const form = await getFormDefinitionForCycle(cycle.id);
+    res.status(200).json({ data: form });
+  })
+);
+
+router.get(
+  "/timeline",
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
+    const application = await prisma.application.findUnique({
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
+      select: {
+        id: true,
+        events: {
+          where: { type: { notIn: staffOnlyEventTypes } },
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            type: true,
+            fromStatus: true,
+            toStatus: true,
+            note: true,
+            createdAt: true,
+            actor: { select: { role: true } },
+          },
+        },
+      },
+    });
+
+    if (!application) {
+      throw new HttpError(404, "application_not_found", "Application not found.");
+    }
+
+    const data = application.events.map(({ actor, ...event }) => ({
+      ...event,
+      actorRole: actor?.role ?? null,
+    }));
+
+    res.status(200).json({ data });
+  })
+);
+
 router.post(
   "/start",
   asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
     const existing = await prisma.application.findUnique({
-      where: { userId: req.user!.id },
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
       select: {
         id: true,
         status: true,
@@ -87,6 +285,49 @@ router.post(
       },
     });
 
+    if (existing?.status === "WITHDRAWN") {
+      ensureRecruitmentCycleOpen(cycle);
+
+      const restarted = await prisma.application.update({
+        where: { id: existing.id },
+        data: {
+          status: "DRAFT",
+          withdrawnAt: null,
+          withdrawalReason: null,
+          reviewedAt: null,
+          reviewedByUserId: null,
+          decisionNote: null,
+          // Verification and review belong to the withdrawn submission.
+          paymentVerifiedAt: null,
+          paymentVerifiedByUserId: null,
+          assignedReviewerUserId: null,
+          assignedAt: null,
+          events: {
+            create: {
+              type: "STARTED",
+              actorUserId: req.user!.id,
+              fromStatus: existing.status,
+              toStatus: "DRAFT",
+            },
+          },
+        },
+        select: {
+          id: true,
+          status: true,
+          submittedAt: true,
+          paymentProofKey: true,
+          paymentProofUploadedAt: true,
+        },
+      });
+
+      res.status(200).json({
+        created: false,
+        restarted: true,
+        data: restarted,
+      });
+      return;
+    }
+
     if (existing) {
       res.status(200).json({
         created: false,
@@ -95,13 +336,23 @@ router.post(
       return;
     }
 
+    ensureRecruitmentCycleOpen(cycle);
+
     const now = new Date();
     const created = await prisma.application.create({
       data: {
         userId: req.user!.id,
+        cycleId: cycle.id,
         answersJson: {},
         status: "DRAFT",
         submittedAt: now,
+        events: {
+          create: {
+            type: "STARTED",
+            actorUserId: req.user!.id,
+            toStatus: "DRAFT",
+          },
+        },
       },
       select: {
         id: true,
@@ -121,8 +372,9 @@ router.post(
   "/draft",
   validateBody(applicationDraftSaveSchema),
   asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
     const existing = await prisma.application.findUnique({
-      where: { userId: req.user!.id },
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
       select: { id: true, status: true, answersJson: true },
     });
 
@@ -134,7 +386,7 @@ router.post(
       );
     }
 
-    if (existing.status === "PENDING" || existing.status === "ACCEPTED") {
+    if (existing.status !== "DRAFT" && existing.status !== "REJECTED") {
       throw new HttpError(
         409,
         "application_locked",
@@ -151,6 +403,15 @@ router.post(
       where: { id: existing.id },
       data: {
         answersJson: mergedAnswers,
+        events: {
+          create: {
+            type: "DRAFT_SAVED",
+            actorUserId: req.user!.id,
+            fromStatus: existing.status,
+            toStatus: existing.status,
+            metadataJson: { fields: Object.keys(req.body.answers) },
+          },
+        },
       },
       select: {
         id: true,
@@ -174,8 +435,9 @@ router.post(
 router.delete(
   "/draft",
   asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
     const existing = await prisma.application.findUnique({
-      where: { userId: req.user!.id },
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
       select: { id: true, status: true },
     });
 
@@ -191,6 +453,22 @@ router.delete(
       );
     }
 
+    // A draft restarted after withdrawal keeps its submission history, scores,
+    // comments, and payment proofs, which deleting the row would cascade away.
+    const submissionCount = await prisma.applicationEvent.count({
+      where: {
+        applicationId: existing.id,
+        type: { in: ["SUBMITTED", "REAPPLIED"] },
+      },
+    });
+    if (submissionCount > 0) {
+      throw new HttpError(
+        409,
+        "draft_delete_not_allowed",
+        "Drafts of previously submitted applications cannot be deleted."
+      );
+    }
+
     await prisma.application.delete({
       where: { id: existing.id },
     });
@@ -203,9 +481,14 @@ router.post(
   "/",
   validateBody(applicationSubmitSchema),
   asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
     const existing = await prisma.application.findUnique({
-      where: { userId: req.user!.id },
-      select: { id: true, status: true, paymentProofKey: true },
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
+      select: {
+        id: true,
+        status: true,
+        currentPaymentProof: { select: { status: true, contentSha256: true } },
+      },
     });
 
     if (!existing) {
@@ -224,6 +507,14 @@ router.post(
       );
     }
 
+    if (existing.status === "WITHDRAWN") {
+      throw new HttpError(
+        409,
+        "application_withdrawn",
+        "Start your application again before submitting."
+      );
+    }
+
     if (existing.status !== "DRAFT") {
       throw new HttpError(
         409,
@@ -232,10 +523,15 @@ router.post(
       );
     }
 
+    ensureRecruitmentCycleOpen(cycle);
+
+    const form = await getFormDefinitionForCycle(cycle.id);
+    const answers = parseApplicationAnswers(form.sections, req.body.answers);
     const missingRequiredFields = getMissingRequiredApplicationFields(
-      req.body.answers
+      form.sections,
+      answers
     );
-    const missingPaymentProof = !existing.paymentProofKey;
+    const missingPaymentProof = !hasConfirmedPaymentProof(existing);
     if (missingRequiredFields.length > 0 || missingPaymentProof) {
       throw new HttpError(
         409,
@@ -248,11 +544,19 @@ router.post(
       );
     }
 
+    const paymentReferenceKey = getPaymentReferenceKey(answers);
+    const duplicateMetadata = await getSubmissionDuplicateMetadata(
+      existing,
+      paymentReferenceKey
+    );
+
     const now = new Date();
     const updated = await prisma.application.update({
       where: { id: existing.id },
       data: {
-        answersJson: req.body.answers,
+        answersJson: answers,
+        formDefinitionId: form.id,
+        paymentReferenceKey,
         status: "PENDING",
         submittedAt: now,
         reviewedAt: null,
@@ -260,6 +564,15 @@ router.post(
         decisionNote: null,
         paymentVerifiedAt: null,
         paymentVerifiedByUserId: null,
+        events: {
+          create: {
+            type: "SUBMITTED",
+            actorUserId: req.user!.id,
+            fromStatus: existing.status,
+            toStatus: "PENDING",
+            metadataJson: duplicateMetadata,
+          },
+        },
       },
       select: {
         id: true,
@@ -276,9 +589,14 @@ router.post(
   "/reapply",
   validateBody(applicationReapplySchema),
   asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
     const existing = await prisma.application.findUnique({
-      where: { userId: req.user!.id },
-      select: { id: true, status: true, paymentProofKey: true },
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
+      select: {
+        id: true,
+        status: true,
+        currentPaymentProof: { select: { status: true, contentSha256: true } },
+      },
     });
 
     if (!existing) {
@@ -293,10 +611,15 @@ router.post(
       );
     }
 
+    ensureRecruitmentCycleOpen(cycle);
+
+    const form = await getFormDefinitionForCycle(cycle.id);
+    const answers = parseApplicationAnswers(form.sections, req.body.answers);
     const missingRequiredFields = getMissingRequiredApplicationFields(
-      req.body.answers
+      form.sections,
+      answers
     );
-    const missingPaymentProof = !existing.paymentProofKey;
+    const missingPaymentProof = !hasConfirmedPaymentProof(existing);
     if (missingRequiredFields.length > 0 || missingPaymentProof) {
       throw new HttpError(
         409,
@@ -309,11 +632,19 @@ router.post(
       );
     }
 
+    const paymentReferenceKey = getPaymentReferenceKey(answers);
+    const duplicateMetadata = await getSubmissionDuplicateMetadata(
+      existing,
+      paymentReferenceKey
+    );
+
     const now = new Date();
     const updated = await prisma.application.update({
       where: { id: existing.id },
       data: {
-        answersJson: req.body.answers,
+        answersJson: answers,
+        formDefinitionId: form.id,
+        paymentReferenceKey,
         status: "PENDING",
         submittedAt: now,
         reviewedAt: null,
@@ -321,6 +652,15 @@ router.post(
         decisionNote: null,
         paymentVerifiedAt: null,
         paymentVerifiedByUserId: null,
+        events: {
+          create: {
+            type: "REAPPLIED",
+            actorUserId: req.user!.id,
+            fromStatus: existing.status,
+            toStatus: "PENDING",
+            metadataJson: duplicateMetadata,
+          },
+        },
       },
       select: {
         id: true,
@@ -333,13 +673,257 @@ router.post(
   })
 );
 
+router.post(
+  "/withdraw",
+  validateBody(applicationWithdrawSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
+    const existing = await prisma.application.findUnique({
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
+      select: { id: true, status: true },
+    });
+
+    if (!existing) {
+      throw new HttpError(404, "application_not_found", "Application not found.");
+    }
+
+    if (!withdrawableStatuses.includes(existing.status)) {
+      throw new HttpError(
+        409,
+        "cannot_withdraw",
+        "Only submitted applications can be withdrawn."
+      );
+    }
+
+    const reason = req.body.reason || null;
+    const now = new Date();
+    const [, updated] = await prisma.$transaction([
+      prisma.interviewBooking.deleteMany({
+        where: { applicationId: existing.id },
+      }),
+      prisma.application.update({
+        where: { id: existing.id },
+        data: {
+          status: "WITHDRAWN",
+          withdrawnAt: now,
+          withdrawalReason: reason,
+          waitlistPosition: null,
+          events: {
+            create: {
+              type: "WITHDRAWN",
+              actorUserId: req.user!.id,
+              fromStatus: existing.status,
+              toStatus: "WITHDRAWN",
+              note: reason,
+            },
+          },
+        },
+        select: {
+          id: true,
+          status: true,
+          withdrawnAt: true,
+          withdrawalReason: true,
+        },
+      }),
+    ]);
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+const requireInterviewApplication = async (userId: string) => {
+  const cycle = await requireActiveRecruitmentCycle();
+  const application = await prisma.application.findUnique({
+    where: { userId_cycleId: { userId, cycleId: cycle.id } },
+    select: {
+      id: true,
+      cycleId: true,
+      status: true,
+      interviewBooking: {
+        select: {
+          id: true,
+          slotId: true,
+          slot: { select: interviewSlotSelect },
+        },
+      },
+    },
+  });
+
+  if (!application) {
+    throw new HttpError(404, "application_not_found", "Application not found.");
+  }
+
+  if (application.status !== "INTERVIEW") {
+    throw new HttpError(
+      409,
+      "interview_not_open",
+      "Interview booking is only available once you are invited to interview."
+    );
+  }
+
+  return application;
+};
+
+router.get(
+  "/interview",
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await requireInterviewApplication(req.user!.id);
+
+    const slots = await prisma.interviewSlot.findMany({
+      where: { cycleId: application.cycleId, startsAt: { gt: new Date() } },
+      orderBy: { startsAt: "asc" },
+      select: interviewSlotSelect,
+    });
+
+    const booking = application.interviewBooking;
+    res.status(200).json({
+      data: {
+        booking: booking
+          ? { id: booking.id, slot: toInterviewSlotSummary(booking.slot) }
+          : null,
+        slots: slots
+          .map(toInterviewSlotSummary)
+          .filter((slot) => slot.remaining > 0 || slot.id === booking?.slotId),
+      },
+    });
+  })
+);
+
+router.post(
+  "/interview/booking",
+  validateBody(interviewBookingSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await requireInterviewApplication(req.user!.id);
+    const { slotId } = req.body as { slotId: string };
+    const current = application.interviewBooking;
+
+    if (current?.slotId === slotId) {
+      res.status(200).json({
+        data: { id: current.id, slot: toInterviewSlotSummary(current.slot) },
+      });
+      return;
+    }
+
+    if (current) {
+      ensureInterviewSlotNotStarted(current.slot);
+    }
+
+    const booking = await prisma.$transaction(async (tx) => {
+      const slot = await lockInterviewSlot(tx, slotId);
+      if (slot.cycleId !== application.cycleId) {
+        throw new HttpError(404, "slot_not_found", "Interview slot not found.");
+      }
+      ensureInterviewSlotNotStarted(slot);
+      if (slot._count.bookings >= slot.capacity) {
+        throw new HttpError(409, "slot_full", "This interview slot is full.");
+      }
+
+      const saved = await tx.interviewBooking.upsert({
+        where: { applicationId: application.id },
+        create: { applicationId: application.id, slotId },
+        update: { slotId },
+        select: { id: true },
+      });
+
+      await tx.applicationEvent.create({
+        data: {
+          applicationId: application.id,
+          type: current ? "INTERVIEW_RESCHEDULED" : "INTERVIEW_BOOKED",
+          actorUserId: req.user!.id,
+          fromStatus: application.status,
+          toStatus: application.status,
+          metadataJson: {
+            slotId,
+            startsAt: slot.startsAt.toISOString(),
+            ...(current
+              ? {
+                  previousSlotId: current.slotId,
+                  previousStartsAt: current.slot.startsAt.toISOString(),
+                }
+              : {}),
+          },
+        },
+      });
+
+      return {
+        id: saved.id,
+        slot: toInterviewSlotSummary({
+          ...slot,
+          _count: { bookings: slot._count.bookings + 1 },
+        }),
+      };
+    });
+
+    res.status(current ? 200 : 201).json({ data: booking });
+  })
+);
+
+router.delete(
+  "/interview/booking",
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await requireInterviewApplication(req.user!.id);
+    const booking = application.interviewBooking;
+
+    if (!booking) {
+      throw new HttpError(404, "booking_not_found", "Interview booking not found.");
+    }
+
+    ensureInterviewSlotNotStarted(booking.slot);
+
+    await prisma.$transaction([
+      prisma.interviewBooking.delete({ where: { id: booking.id } }),
+      prisma.applicationEvent.create({
+        data: {
+          applicationId: application.id,
+          type: "INTERVIEW_CANCELLED",
+          actorUserId: req.user!.id,
+          fromStatus: application.status,
+          toStatus: application.status,
+          metadataJson: {
+            slotId: booking.slotId,
+            startsAt: booking.slot.startsAt.toISOString(),
+          },
+        },
+      }),
+    ]);
+
+    res.status(204).send();
+  })
+);
+
+router.get(
+  "/interview/booking/ics",
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await requireInterviewApplication(req.user!.id);
+    const booking = application.interviewBooking;
+
+    if (!booking) {
+      throw new HttpError(404, "booking_not_found", "Interview booking not found.");
+    }
+
+    const ics = buildInterviewIcs({
+      id: booking.id,
+      summary: "ASES Manila membership interview",
+      slot: booking.slot,
+    });
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      'attachment; filename="ases-interview.ics"'
+    );
+    res.status(200).send(ics);
+  })
+);
+
 router.post(
   "/payment-proof/upload-url",
   validateBody(paymentProofUploadUrlSchema),
   asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
     const existing = await prisma.application.findUnique({
-      where: { userId: req.user!.id },
-      select: { id: true, status: true },
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
+      select: { id: true, status: true, paymentRejectedAt: true },
     });
 
     if (!existing) {
@@ -350,11 +934,11 @@ router.post(
       );
     }
 
-    if (existing.status === "PENDING" || existing.status === "ACCEPTED") {
+    if (!canUploadPaymentProof(existing)) {
       throw new HttpError(
         409,
         "payment_proof_locked",
-        "Payment proof upload is only allowed for draft or rejected applications."
+        "Payment proof upload is only allowed for draft or rejected applications, or after the current proof was rejected."
       );
     }
 
@@ -363,7 +947,7 @@ router.post(
 
     let signed;
     try {
-      signed = await createPaymentProofUploadUrl(
+      signed = await createPaymentProofUploadForm(
         objectKey,
         contentType,
         contentLength
@@ -377,27 +961,220 @@ router.post(
       );
     }
 
-    const now = new Date();
-    await prisma.application.update({
-      where: { id: existing.id },
-      data: {
-        paymentProofKey: objectKey,
-        paymentProofUploadedAt: now,
-        paymentVerifiedAt: null,
-        paymentVerifiedByUserId: null,
-      },
+    // The proof is only attached once POST /payment-proof/confirm has
+    // checked the stored bytes; requests that were never confirmed are retired.
+    await prisma.$transaction(async (tx) => {
+      await tx.paymentProof.updateMany({
+        where: { applicationId: existing.id, status: "PENDING" },
+        data: { status: "SUPERSEDED" },
+      });
+      await tx.paymentProof.create({
+        data: {
+          applicationId: existing.id,
+          uploadedByUserId: req.user!.id,
+          objectKey,
+          contentType,
+          contentLength,
+        },
+      });
     });
 
     res.status(200).json({
       data: {
-        uploadUrl: signed.uploadUrl,
+        uploadUrl: signed.url,
         objectKey,
         expiresIn: signed.expiresIn,
-        method: "PUT",
-        requiredHeaders: {
-          "Content-Type": contentType,
-          "Content-Length": String(contentLength),
+        method: "POST",
+        fields: signed.fields,
+        attachedToApplication: false,
+      },
+    });
+  })
+);
+
+router.post(
+  "/payment-proof/confirm",
+  validateBody(paymentProofConfirmSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const cycle = await requireActiveRecruitmentCycle();
+    const existing = await prisma.application.findUnique({
+      where: { userId_cycleId: { userId: req.user!.id, cycleId: cycle.id } },
+      select: { id: true, status: true, paymentRejectedAt: true },
+    });
+
+    if (!existing) {
+      throw new HttpError(
+        409,
+        "application_not_started",
+        "Start an application before uploading payment proof."
+      );
+    }
+
+    if (!canUploadPaymentProof(existing)) {
+      throw new HttpError(
+        409,
+        "payment_proof_locked",
+        "Payment proof upload is only allowed for draft or rejected applications, or after the current proof was rejected."
+      );
+    }
+
+    const proof = await prisma.paymentProof.findFirst({
+      where: { applicationId: existing.id, objectKey: req.body.objectKey },
+      select: {
+        id: true,
+        objectKey: true,
+        contentType: true,
+        contentLength: true,
+        status: true,
+      },
+    });
+
+    if (!proof) {
+      throw new HttpError(
+        404,
+        "payment_proof_not_found",
+        "Payment proof upload not found."
+      );
+    }
+
+    if (proof.status !== "PENDING") {
+      throw new HttpError(
+        409,
+        "payment_proof_not_pending",
+        "This payment proof upload can no longer be confirmed."
+      );
+    }
+
+    let head;
+    let prefix;
+    try {
+      head = await headPaymentProofObject(proof.objectKey);
+      prefix = head
+        ? await readPaymentProofObjectPrefix(
+            proof.objectKey,
+            imageSignatureByteCount
+          )
+        : null;
+    } catch (error) {
+      throw new HttpError(
+        500,
+        "storage_unavailable",
+        "Payment proof storage is not configured.",
+        { error: error instanceof Error ? error.message : "unknown_error" }
+      );
+    }
+
+    if (!head || !prefix) {
+      throw new HttpError(
+        409,
+        "payment_proof_not_uploaded",
+        "Upload the payment proof file before confirming it."
+      );
+    }
+
+    const problems: string[] = [];
+    if (head.contentLength !== proof.contentLength) {
+      problems.push("content_length_mismatch");
+    }
+    if (head.contentType !== proof.contentType) {
+      problems.push("content_type_mismatch");
+    }
+    if (detectImageMimeType(prefix) !== proof.contentType) {
+      problems.push("file_signature_mismatch");
+    }
+
+    if (problems.length > 0) {
+      await prisma.paymentProof.update({
+        where: { id: proof.id },
+        data: { status: "INVALID" },
+      });
+      // Best effort: the cleanup job removes anything left behind.
+      await deletePaymentProofObjects([proof.objectKey]).catch(() => undefined);
+      throw new HttpError(
+        400,
+        "payment_proof_invalid",
+        "The uploaded file does not match the requested image upload.",
+        { problems }
+      );
+    }
+
+    // The hash is taken before processing rewrites the object, so the same
+    // upload always hashes the same way.
+    let bytes: Buffer;
+    try {
+      bytes = await readPaymentProofObject(proof.objectKey);
+    } catch (error) {
+      throw new HttpError(
+        500,
+        "storage_unavailable",
+        "Payment proof storage is not configured.",
+        { error: error instanceof Error ? error.message : "unknown_error" }
+      );
+    }
+
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      const confirmed = await tx.paymentProof.updateMany({
+        where: { id: proof.id, status: "PENDING" },
+        data: {
+          status: "CONFIRMED",
+          confirmedAt: now,
+          contentSha256: hashPaymentProofBytes(bytes),
+        },
+      });
+      if (confirmed.count === 0) {
+        throw new HttpError(
+          409,
+          "payment_proof_not_pending",
+          "This payment proof upload can no longer be confirmed."
+        );
+      }
+
+      await tx.paymentProof.updateMany({
+        where: {
+          applicationId: existing.id,
+          status: "CONFIRMED",
+          id: { not: proof.id },
+        },
+        data: { status: "SUPERSEDED" },
+      });
+
+      await tx.application.update({
+        where: { id: existing.id },
+        data: {
+          currentPaymentProofId: proof.id,
+          paymentProofKey: proof.objectKey,
+          paymentProofUploadedAt: now,
+          paymentVerifiedAt: null,
+          paymentVerifiedByUserId: null,
+          paymentRejectedAt: null,
+          paymentRejectedByUserId: null,
+          paymentRejectionReason: null,
+          events: {
+            create: {
+              type: "PAYMENT_PROOF_UPLOADED",
+              actorUserId: req.user!.id,
+              fromStatus: existing.status,
+              toStatus: existing.status,
+              metadataJson: {
+                objectKey: proof.objectKey,
+                contentType: proof.contentType,
+                contentLength: proof.contentLength,
+              },
+            },
+          },
         },
+      });
+    });
+
+    // Best effort: jobs:process-payment-proofs retries anything left behind,
+    // and admins see the original until then.
+    await processPaymentProof(proof, bytes).catch(() => undefined);
+
+    res.status(200).json({
+      data: {
+        objectKey: proof.objectKey,
+        status: "CONFIRMED",
         attachedToApplication: true,
       },
     });
@@ -16,12 +16,12 @@ const ensureOnboardingEligibility = async (userId: string, role: "MEMBER" | "ADM
     return;
   }
 
-  const application = await prisma.application.findUnique({
-    where: { userId },
-    select: { status: true },
+  const acceptedApplication = await prisma.application.findFirst({
+    where: { userId, status: "ACCEPTED" },
+    select: { id: true },
   });
 
-  if (!application || application.status !== "ACCEPTED") {
+  if (!acceptedApplication) {
     throw new HttpError(
       403,
       "membership_not_accepted",
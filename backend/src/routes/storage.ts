@@ -0,0 +1,130 @@
+import express, { Router } from "express";
+import type { NextFunction, Request, Response } from "express";
+import { env } from "../config/env";
+import { validateQuery } from "../middleware/validate";
+import {
+  localStorageObjectQuerySchema,
+  localStorageUploadFieldsSchema,
+} from "../validation/schemas";
+import { asyncHandler } from "../utils/asyncHandler";
+import { HttpError } from "../utils/httpError";
+import {
+  getLocalObjectContentType,
+  localStorageDriver,
+  resolveLocalObjectPath,
+  verifyLocalSignature,
+} from "../storage/local";
+import { paymentProofMaxBytes } from "../storage/paymentProofs";
+
+type SignedObjectQuery = {
+  expires: number;
+  signature: string;
+};
+
+const router = Router();
+
+// Signed URLs from the local storage driver point here; with the S3 driver
+// the bucket serves them and these routes do not exist.
+router.use((_req: Request, _res: Response, next: NextFunction) => {
+  next(
+    env.STORAGE_DRIVER === "local"
+      ? undefined
+      : new HttpError(404, "not_found", "Not found")
+  );
+});
+
+// Room for the form fields and multipart boundaries around the file.
+const uploadFormOverheadBytes = 64 * 1024;
+
+router.post(
+  "/uploads",
+  express.raw({
+    type: "multipart/form-data",
+    limit: paymentProofMaxBytes + uploadFormOverheadBytes,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!Buffer.isBuffer(req.body)) {
+      throw new HttpError(
+        400,
+        "invalid_upload",
+        "Uploads must be sent as multipart form data."
+      );
+    }
+
+    const form = await new globalThis.Response(req.body, {
+      headers: { "Content-Type": req.get("Content-Type") ?? "" },
+    }).formData();
+    const fields = localStorageUploadFieldsSchema.parse(
+      Object.fromEntries(
+        Array.from(form.entries()).filter(
+          ([, value]) => typeof value === "string"
+        )
+      )
+    );
+    const {
+      key: objectKey,
+      "Content-Type": contentType,
+      contentLength,
+      expires,
+      signature,
+    } = fields;
+
+    if (
+      !verifyLocalSignature(
+        { method: "POST", objectKey, expires, contentType, contentLength },
+        signature
+      )
+    ) {
+      throw new HttpError(
+        403,
+        "signature_invalid",
+        "This upload form is invalid or has expired."
+      );
+    }
+
+    const file = form.get("file");
+    if (!(file instanceof Blob)) {
+      throw new HttpError(400, "invalid_upload", "The upload has no file.");
+    }
+    if (file.size !== contentLength) {
+      throw new HttpError(
+        403,
+        "upload_policy_violation",
+        "The file does not match the signed content length."
+      );
+    }
+
+    await localStorageDriver.write(
+      objectKey,
+      Buffer.from(await file.arrayBuffer()),
+      contentType
+    );
+    res.status(204).end();
+  })
+);
+
+router.get(
+  "/objects/*",
+  validateQuery(localStorageObjectQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const objectKey = req.params[0];
+    const { expires, signature } = req.query as unknown as SignedObjectQuery;
+
+    if (!verifyLocalSignature({ method: "GET", objectKey, expires }, signature)) {
+      throw new HttpError(
+        403,
+        "signature_invalid",
+        "This link is invalid or has expired."
+      );
+    }
+
+    if (!(await localStorageDriver.exists(objectKey))) {
+      throw new HttpError(404, "object_not_found", "File not found.");
+    }
+
+    res.type(getLocalObjectContentType(objectKey));
+    res.sendFile(resolveLocalObjectPath(objectKey));
+  })
+);
+
+export default router;
@@ -0,0 +1,43 @@
+import { env } from "../config/env";
+import { localStorageDriver } from "./local";
+import { s3StorageDriver } from "./s3";
+
+export type StoredObjectHead = {
+  contentType: string | null;
+  contentLength: number | null;
+};
+
+// A browser form upload: POST multipart/form-data to `url` with every field,
+// then the file last as `file`. The store itself enforces the exact content
+// type and length.
+export type SignedUploadForm = {
+  url: string;
+  fields: Record<string, string>;
+};
+
+export type StoredObjectListing = {
+  key: string;
+  lastModified: Date | null;
+};
+
+// What the app needs from an object store. Keys are slash-separated paths such
+// as `applications/<userId>/<file>`; a missing object is `null` or `false`,
+// never an error.
+export type StorageDriver = {
+  createUploadForm: (
+    objectKey: string,
+    contentType: string,
+    contentLength: number,
+    expiresIn: number
+  ) => Promise<SignedUploadForm>;
+  createViewUrl: (objectKey: string, expiresIn: number) => Promise<string>;
+  exists: (objectKey: string) => Promise<boolean>;
+  head: (objectKey: string) => Promise<StoredObjectHead | null>;
+  read: (objectKey: string, byteCount?: number) => Promise<Buffer>;
+  write: (objectKey: string, body: Buffer, contentType: string) => Promise<void>;
+  list: (prefix: string) => AsyncIterable<StoredObjectListing>;
+  delete: (objectKeys: string[]) => Promise<void>;
+};
+
+export const getStorageDriver = (): StorageDriver =>
+  env.STORAGE_DRIVER === "local" ? localStorageDriver : s3StorageDriver;
@@ -0,0 +1,201 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { mkdir, open, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { env } from "../config/env";
+import type { SignedUploadForm, StorageDriver } from "./driver";
+
+export type LocalSignedRequest = {
+  method: "GET" | "POST";
+  objectKey: string;
+  expires: number;
+  contentType?: string;
+  contentLength?: number;
+};
+
+const contentTypesByExtension: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+const getStorageRoot = () => path.resolve(env.LOCAL_STORAGE_DIR);
+
+// Keys arrive in URL paths, so anything that would leave the storage
+// directory is refused.
+export const resolveLocalObjectPath = (objectKey: string) => {
+  const root = getStorageRoot();
+  const filePath = path.resolve(root, objectKey);
+  if (!filePath.startsWith(`${root}${path.sep}`)) {
+    throw new Error("Object key is outside the storage directory.");
+  }
+  return filePath;
+};
+
+// Object keys always carry the extension of their content type, so no
+// metadata is stored next to the file.
+export const getLocalObjectContentType = (objectKey: string) =>
+  contentTypesByExtension[path.extname(objectKey).toLowerCase()] ??
+  "application/octet-stream";
+
+// Like an S3 presigned URL, the signature covers the method, key, expiry, and
+// for uploads the declared content type and length.
+const signLocalRequest = (request: LocalSignedRequest) =>
+  createHmac("sha256", env.LOCAL_STORAGE_SECRET)
+    .update(
+      [
+        request.method,
+        request.objectKey,
+        request.expires,
+        request.contentType ?? "",
+        request.contentLength ?? "",
+      ].join("\n")
+    )
+    .digest("hex");
+
+export const verifyLocalSignature = (
+  request: LocalSignedRequest,
+  signature: string
+) => {
+  if (request.expires * 1000 < Date.now()) {
+    return false;
+  }
+  const expected = Buffer.from(signLocalRequest(request));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+};
+
+const buildSignedViewUrl = (request: LocalSignedRequest) => {
+  const encodedKey = request.objectKey
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/");
+  const url = new URL(
+    `/storage/objects/${encodedKey}`,
+    env.LOCAL_STORAGE_PUBLIC_URL
+  );
+  url.searchParams.set("expires", String(request.expires));
+  url.searchParams.set("signature", signLocalRequest(request));
+  return url.toString();
+};
+
+// Mirrors the S3 POST policy: the fields are the signed conditions.
+const buildSignedUploadForm = (
+  request: LocalSignedRequest & { contentType: string; contentLength: number }
+): SignedUploadForm => ({
+  url: new URL("/storage/uploads", env.LOCAL_STORAGE_PUBLIC_URL).toString(),
+  fields: {
+    key: request.objectKey,
+    "Content-Type": request.contentType,
+    contentLength: String(request.contentLength),
+    expires: String(request.expires),
+    signature: signLocalRequest(request),
+  },
+});
+
+const expiresAt = (expiresIn: number) =>
+  Math.floor(Date.now() / 1000) + expiresIn;
+
+const isMissing = (error: unknown) =>
+  (error as { code?: string })?.code === "ENOENT";
+
+const head: StorageDriver["head"] = async (objectKey) => {
+  try {
+    const info = await stat(resolveLocalObjectPath(objectKey));
+    return info.isFile()
+      ? {
+          contentType: getLocalObjectContentType(objectKey),
+          contentLength: info.size,
+        }
+      : null;
+  } catch (error) {
+    if (isMissing(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+async function* walk(
+  directory: string
+): AsyncGenerator<{ filePath: string; lastModified: Date }> {
+  let entries;
+  try {
+    entries = await readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    if (isMissing(error)) {
+      return;
+    }
+    throw error;
+  }
+  for (const entry of entries) {
+    const filePath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      yield* walk(filePath);
+    } else if (entry.isFile()) {
+      yield { filePath, lastModified: (await stat(filePath)).mtime };
+    }
+  }
+}
+
+export const localStorageDriver: StorageDriver = {
+  createUploadForm: async (objectKey, contentType, contentLength, expiresIn) =>
+    buildSignedUploadForm({
+      method: "POST",
+      objectKey,
+      expires: expiresAt(expiresIn),
+      contentType,
+      contentLength,
+    }),
+
+  createViewUrl: async (objectKey, expiresIn) =>
+    buildSignedViewUrl({
+      method: "GET",
+      objectKey,
+      expires: expiresAt(expiresIn),
+    }),
+
+  exists: async (objectKey) => (await head(objectKey)) !== null,
+
+  head,
+
+  read: async (objectKey, byteCount) => {
+    const filePath = resolveLocalObjectPath(objectKey);
+    if (byteCount === undefined) {
+      return readFile(filePath);
+    }
+    const file = await open(filePath, "r");
+    try {
+      const buffer = Buffer.alloc(byteCount);
+      const { bytesRead } = await file.read(buffer, 0, byteCount, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  },
+
+  write: async (objectKey, body) => {
+    const filePath = resolveLocalObjectPath(objectKey);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  },
+
+  list: async function* (prefix) {
+    const root = getStorageRoot();
+    // Prefixes end at a directory boundary (`applications/`), so only that
+    // directory needs walking.
+    const directory = path.join(root, prefix.slice(0, prefix.lastIndexOf("/") + 1));
+    for await (const { filePath, lastModified } of walk(directory)) {
+      const key = path.relative(root, filePath).split(path.sep).join("/");
+      if (key.startsWith(prefix)) {
+        yield { key, lastModified };
+      }
+    }
+  },
+
+  delete: async (objectKeys) => {
+    for (const objectKey of objectKeys) {
+      await rm(resolveLocalObjectPath(objectKey), { force: true });
+    }
+  },
+};
@@ -0,0 +1,74 @@
+import { createHash, randomUUID } from "node:crypto";
+import { env } from "../config/env";
+import { getStorageDriver } from "./driver";
+
+const mimeToExtension: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+export const paymentProofAllowedMimeTypes = Object.keys(mimeToExtension);
+export const paymentProofMaxBytes = 10 * 1024 * 1024;
+export const paymentProofKeyPrefix = "applications/";
+
+const normalizeTtl = (ttlSeconds: number) =>
+  Math.max(60, Math.min(ttlSeconds, 3600));
+
+export const isAllowedPaymentProofMime = (contentType: string) =>
+  paymentProofAllowedMimeTypes.includes(contentType);
+
+export const buildPaymentProofObjectKey = (userId: string, contentType: string) => {
+  const extension = mimeToExtension[contentType] ?? "bin";
+  return `${paymentProofKeyPrefix}${userId}/payment-proof-${Date.now()}-${randomUUID()}.${extension}`;
+};
+
+export const createPaymentProofUploadForm = async (
+  objectKey: string,
+  contentType: string,
+  contentLength: number
+) => {
+  const expiresIn = normalizeTtl(env.MINIO_SIGNED_URL_TTL_SECONDS);
+  const form = await getStorageDriver().createUploadForm(
+    objectKey,
+    contentType,
+    contentLength,
+    expiresIn
+  );
+  return { ...form, expiresIn };
+};
+
+export const createPaymentProofViewUrl = async (
+  objectKey: string,
+  ttlSeconds = 900
+) => getStorageDriver().createViewUrl(objectKey, normalizeTtl(ttlSeconds));
+
+export const paymentProofObjectExists = async (objectKey: string) =>
+  getStorageDriver().exists(objectKey);
+
+export const headPaymentProofObject = async (objectKey: string) =>
+  getStorageDriver().head(objectKey);
+
+export const readPaymentProofObjectPrefix = async (
+  objectKey: string,
+  byteCount: number
+) => getStorageDriver().read(objectKey, byteCount);
+
+// Proofs are capped at paymentProofMaxBytes, so the whole object is read.
+export const readPaymentProofObject = async (objectKey: string) =>
+  getStorageDriver().read(objectKey);
+
+export const hashPaymentProofBytes = (bytes: Uint8Array) =>
+  createHash("sha256").update(bytes).digest("hex");
+
+export const putPaymentProofObject = async (
+  objectKey: string,
+  body: Buffer,
+  contentType: string
+) => getStorageDriver().write(objectKey, body, contentType);
+
+export const listPaymentProofObjects = () =>
+  getStorageDriver().list(paymentProofKeyPrefix);
+
+export const deletePaymentProofObjects = async (objectKeys: string[]) =>
+  getStorageDriver().delete(objectKeys);
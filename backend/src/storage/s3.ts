@@ -0,0 +1,158 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { createPresignedPost } from "@aws-sdk/s3-presigned-post";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { env } from "../config/env";
+import type { StorageDriver } from "./driver";
+
+let s3Client: S3Client | null = null;
+
+const getS3Client = () => {
+  if (s3Client) {
+    return s3Client;
+  }
+
+  if (
+    !env.MINIO_ENDPOINT ||
+    !env.MINIO_ACCESS_KEY ||
+    !env.MINIO_SECRET_KEY ||
+    !env.MINIO_BUCKET
+  ) {
+    throw new Error("MinIO config is incomplete.");
+  }
+
+  s3Client = new S3Client({
+    region: env.MINIO_REGION,
+    endpoint: env.MINIO_ENDPOINT,
+    forcePathStyle: env.MINIO_FORCE_PATH_STYLE,
+    credentials: {
+      accessKeyId: env.MINIO_ACCESS_KEY,
+      secretAccessKey: env.MINIO_SECRET_KEY,
+    },
+  });
+
+  return s3Client;
+};
+
+const isNotFound = (error: unknown) => {
+  const errorName = (error as { name?: string })?.name;
+  return errorName === "NotFound" || errorName === "NoSuchKey";
+};
+
+const head: StorageDriver["head"] = async (objectKey) => {
+  const client = getS3Client();
+  try {
+    const object = await client.send(
+      new HeadObjectCommand({
+        Bucket: env.MINIO_BUCKET,
+        Key: objectKey,
+      })
+    );
+    return {
+      contentType: object.ContentType ?? null,
+      contentLength: object.ContentLength ?? null,
+    };
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const s3StorageDriver: StorageDriver = {
+  // Unlike a presigned PUT, the POST policy is checked by the store itself,
+  // so a different size or type is refused before anything is written.
+  createUploadForm: async (objectKey, contentType, contentLength, expiresIn) =>
+    createPresignedPost(getS3Client(), {
+      Bucket: env.MINIO_BUCKET,
+      Key: objectKey,
+      Conditions: [
+        ["content-length-range", contentLength, contentLength],
+        ["eq", "$Content-Type", contentType],
+      ],
+      Fields: { "Content-Type": contentType },
+      Expires: expiresIn,
+    }),
+
+  createViewUrl: async (objectKey, expiresIn) => {
+    const command = new GetObjectCommand({
+      Bucket: env.MINIO_BUCKET,
+      Key: objectKey,
+    });
+    return getSignedUrl(getS3Client(), command, { expiresIn });
+  },
+
+  exists: async (objectKey) => (await head(objectKey)) !== null,
+
+  head,
+
+  read: async (objectKey, byteCount) => {
+    const object = await getS3Client().send(
+      new GetObjectCommand({
+        Bucket: env.MINIO_BUCKET,
+        Key: objectKey,
+        Range: byteCount === undefined ? undefined : `bytes=0-${byteCount - 1}`,
+      })
+    );
+    if (!object.Body) {
+      return Buffer.alloc(0);
+    }
+    return Buffer.from(await object.Body.transformToByteArray());
+  },
+
+  write: async (objectKey, body, contentType) => {
+    await getS3Client().send(
+      new PutObjectCommand({
+        Bucket: env.MINIO_BUCKET,
+        Key: objectKey,
+        Body: body,
+        ContentType: contentType,
+        ContentLength: body.length,
+      })
+    );
+  },
+
+  list: async function* (prefix) {
+    const client = getS3Client();
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await client.send(
+        new ListObjectsV2Command({
+          Bucket: env.MINIO_BUCKET,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const object of page.Contents ?? []) {
+        if (object.Key) {
+          yield { key: object.Key, lastModified: object.LastModified ?? null };
+        }
+      }
+      continuationToken = page.IsTruncated
+        ? page.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  },
+
+  delete: async (objectKeys) => {
+    const client = getS3Client();
+    // DeleteObjects accepts at most 1000 keys per request.
+    for (let index = 0; index < objectKeys.length; index += 1000) {
+      const batch = objectKeys.slice(index, index + 1000);
+      await client.send(
+        new DeleteObjectsCommand({
+          Bucket: env.MINIO_BUCKET,
+          Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+        })
+      );
+    }
+  },
+};
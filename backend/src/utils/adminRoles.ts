@@ -0,0 +1,16 @@
+import type { Prisma } from "@prisma/client";
+import { env } from "../config/env";
+
+// Emails in ADMIN_EMAILS are promoted again on every sign-in and by the seed,
+// so their role can only be changed through the environment.
+export const isBootstrapAdmin = (email: string) =>
+  env.ADMIN_EMAILS.includes(email.toLowerCase());
+
+// Locks every admin row, so two concurrent demotions cannot both count the
+// other admin as the one left behind.
+export const lockAdminUserIds = async (tx: Prisma.TransactionClient) => {
+  const admins = await tx.$queryRaw<Array<{ id: string }>>`
+    SELECT "id" FROM "User" WHERE "role" = 'ADMIN' FOR UPDATE
+  `;
+  return admins.map(({ id }) => id);
+};
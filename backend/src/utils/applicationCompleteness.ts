@@ -1,22 +1,5 @@
-const requiredFieldIds = [
-  "email",
-  "fullName",
-  "universityAndBranch",
-  "currentYearLevelAndProgram",
-  "facebookLink",
-  "resumeOrCv",
-  "hobbiesAndInterests",
-  "personalWhy",
-  "currentBuildingOrWantToBuild",
-  "whyAsesManila",
-  "oneToTwoYearVision",
-  "fiveYearVision",
-  "uniqueAboutYou",
-  "memberType",
-  "universityType",
-  "amountPaid",
-  "referenceNumber",
-];
+import type { FormSection } from "../validation/schemas";
+import { getFormQuestions } from "./formDefinition";
 
 const hasNonEmptyValue = (value: unknown): boolean => {
   if (value == null) {
@@ -46,9 +29,15 @@ const hasNonEmptyValue = (value: unknown): boolean => {
   return false;
 };
 
-export const getRequiredApplicationFieldIds = () => requiredFieldIds;
+export const getRequiredApplicationFieldIds = (sections: FormSection[]) =>
+  getFormQuestions(sections)
+    .filter((question) => question.required)
+    .map((question) => question.id);
 
 export const getMissingRequiredApplicationFields = (
+  sections: FormSection[],
   answers: Record<string, unknown>
 ) =>
-  requiredFieldIds.filter((fieldId) => !hasNonEmptyValue(answers[fieldId]));
+  getRequiredApplicationFieldIds(sections).filter(
+    (fieldId) => !hasNonEmptyValue(answers[fieldId])
+  );
@@ -0,0 +1,259 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import type { Prisma } from "@prisma/client";
+import ExcelJS from "exceljs";
+import prisma from "../db/prisma";
+import { toCsv } from "./csv";
+import { redactApplicant, redactIdentityAnswers } from "./blindReview";
+import { buildSubmittedAtCursorWhere } from "./applicationList";
+import { getFormDefinitionForApplication, getFormQuestions } from "./formDefinition";
+
+export type ApplicationExportFormat = "csv" | "xlsx";
+
+type ExportValue = string | number | Date | null;
+
+const exportBatchSize = 500;
+
+export const applicationExportSelect = {
+  id: true,
+  cycleId: true,
+  formDefinitionId: true,
+  status: true,
+  answersJson: true,
+  submittedAt: true,
+  paymentProofUploadedAt: true,
+  paymentVerifiedAt: true,
+  paymentRejectedAt: true,
+  paymentRejectionReason: true,
+  reviewedAt: true,
+  decisionNote: true,
+  withdrawnAt: true,
+  withdrawalReason: true,
+  waitlistPosition: true,
+  tags: true,
+  cycle: { select: { name: true, blindReview: true } },
+  user: { select: { id: true, name: true, email: true } },
+  reviewedBy: { select: { name: true } },
+  assignedReviewer: { select: { name: true } },
+} as const;
+
+export type ApplicationExportRow = Prisma.ApplicationGetPayload<{
+  select: typeof applicationExportSelect;
+}>;
+
+type ExportColumn = {
+  header: string;
+  value: (row: ApplicationExportRow, answers: Record<string, unknown>) => ExportValue;
+};
+
+const fixedColumns: ExportColumn[] = [
+  { header: "Application ID", value: (row) => row.id },
+  { header: "Cycle", value: (row) => row.cycle.name },
+  { header: "User ID", value: (row) => row.user.id },
+  { header: "Name", value: (row) => row.user.name },
+  { header: "Email", value: (row) => row.user.email },
+  { header: "Status", value: (row) => row.status },
+  { header: "Waitlist position", value: (row) => row.waitlistPosition },
+  { header: "Tags", value: (row) => row.tags.join("; ") || null },
+  { header: "Submitted at", value: (row) => row.submittedAt },
+  { header: "Payment proof uploaded at", value: (row) => row.paymentProofUploadedAt },
+  { header: "Payment verified at", value: (row) => row.paymentVerifiedAt },
+  { header: "Payment rejected at", value: (row) => row.paymentRejectedAt },
+  { header: "Payment rejection reason", value: (row) => row.paymentRejectionReason },
+  { header: "Assigned reviewer", value: (row) => row.assignedReviewer?.name ?? null },
+  { header: "Reviewed at", value: (row) => row.reviewedAt },
+  { header: "Reviewed by", value: (row) => row.reviewedBy?.name ?? null },
+  { header: "Decision note", value: (row) => row.decisionNote },
+  { header: "Withdrawn at", value: (row) => row.withdrawnAt },
+  { header: "Withdrawal reason", value: (row) => row.withdrawalReason },
+];
+
+const toExportAnswer = (value: unknown): ExportValue => {
+  if (value == null || value === "") {
+    return null;
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (Array.isArray(value)) {
+    return value.map(String).join("; ");
+  }
+  return JSON.stringify(value);
+};
+
+// One column per question across every form version the export touches, in
+// form order with the newest version first. Questions that share a label
+// across versions but not an id keep the id in their heading.
+export const buildApplicationExportColumns = async (
+  where: Prisma.ApplicationWhereInput
+) => {
+  const forms = await prisma.application.groupBy({
+    by: ["cycleId", "formDefinitionId"],
+    where,
+    _max: { submittedAt: true },
+    orderBy: { _max: { submittedAt: "desc" } },
+  });
+  const definitions = await Promise.all(
+    forms.map(({ cycleId, formDefinitionId }) =>
+      getFormDefinitionForApplication({ cycleId, formDefinitionId })
+    )
+  );
+
+  const questions = new Map<string, string>();
+  definitions
+    .flatMap((definition) => getFormQuestions(definition.sections))
+    .forEach((question) => {
+      if (!questions.has(question.id)) {
+        questions.set(question.id, question.label);
+      }
+    });
+
+  const labelCounts = new Map<string, number>();
+  questions.forEach((label) =>
+    labelCounts.set(label, (labelCounts.get(label) ?? 0) + 1)
+  );
+  const answerColumns: ExportColumn[] = Array.from(questions, ([id, label]) => ({
+    header: labelCounts.get(label)! > 1 ? `${label} (${id})` : label,
+    value: (_row, answers) => toExportAnswer(answers[id]),
+  }));
+
+  return [...fixedColumns, ...answerColumns];
+};
+
+// Pages through the matching applications by (submittedAt, id) so only one
+// batch is held in memory at a time. Paging stops once `signal` aborts.
+export async function* readApplicationExportBatches(
+  where: Prisma.ApplicationWhereInput,
+  sort: "newest" | "oldest",
+  signal: AbortSignal
+) {
+  const direction = sort === "newest" ? "desc" : "asc";
+  let cursor: { submittedAt: string; id: string } | null = null;
+  while (!signal.aborted) {
+    const batch: ApplicationExportRow[] = await prisma.application.findMany({
+      where: cursor
+        ? { AND: [where, buildSubmittedAtCursorWhere(cursor, sort)] }
+        : where,
+      orderBy: [{ submittedAt: direction }, { id: direction }],
+      take: exportBatchSize,
+      select: applicationExportSelect,
+    });
+    if (batch.length > 0) {
+      yield batch;
+    }
+    if (batch.length < exportBatchSize) {
+      return;
+    }
+    const last = batch[batch.length - 1];
+    cursor = { submittedAt: last.submittedAt.toISOString(), id: last.id };
+  }
+}
+
+export const toApplicationExportValues = (
+  columns: ExportColumn[],
+  row: ApplicationExportRow,
+  identityHidden: boolean
+) => {
+  const visible = identityHidden
+    ? { ...redactApplicant(row), answersJson: redactIdentityAnswers(row.answersJson) }
+    : row;
+  const answers = (visible.answersJson ?? {}) as Record<string, unknown>;
+  return columns.map((column) =>
+    column.value(visible as ApplicationExportRow, answers)
+  );
+};
+
+export const applicationExportContentTypes: Record<ApplicationExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// CSV rows are written as they arrive and wait for the socket to drain;
+// the XLSX writer zips each committed row straight into the stream. Every
+// wait also ends when the stream closes, so a client that disconnects
+// mid-export fails the next write instead of leaving the request hanging.
+export const createApplicationExportWriter = (
+  format: ApplicationExportFormat,
+  stream: Writable,
+  headers: string[]
+) => {
+  const closedError = () =>
+    new Error("The export stream closed before the export finished.");
+  let closed = false;
+  const whenClosed = new Promise<never>((_resolve, reject) =>
+    stream.once("close", () => {
+      closed = true;
+      // Closing once everything is flushed is how a finished export ends.
+      if (!stream.writableFinished) {
+        reject(closedError());
+      }
+    })
+  );
+  // The client may leave while no write is waiting; nothing is racing then.
+  whenClosed.catch(() => undefined);
+  const untilClosed = async (pending: Promise<unknown>) => {
+    await Promise.race([pending, whenClosed]);
+  };
+  const ensureOpen = async () => {
+    if (closed) {
+      throw closedError();
+    }
+  };
+
+  if (format === "csv") {
+    const write = async (chunk: string) => {
+      await ensureOpen();
+      if (!stream.write(chunk)) {
+        await untilClosed(once(stream, "drain"));
+      }
+    };
+    const toCsvValue = (value: ExportValue) =>
+      value instanceof Date ? value.toISOString() : value;
+    stream.write(toCsv([headers]));
+    return {
+      writeRows: (rows: ExportValue[][]) =>
+        write(toCsv(rows.map((row) => row.map(toCsvValue)))),
+      finish: async () => {
+        await ensureOpen();
+        stream.end();
+      },
+    };
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream,
+    useStyles: true,
+    useSharedStrings: false,
+  });
+  const worksheet = workbook.addWorksheet("Applications", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  worksheet.columns = headers.map((header) => ({
+    header,
+    width: Math.min(Math.max(header.length + 2, 14), 40),
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.getRow(1).commit();
+  return {
+    writeRows: async (rows: ExportValue[][]) => {
+      await ensureOpen();
+      rows.forEach((values) => {
+        const row = worksheet.addRow(values);
+        values.forEach((value, index) => {
+          if (value instanceof Date) {
+            row.getCell(index + 1).numFmt = "yyyy-mm-dd hh:mm";
+          }
+        });
+        row.commit();
+      });
+    },
+    finish: async () => {
+      await ensureOpen();
+      worksheet.commit();
+      await untilClosed(workbook.commit());
+    },
+  };
+};
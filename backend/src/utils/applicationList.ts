@@ -0,0 +1,143 @@
+import type { ApplicationStatus, Prisma } from "@prisma/client";
+import { HttpError } from "./httpError";
+
+export type AdminApplicationSort = "newest" | "oldest" | "score_desc" | "score_asc";
+
+export type AdminApplicationFilters = {
+  cycleId: string | null;
+  includeWithdrawn: boolean;
+  status?: ApplicationStatus;
+  paymentVerified?: boolean;
+  memberType?: string;
+  universityType?: string;
+  submittedFrom?: Date;
+  submittedTo?: Date;
+  reviewedByUserId?: string;
+  assignedReviewerUserId?: string | null;
+  tag?: string;
+};
+
+// Date sorts page by (submittedAt, id). Score sorts page by (scoreMean, id)
+// through the applications whose mean the viewer can see, then by id through
+// the rest, which carry a null `scoreMean` in the cursor.
+export type AdminApplicationCursor =
+  | { submittedAt: string; id: string }
+  | { scoreMean: number | null; id: string };
+
+export const listedApplicationStatuses: ApplicationStatus[] = [
+  "PENDING",
+  "INTERVIEW",
+  "ACCEPTED",
+  "REJECTED",
+  "WAITLISTED",
+  "WITHDRAWN",
+];
+
+// Everything but the status filter, so the status tabs can show their counts.
+export const buildAdminApplicationBaseWhere = (
+  filters: AdminApplicationFilters
+): Prisma.ApplicationWhereInput => ({
+  status: {
+    notIn:
+      filters.includeWithdrawn || filters.status === "WITHDRAWN"
+        ? ["DRAFT"]
+        : ["DRAFT", "WITHDRAWN"],
+  },
+  ...(filters.cycleId ? { cycleId: filters.cycleId } : {}),
+  ...(filters.assignedReviewerUserId !== undefined
+    ? { assignedReviewerUserId: filters.assignedReviewerUserId }
+    : {}),
+  ...(filters.reviewedByUserId
+    ? { reviewedByUserId: filters.reviewedByUserId }
+    : {}),
+  ...(filters.tag ? { tags: { has: filters.tag } } : {}),
+  ...(filters.paymentVerified === undefined
+    ? {}
+    : { paymentVerifiedAt: filters.paymentVerified ? { not: null } : null }),
+  ...(filters.submittedFrom || filters.submittedTo
+    ? { submittedAt: { gte: filters.submittedFrom, lte: filters.submittedTo } }
+    : {}),
+  AND: [
+    ...(filters.memberType
+      ? [{ answersJson: { path: ["memberType"], equals: filters.memberType } }]
+      : []),
+    ...(filters.universityType
+      ? [{ answersJson: { path: ["universityType"], equals: filters.universityType } }]
+      : []),
+  ],
+});
+
+export const encodeAdminApplicationCursor = (cursor: AdminApplicationCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+export const decodeAdminApplicationCursor = (
+  value: string,
+  sort: AdminApplicationSort
+): AdminApplicationCursor => {
+  const invalid = new HttpError(
+    400,
+    "invalid_cursor",
+    "The page cursor is invalid or belongs to a different sort."
+  );
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw invalid;
+  }
+
+  if (sort === "newest" || sort === "oldest") {
+    if (
+      typeof parsed?.submittedAt !== "string" ||
+      Number.isNaN(Date.parse(parsed.submittedAt)) ||
+      typeof parsed.id !== "string"
+    ) {
+      throw invalid;
+    }
+    return { submittedAt: parsed.submittedAt, id: parsed.id };
+  }
+
+  if (
+    (parsed?.scoreMean !== null && typeof parsed?.scoreMean !== "number") ||
+    typeof parsed.id !== "string"
+  ) {
+    throw invalid;
+  }
+  return { scoreMean: parsed.scoreMean, id: parsed.id };
+};
+
+// Rows strictly after the cursor in (submittedAt, id) order.
+export const buildSubmittedAtCursorWhere = (
+  cursor: { submittedAt: string; id: string },
+  sort: "newest" | "oldest"
+): Prisma.ApplicationWhereInput => {
+  const submittedAt = new Date(cursor.submittedAt);
+  const direction = sort === "newest" ? "lt" : "gt";
+  return {
+    OR: [
+      { submittedAt: { [direction]: submittedAt } },
+      { submittedAt, id: { [direction]: cursor.id } },
+    ],
+  };
+};
+
+// A reviewer only sees the mean of applications they have scored; the rest
+// sort last in either direction.
+export const buildVisibleScoreWhere = (
+  viewerUserId: string
+): Prisma.ApplicationWhereInput => ({
+  scoreMean: { not: null },
+  scores: { some: { reviewerUserId: viewerUserId } },
+});
+
+// Rows strictly after the cursor in (scoreMean, id) order; ties on the mean
+// break on the ascending id in both directions.
+export const buildScoreCursorWhere = (
+  cursor: { scoreMean: number; id: string },
+  sort: "score_desc" | "score_asc"
+): Prisma.ApplicationWhereInput => ({
+  OR: [
+    { scoreMean: { [sort === "score_asc" ? "gt" : "lt"]: cursor.scoreMean } },
+    { scoreMean: cursor.scoreMean, id: { gt: cursor.id } },
+  ],
+});
@@ -0,0 +1,86 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../db/prisma";
+import { identityAnswerKeys } from "../config/blindReview";
+
+// ts_headline wraps matched words in these; they are split back out into
+// segments so answer text never has to be rendered as HTML.
+const highlightStart = "⟦";
+const highlightStop = "⟧";
+const headlineOptions = `StartSel=${highlightStart}, StopSel=${highlightStop}, MaxWords=24, MinWords=8, ShortWord=1, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Name and email are matched like answers under these keys.
+export const userNameMatchKey = "user.name";
+export const userEmailMatchKey = "user.email";
+
+export type SearchSnippetSegment = { text: string; highlighted: boolean };
+
+type SearchRow = {
+  id: string;
+  rank: number;
+  matchesWithoutIdentity: boolean;
+  matches: Array<{ key: string; headline: string }>;
+};
+
+// Ranked over the trigger-maintained `searchVector`. Each row also lists the
+// individual fields that match on their own with a highlighted headline, and
+// whether the application still matches once identity answers, name, and
+// email are left out, for viewers under blind review.
+export const searchApplications = async (options: {
+  query: string;
+  cycleId: string | null;
+  includeWithdrawn: boolean;
+  limit: number;
+}) => {
+  const hiddenStatuses = options.includeWithdrawn
+    ? Prisma.sql`('DRAFT')`
+    : Prisma.sql`('DRAFT', 'WITHDRAWN')`;
+  return prisma.$queryRaw<SearchRow[]>`
+    SELECT
+      a."id",
+      ts_rank_cd(a."searchVector", q."query")::float8 AS "rank",
+      jsonb_to_tsvector('english', a."answersJson" - ${identityAnswerKeys}::text[], '["string"]') @@ q."query" AS "matchesWithoutIdentity",
+      COALESCE((
+        SELECT json_agg(
+          json_build_object('key', f."key", 'headline', ts_headline('english', f."value", q."query", ${headlineOptions}))
+          ORDER BY f."position"
+        )
+        FROM (
+          SELECT 0 AS "position", ${userNameMatchKey} AS "key", u."name" AS "value"
+          UNION ALL SELECT 1, ${userEmailMatchKey}, u."email"
+          UNION ALL
+          SELECT 2, e."key", e."value" #>> '{}'
+          FROM jsonb_each(a."answersJson") e
+          WHERE jsonb_typeof(e."value") = 'string'
+        ) f
+        WHERE to_tsvector('english', f."value") @@ q."query"
+      ), '[]'::json) AS "matches"
+    FROM "Application" a
+    JOIN "User" u ON u."id" = a."userId"
+    CROSS JOIN (SELECT websearch_to_tsquery('english', ${options.query}) AS "query") q
+    WHERE a."searchVector" @@ q."query"
+      AND a."status" NOT IN ${hiddenStatuses}
+      ${options.cycleId ? Prisma.sql`AND a."cycleId" = ${options.cycleId}` : Prisma.empty}
+    ORDER BY "rank" DESC, a."submittedAt" DESC, a."id"
+    LIMIT ${options.limit}
+  `;
+};
+
+export const isIdentityMatchKey = (key: string) =>
+  key === userNameMatchKey ||
+  key === userEmailMatchKey ||
+  identityAnswerKeys.includes(key);
+
+export const toSnippetSegments = (headline: string): SearchSnippetSegment[] =>
+  headline
+    .split(highlightStart)
+    .flatMap((part, index) => {
+      if (index === 0) {
+        return [{ text: part, highlighted: false }];
+      }
+      const [highlighted, ...rest] = part.split(highlightStop);
+      return [
+        { text: highlighted, highlighted: true },
+        { text: rest.join(highlightStop), highlighted: false },
+      ];
+    })
+    .filter((segment) => segment.text.length > 0);
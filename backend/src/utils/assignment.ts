@@ -0,0 +1,100 @@
+import type { ApplicationStatus, Prisma } from "@prisma/client";
+import { HttpError } from "./httpError";
+
+type Client = Prisma.TransactionClient;
+
+export type AssignmentStrategy = "round_robin" | "least_loaded";
+
+// Applications still waiting on a reviewer's decision.
+export const openReviewStatuses: ApplicationStatus[] = ["PENDING", "INTERVIEW"];
+
+export const reviewerSelect = {
+  id: true,
+  email: true,
+  name: true,
+} as const;
+
+export const listReviewers = (client: Client, reviewerUserIds?: string[]) =>
+  client.user.findMany({
+    where: {
+      role: "ADMIN",
+      ...(reviewerUserIds ? { id: { in: reviewerUserIds } } : {}),
+    },
+    orderBy: { createdAt: "asc" },
+    select: reviewerSelect,
+  });
+
+export const requireReviewer = async (client: Client, userId: string) => {
+  const reviewer = await client.user.findFirst({
+    where: { id: userId, role: "ADMIN" },
+    select: reviewerSelect,
+  });
+  if (!reviewer) {
+    throw new HttpError(400, "invalid_reviewer", "Reviewer must be an admin.");
+  }
+  return reviewer;
+};
+
+export const getReviewerWorkload = async (
+  client: Client,
+  cycleId: string | null,
+  reviewerUserIds?: string[]
+) => {
+  const cycleFilter = cycleId ? { cycleId } : {};
+  const [reviewers, counts, unassignedCount] = await Promise.all([
+    listReviewers(client, reviewerUserIds),
+    client.application.groupBy({
+      by: ["assignedReviewerUserId"],
+      where: {
+        ...cycleFilter,
+        status: { in: openReviewStatuses },
+        assignedReviewerUserId: { not: null },
+      },
+      _count: { _all: true },
+    }),
+    client.application.count({
+      where: {
+        ...cycleFilter,
+        status: { in: openReviewStatuses },
+        assignedReviewerUserId: null,
+      },
+    }),
+  ]);
+
+  return {
+    reviewers: reviewers.map((reviewer) => ({
+      ...reviewer,
+      openCount:
+        counts.find((count) => count.assignedReviewerUserId === reviewer.id)
+          ?._count._all ?? 0,
+    })),
+    unassignedCount,
+  };
+};
+
+// Pairs each application with a reviewer. Round-robin continues after the
+// reviewer who received the previous assignment; least-loaded always picks
+// the reviewer with the fewest open applications, counting this batch.
+export const planAssignments = (
+  applicationIds: string[],
+  reviewers: Array<{ id: string; openCount: number }>,
+  strategy: AssignmentStrategy,
+  lastReviewerUserId: string | null
+) => {
+  const loads = reviewers.map((reviewer) => ({ ...reviewer }));
+  let cursor = loads.findIndex((reviewer) => reviewer.id === lastReviewerUserId);
+
+  return applicationIds.map((applicationId) => {
+    let reviewer: (typeof loads)[number];
+    if (strategy === "round_robin") {
+      cursor = (cursor + 1) % loads.length;
+      reviewer = loads[cursor];
+    } else {
+      reviewer = loads.reduce((lowest, candidate) =>
+        candidate.openCount < lowest.openCount ? candidate : lowest
+      );
+    }
+    reviewer.openCount += 1;
+    return { applicationId, reviewerUserId: reviewer.id };
+  });
+};
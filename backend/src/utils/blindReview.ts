@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import type { IdentityRevealReason, Prisma, UserRole } from "@prisma/client";
+import prisma from "../db/prisma";
+import { env } from "../config/env";
+import {
+  identityAnswerKeys,
+  identityMetadataKeys,
+} from "../config/blindReview";
+
+type Viewer = {
+  id: string;
+  email: string;
+};
+
+type BlindReviewTarget = {
+  id: string;
+  blindReview: boolean;
+};
+
+export const isSuperAdmin = (viewer: Viewer) =>
+  env.SUPER_ADMIN_EMAILS.includes(viewer.email.toLowerCase());
+
+// Derived from the application id so the same applicant keeps the same
+// pseudonym across list, detail, and reviewers.
+export const getApplicantPseudonym = (applicationId: string) =>
+  `Applicant ${createHash("sha256")
+    .update(applicationId)
+    .digest("hex")
+    .slice(0, 6)
+    .toUpperCase()}`;
+
+// Returns the ids the viewer must see redacted. Identities in blind cycles are
+// revealed to super-admins and to reviewers who scored or decided the
+// application; the first reveal per viewer and application is logged.
+export const resolveHiddenIdentities = async (
+  viewer: Viewer,
+  applications: BlindReviewTarget[]
+) => {
+  const blindIds = applications
+    .filter((application) => application.blindReview)
+    .map((application) => application.id);
+  if (blindIds.length === 0) {
+    return new Set<string>();
+  }
+
+  const reasons = new Map<string, IdentityRevealReason>();
+  if (isSuperAdmin(viewer)) {
+    blindIds.forEach((id) => reasons.set(id, "SUPER_ADMIN"));
+  } else {
+    const [decisions, scores] = await Promise.all([
+      prisma.applicationEvent.findMany({
+        where: {
+          applicationId: { in: blindIds },
+          actorUserId: viewer.id,
+          type: "DECIDED",
+        },
+        select: { applicationId: true },
+      }),
+      prisma.applicationScore.findMany({
+        where: { applicationId: { in: blindIds }, reviewerUserId: viewer.id },
+        select: { applicationId: true },
+      }),
+    ]);
+    decisions.forEach(({ applicationId }) => reasons.set(applicationId, "DECIDED"));
+    scores.forEach(({ applicationId }) => reasons.set(applicationId, "SCORED"));
+  }
+
+  if (reasons.size > 0) {
+    await prisma.identityReveal.createMany({
+      data: Array.from(reasons, ([applicationId, reason]) => ({
+        applicationId,
+        viewerUserId: viewer.id,
+        reason,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  return new Set(blindIds.filter((id) => !reasons.has(id)));
+};
+
+// The user id is dropped too: `GET /admin/users` maps it back to a name.
+export const redactApplicant = <
+  T extends { id: string; user: { name: string; email: string } },
+>(
+  application: T
+) => ({
+  ...application,
+  user: {
+    ...application.user,
+    id: null,
+    name: getApplicantPseudonym(application.id),
+    email: null,
+  },
+});
+
+// Storage keys start with `applications/<userId>/`, so hidden applicants'
+// proofs go out with their signed URLs only.
+export const redactPaymentProofKeys = <
+  T extends {
+    objectKey: string;
+    thumbnailKey: string | null;
+    previewKey: string | null;
+  },
+>(
+  proof: T
+) => ({
+  ...proof,
+  objectKey: null,
+  thumbnailKey: null,
+  previewKey: null,
+});
+
+export const redactIdentityAnswers = (answers: unknown) =>
+  Object.fromEntries(
+    Object.entries((answers ?? {}) as Record<string, unknown>).map(
+      ([key, value]) => [key, identityAnswerKeys.includes(key) ? null : value]
+    )
+  );
+
+// The applicant acts on their own timeline (starting, submitting, booking an
+// interview), so their events are shown under the pseudonym.
+export const redactApplicantEvent = <
+  T extends {
+    actor: { id: string; email: string; name: string; role: UserRole } | null;
+    metadataJson: Prisma.JsonValue;
+  },
+>(
+  event: T,
+  application: { id: string; userId: string }
+) => {
+  const metadata =
+    event.metadataJson &&
+    typeof event.metadataJson === "object" &&
+    !Array.isArray(event.metadataJson)
+      ? Object.fromEntries(
+          Object.entries(event.metadataJson).filter(
+            ([key]) => !identityMetadataKeys.includes(key)
+          )
+        )
+      : event.metadataJson;
+  return {
+    ...event,
+    actor:
+      event.actor?.id === application.userId
+        ? {
+            id: null,
+            email: null,
+            name: getApplicantPseudonym(application.id),
+            role: event.actor.role,
+          }
+        : event.actor,
+    metadataJson: metadata,
+  };
+};
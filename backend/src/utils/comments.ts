@@ -0,0 +1,67 @@
+import type { Prisma } from "@prisma/client";
+import { reviewerSelect } from "./assignment";
+
+type Client = Prisma.TransactionClient;
+
+export const applicationCommentSelect = {
+  id: true,
+  body: true,
+  mentionedUserIds: true,
+  editedAt: true,
+  createdAt: true,
+  author: { select: reviewerSelect },
+  revisions: {
+    orderBy: { createdAt: "asc" },
+    select: { id: true, body: true, createdAt: true },
+  },
+} as const;
+
+type ApplicationCommentRow = Prisma.ApplicationCommentGetPayload<{
+  select: typeof applicationCommentSelect;
+}>;
+
+const mentionPattern = /(^|[^\w@.])@([a-z0-9][a-z0-9._+-]*)/gi;
+
+const getMentionHandle = (email: string) =>
+  email.split("@")[0]?.toLowerCase() ?? "";
+
+// Mentions are written as `@` followed by the local part of an admin's email,
+// e.g. `@maria.santos` for maria.santos@example.com.
+export const resolveMentionedUserIds = async (client: Client, body: string) => {
+  const handles = new Set(
+    Array.from(body.matchAll(mentionPattern), (match) =>
+      match[2].replace(/[.]+$/, "").toLowerCase()
+    )
+  );
+  if (handles.size === 0) {
+    return [];
+  }
+
+  const admins = await client.user.findMany({
+    where: { role: "ADMIN" },
+    select: { id: true, email: true },
+  });
+  return admins
+    .filter((admin) => handles.has(getMentionHandle(admin.email)))
+    .map((admin) => admin.id);
+};
+
+export const withCommentMentions = async (
+  client: Client,
+  comments: ApplicationCommentRow[]
+) => {
+  const mentionedIds = [
+    ...new Set(comments.flatMap((comment) => comment.mentionedUserIds)),
+  ];
+  const mentioned = mentionedIds.length
+    ? await client.user.findMany({
+        where: { id: { in: mentionedIds } },
+        select: reviewerSelect,
+      })
+    : [];
+
+  return comments.map(({ mentionedUserIds, ...comment }) => ({
+    ...comment,
+    mentions: mentioned.filter((user) => mentionedUserIds.includes(user.id)),
+  }));
+};
@@ -0,0 +1,64 @@
+// Minimal RFC 4180 reader: quoted fields may contain commas, newlines, and
+// doubled quotes. Blank lines are dropped.
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim().length > 0)) {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") {
+        index += 1;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field.length > 0 || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Values that open as formulas in a spreadsheet are prefixed with a quote.
+const toCsvField = (value: string | number | null) => {
+  if (value === null) {
+    return "";
+  }
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Array<Array<string | number | null>>) =>
+  rows.map((row) => row.map(toCsvField).join(",")).join("\r\n") + "\r\n";
@@ -0,0 +1,99 @@
+import type { Prisma } from "@prisma/client";
+import { defaultMembershipFees } from "../config/fees";
+import { HttpError } from "./httpError";
+import { getPaymentAnswers } from "./paymentReconciliation";
+
+type Client = Prisma.TransactionClient;
+
+export type FeeScheduleEntry = {
+  memberType: string;
+  universityType: string;
+  amount: number;
+};
+
+export type PaymentAmountStatus = "match" | "underpaid" | "overpaid" | "unknown";
+
+export type PaymentAmountCheck = {
+  expectedFee: number | null;
+  amountPaid: number | null;
+  difference: number | null;
+  status: PaymentAmountStatus;
+};
+
+const toFeeEntry = (fee: {
+  memberType: string;
+  universityType: string;
+  amountCents: number;
+}): FeeScheduleEntry => ({
+  memberType: fee.memberType,
+  universityType: fee.universityType,
+  amount: fee.amountCents / 100,
+});
+
+export const getFeeSchedule = async (client: Client, cycleId: string) => {
+  const fees = await client.membershipFee.findMany({
+    where: { cycleId },
+    orderBy: [{ memberType: "asc" }, { universityType: "asc" }],
+    select: { memberType: true, universityType: true, amountCents: true },
+  });
+
+  return fees.length > 0
+    ? { isDefault: false, fees: fees.map(toFeeEntry) }
+    : { isDefault: true, fees: defaultMembershipFees.map(toFeeEntry) };
+};
+
+// The fee is keyed on the applicant's memberType and universityType answers.
+export const resolveExpectedFee = (
+  fees: FeeScheduleEntry[],
+  answersJson: unknown
+) => {
+  const answers = (answersJson ?? {}) as Record<string, unknown>;
+  const fee = fees.find(
+    (entry) =>
+      entry.memberType === answers.memberType &&
+      entry.universityType === answers.universityType
+  );
+  return fee ? fee.amount : null;
+};
+
+export const checkPaymentAmount = (
+  fees: FeeScheduleEntry[],
+  answersJson: unknown
+): PaymentAmountCheck => {
+  const expectedFee = resolveExpectedFee(fees, answersJson);
+  const { amountPaidCents } = getPaymentAnswers(answersJson);
+  const amountPaid = amountPaidCents === null ? null : amountPaidCents / 100;
+  if (expectedFee === null || amountPaidCents === null) {
+    return { expectedFee, amountPaid, difference: null, status: "unknown" };
+  }
+
+  const differenceCents = amountPaidCents - Math.round(expectedFee * 100);
+  return {
+    expectedFee,
+    amountPaid,
+    difference: differenceCents / 100,
+    status:
+      differenceCents === 0
+        ? "match"
+        : differenceCents < 0
+          ? "underpaid"
+          : "overpaid",
+  };
+};
+
+export const isPaymentAmountMismatch = (check: PaymentAmountCheck) =>
+  check.status === "underpaid" || check.status === "overpaid";
+
+export const ensurePaymentAmountOrOverride = (
+  check: PaymentAmountCheck,
+  override: boolean
+) => {
+  if (isPaymentAmountMismatch(check) && !override) {
+    throw new HttpError(
+      409,
+      "payment_amount_mismatch",
+      "The amount paid does not match the expected fee. Verify again with an override to accept it anyway.",
+      check
+    );
+  }
+};
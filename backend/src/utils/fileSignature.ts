@@ -0,0 +1,24 @@
+// Magic-byte checks for the image types accepted as payment proof. The
+// declared Content-Type is client-controlled, so the stored bytes decide.
+export const imageSignatureByteCount = 12;
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  buffer.length >= offset + bytes.length &&
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+export const detectImageMimeType = (buffer: Buffer) => {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return "image/jpeg";
+  }
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  // RIFF....WEBP
+  if (
+    startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return "image/webp";
+  }
+  return null;
+};
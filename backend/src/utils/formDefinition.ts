@@ -0,0 +1,139 @@
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import prisma from "../db/prisma";
+import { defaultApplicationFormSections } from "../config/applicationForm";
+import {
+  formSectionsSchema,
+  type FormQuestion,
+  type FormSection,
+} from "../validation/schemas";
+import { HttpError } from "./httpError";
+
+export type ResolvedFormDefinition = {
+  id: string | null;
+  version: number;
+  sections: FormSection[];
+};
+
+const defaultFormDefinition: ResolvedFormDefinition = {
+  id: null,
+  version: 0,
+  sections: defaultApplicationFormSections,
+};
+
+const toResolvedFormDefinition = (definition: {
+  id: string;
+  version: number;
+  sectionsJson: unknown;
+}): ResolvedFormDefinition => ({
+  id: definition.id,
+  version: definition.version,
+  sections: formSectionsSchema.parse(definition.sectionsJson),
+});
+
+export const getFormDefinitionForCycle = async (cycleId: string) => {
+  const definition = await prisma.formDefinition.findFirst({
+    where: { cycleId, publishedAt: { not: null } },
+    orderBy: { version: "desc" },
+    select: { id: true, version: true, sectionsJson: true },
+  });
+
+  return definition
+    ? toResolvedFormDefinition(definition)
+    : defaultFormDefinition;
+};
+
+export const getFormDefinitionForApplication = async (application: {
+  cycleId: string;
+  formDefinitionId: string | null;
+}) => {
+  if (!application.formDefinitionId) {
+    return getFormDefinitionForCycle(application.cycleId);
+  }
+
+  const definition = await prisma.formDefinition.findUnique({
+    where: { id: application.formDefinitionId },
+    select: { id: true, version: true, sectionsJson: true },
+  });
+
+  return definition
+    ? toResolvedFormDefinition(definition)
+    : getFormDefinitionForCycle(application.cycleId);
+};
+
+export const getFormQuestions = (sections: FormSection[]) =>
+  sections.flatMap((section) => section.questions);
+
+const blankToNull = (value: unknown) => {
+  if (value == null) {
+    return null;
+  }
+  if (typeof value === "string" && value.trim().length === 0) {
+    return null;
+  }
+  return value;
+};
+
+const buildQuestionSchema = (question: FormQuestion): z.ZodTypeAny => {
+  let schema: z.ZodTypeAny;
+
+  if (question.type === "select") {
+    const values = (question.options ?? []).map((option) => option.value);
+    schema = z.enum(values as [string, ...string[]]);
+  } else if (question.type === "number") {
+    let numberSchema = z.coerce.number();
+    if (question.min != null) {
+      numberSchema = numberSchema.min(question.min);
+    }
+    if (question.max != null) {
+      numberSchema = numberSchema.max(question.max);
+    }
+    schema = numberSchema;
+  } else {
+    let stringSchema = z.string().trim();
+    if (question.type === "email") {
+      stringSchema = stringSchema.email();
+    }
+    if (question.type === "url") {
+      stringSchema = stringSchema.url();
+    }
+    const minLength = question.minLength ?? (question.required ? 1 : 0);
+    if (minLength > 0) {
+      stringSchema = stringSchema.min(minLength);
+    }
+    if (question.maxLength != null) {
+      stringSchema = stringSchema.max(question.maxLength);
+    }
+    schema = stringSchema;
+  }
+
+  return question.required
+    ? schema
+    : z.preprocess(blankToNull, schema.nullable());
+};
+
+export const buildApplicationAnswersSchema = (sections: FormSection[]) =>
+  z.object(
+    Object.fromEntries(
+      getFormQuestions(sections).map((question) => [
+        question.id,
+        buildQuestionSchema(question),
+      ])
+    )
+  );
+
+export const parseApplicationAnswers = (
+  sections: FormSection[],
+  answers: Record<string, unknown>
+) => {
+  const result = buildApplicationAnswersSchema(sections).safeParse(answers);
+  if (!result.success) {
+    throw new HttpError(400, "validation_error", result.error.message, {
+      issues: result.error.issues.map((issue) => ({
+        ...issue,
+        path: ["answers", ...issue.path],
+      })),
+    });
+  }
+  return result.data as Prisma.InputJsonObject;
+};
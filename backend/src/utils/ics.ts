@@ -0,0 +1,62 @@
+type IcsEvent = {
+  uid: string;
+  startsAt: Date;
+  endsAt: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+};
+
+const formatIcsDate = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/\r\n|\r|\n/g, "\\n")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;");
+
+// RFC 5545 caps content lines at 75 octets; continuation lines start with a space.
+const foldIcsLine = (line: string) => {
+  const chunks: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    chunks.push(rest.slice(0, 75));
+    rest = ` ${rest.slice(75)}`;
+  }
+  chunks.push(rest);
+  return chunks.join("\r\n");
+};
+
+export const buildIcsEvent = (event: IcsEvent) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ASES Manila//Applications//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(event.startsAt)}`,
+    `DTEND:${formatIcsDate(event.endsAt)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  }
+  if (event.url) {
+    // URI values are not text-escaped; dropping control characters keeps a
+    // stored link from breaking out into extra properties.
+    lines.push(`URL:${event.url.replace(/[\x00-\x1f\x7f]/g, "")}`);
+  }
+
+  lines.push("END:VEVENT", "END:VCALENDAR");
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+};
@@ -0,0 +1,78 @@
+import type { Prisma } from "@prisma/client";
+import { buildIcsEvent } from "./ics";
+import { HttpError } from "./httpError";
+
+export const interviewSlotSelect = {
+  id: true,
+  cycleId: true,
+  startsAt: true,
+  endsAt: true,
+  capacity: true,
+  location: true,
+  videoUrl: true,
+  _count: { select: { bookings: true } },
+} as const;
+
+type InterviewSlotWithCount = Prisma.InterviewSlotGetPayload<{
+  select: typeof interviewSlotSelect;
+}>;
+
+export const toInterviewSlotSummary = ({
+  _count,
+  ...slot
+}: InterviewSlotWithCount) => ({
+  ...slot,
+  bookedCount: _count.bookings,
+  remaining: Math.max(0, slot.capacity - _count.bookings),
+});
+
+// Row-locks the slot so concurrent bookings serialize on its capacity check.
+export const lockInterviewSlot = async (
+  tx: Prisma.TransactionClient,
+  slotId: string
+) => {
+  await tx.$queryRaw`SELECT "id" FROM "InterviewSlot" WHERE "id" = ${slotId} FOR UPDATE`;
+  const slot = await tx.interviewSlot.findUnique({
+    where: { id: slotId },
+    select: interviewSlotSelect,
+  });
+  if (!slot) {
+    throw new HttpError(404, "slot_not_found", "Interview slot not found.");
+  }
+  return slot;
+};
+
+export const ensureInterviewSlotNotStarted = (
+  slot: { startsAt: Date },
+  now = new Date()
+) => {
+  if (slot.startsAt <= now) {
+    throw new HttpError(
+      409,
+      "slot_started",
+      "This interview slot has already started."
+    );
+  }
+};
+
+export const buildInterviewIcs = (booking: {
+  id: string;
+  summary: string;
+  slot: {
+    startsAt: Date;
+    endsAt: Date;
+    location: string | null;
+    videoUrl: string | null;
+  };
+}) =>
+  buildIcsEvent({
+    uid: `interview-${booking.id}@ases-manila`,
+    startsAt: booking.slot.startsAt,
+    endsAt: booking.slot.endsAt,
+    summary: booking.summary,
+    description: booking.slot.videoUrl
+      ? `Join the call: ${booking.slot.videoUrl}`
+      : null,
+    location: booking.slot.location ?? booking.slot.videoUrl,
+    url: booking.slot.videoUrl,
+  });
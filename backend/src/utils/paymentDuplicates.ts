@@ -0,0 +1,111 @@
+import type { Prisma } from "@prisma/client";
+import { HttpError } from "./httpError";
+import { getPaymentAnswers, normalizeReference } from "./paymentReconciliation";
+
+type Client = Prisma.TransactionClient;
+
+type DuplicateCandidate = {
+  id: string;
+  paymentReferenceKey: string | null;
+  currentPaymentProof: { contentSha256: string | null } | null;
+};
+
+export type PaymentDuplicateIds = {
+  reference: string[];
+  image: string[];
+};
+
+export const getPaymentReferenceKey = (answersJson: unknown) =>
+  normalizeReference(getPaymentAnswers(answersJson).referenceNumber) || null;
+
+export const hasPaymentDuplicates = (duplicates: PaymentDuplicateIds) =>
+  duplicates.reference.length > 0 || duplicates.image.length > 0;
+
+// References are keyed when an application is submitted, so only submitted
+// applications share one. Images are hashed when a proof is confirmed, and
+// any proof counts, including superseded and rejected ones.
+export const findPaymentDuplicates = async (
+  client: Client,
+  applications: DuplicateCandidate[]
+) => {
+  const references = Array.from(
+    new Set(
+      applications.flatMap(({ paymentReferenceKey }) =>
+        paymentReferenceKey ? [paymentReferenceKey] : []
+      )
+    )
+  );
+  const hashes = Array.from(
+    new Set(
+      applications.flatMap(({ currentPaymentProof }) =>
+        currentPaymentProof?.contentSha256
+          ? [currentPaymentProof.contentSha256]
+          : []
+      )
+    )
+  );
+
+  const [sharedReferences, sharedImages] = await Promise.all([
+    references.length > 0
+      ? client.application.findMany({
+          where: {
+            paymentReferenceKey: { in: references },
+            status: { not: "DRAFT" },
+          },
+          orderBy: { submittedAt: "asc" },
+          select: { id: true, paymentReferenceKey: true },
+        })
+      : [],
+    hashes.length > 0
+      ? client.paymentProof.findMany({
+          where: { contentSha256: { in: hashes } },
+          orderBy: { uploadedAt: "asc" },
+          select: { applicationId: true, contentSha256: true },
+        })
+      : [],
+  ]);
+
+  const unique = (ids: string[]) => Array.from(new Set(ids));
+  return new Map<string, PaymentDuplicateIds>(
+    applications.map((application) => [
+      application.id,
+      {
+        reference: application.paymentReferenceKey
+          ? sharedReferences
+              .filter(
+                (other) =>
+                  other.id !== application.id &&
+                  other.paymentReferenceKey === application.paymentReferenceKey
+              )
+              .map((other) => other.id)
+          : [],
+        image: application.currentPaymentProof?.contentSha256
+          ? unique(
+              sharedImages
+                .filter(
+                  (proof) =>
+                    proof.applicationId !== application.id &&
+                    proof.contentSha256 ===
+                      application.currentPaymentProof!.contentSha256
+                )
+                .map((proof) => proof.applicationId)
+            )
+          : [],
+      },
+    ])
+  );
+};
+
+export const ensureNoPaymentDuplicatesOrAcknowledged = (
+  duplicates: PaymentDuplicateIds,
+  acknowledged: boolean
+) => {
+  if (hasPaymentDuplicates(duplicates) && !acknowledged) {
+    throw new HttpError(
+      409,
+      "possible_duplicate_payment",
+      "Another application uses the same payment reference or receipt image. Review it and acknowledge the duplicate to verify anyway.",
+      duplicates
+    );
+  }
+};
@@ -0,0 +1,66 @@
+import sharp from "sharp";
+import prisma from "../db/prisma";
+import {
+  putPaymentProofObject,
+  readPaymentProofObject,
+} from "../storage/paymentProofs";
+
+const thumbnailSize = 320;
+const previewSize = 1600;
+
+// Derived images sit next to the original:
+// `applications/<user>/payment-proof-<id>.jpg` gets `.thumb.webp` and
+// `.preview.webp` siblings.
+export const buildPaymentProofDerivedKeys = (objectKey: string) => {
+  const base = objectKey.replace(/\.[^./]+$/, "");
+  return {
+    thumbnailKey: `${base}.thumb.webp`,
+    previewKey: `${base}.preview.webp`,
+  };
+};
+
+// rotate() without an angle applies the EXIF orientation. sharp writes no
+// EXIF, GPS, or other metadata unless asked to, so every output is clean.
+const renderPaymentProofImages = async (bytes: Uint8Array) => {
+  const oriented = sharp(bytes).rotate();
+  const fitWithin = (size: number) =>
+    oriented
+      .clone()
+      .resize(size, size, { fit: "inside", withoutEnlargement: true });
+
+  const [original, thumbnail, preview] = await Promise.all([
+    oriented.clone().toBuffer(),
+    fitWithin(thumbnailSize).webp({ quality: 70 }).toBuffer(),
+    fitWithin(previewSize).webp({ quality: 80 }).toBuffer(),
+  ]);
+  return { original, thumbnail, preview };
+};
+
+// Replaces the original with its cleaned copy and stores both derived images.
+// Pass the bytes when the caller already read the object.
+export const processPaymentProof = async (
+  proof: { id: string; objectKey: string; contentType: string },
+  bytes?: Uint8Array
+) => {
+  const source = bytes ?? (await readPaymentProofObject(proof.objectKey));
+  const images = await renderPaymentProofImages(source);
+  const { thumbnailKey, previewKey } = buildPaymentProofDerivedKeys(
+    proof.objectKey
+  );
+
+  await Promise.all([
+    putPaymentProofObject(proof.objectKey, images.original, proof.contentType),
+    putPaymentProofObject(thumbnailKey, images.thumbnail, "image/webp"),
+    putPaymentProofObject(previewKey, images.preview, "image/webp"),
+  ]);
+
+  await prisma.paymentProof.update({
+    where: { id: proof.id },
+    data: {
+      thumbnailKey,
+      previewKey,
+      contentLength: images.original.length,
+      processedAt: new Date(),
+    },
+  });
+};
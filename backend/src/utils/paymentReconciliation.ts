@@ -0,0 +1,271 @@
+import type { ApplicationStatus, PaymentProofStatus } from "@prisma/client";
+import { parseCsv } from "./csv";
+
+export type StatementColumns = {
+  date: string | null;
+  amount: string | null;
+  reference: string | null;
+};
+
+export type StatementRow = {
+  line: number;
+  date: string | null;
+  amountCents: number | null;
+  reference: string;
+};
+
+export type ReconciliationCandidate = {
+  id: string;
+  status: ApplicationStatus;
+  answersJson: unknown;
+  paymentVerifiedAt: Date | null;
+  paymentRejectedAt: Date | null;
+  paymentReferenceKey: string | null;
+  currentPaymentProof: {
+    status: PaymentProofStatus;
+    contentSha256: string | null;
+  } | null;
+};
+
+export type StatementMatchSkipReason =
+  | "already_verified"
+  | "not_submitted"
+  | "withdrawn"
+  | "payment_proof_rejected"
+  | "payment_proof_unconfirmed";
+
+export const reconciliationCandidateSelect = {
+  id: true,
+  status: true,
+  answersJson: true,
+  paymentVerifiedAt: true,
+  paymentRejectedAt: true,
+  paymentReferenceKey: true,
+  currentPaymentProof: { select: { status: true, contentSha256: true } },
+} as const;
+
+// Reference numbers are typed by hand, so spacing, dashes, and case are ignored.
+export const normalizeReference = (value: unknown) =>
+  typeof value === "string" || typeof value === "number"
+    ? String(value).toUpperCase().replace(/[^A-Z0-9]/g, "")
+    : "";
+
+// Statement exports mix currency prefixes and thousands separators; amounts
+// are compared in whole cents. The sign is kept so debits (a leading minus or
+// accounting parentheses) are never mistaken for incoming payments.
+export const parseStatementAmount = (value: unknown) => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? Math.round(value * 100) : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const cleaned = value.replace(/[^0-9.-]/g, "");
+  if (!cleaned) {
+    return null;
+  }
+  const parsed = Number(cleaned);
+  if (!Number.isFinite(parsed)) {
+    return null;
+  }
+  const isParenthesized = /^\s*\(.*\)\s*$/.test(value);
+  return Math.round((isParenthesized ? -Math.abs(parsed) : parsed) * 100);
+};
+
+const columnHints: Record<keyof StatementColumns, RegExp> = {
+  date: /date|time/i,
+  amount: /amount|credit|received/i,
+  reference: /ref/i,
+};
+
+export const guessStatementColumns = (headers: string[]): StatementColumns => {
+  const pick = (hint: RegExp) =>
+    headers.find((header) => hint.test(header)) ?? null;
+  return {
+    date: pick(columnHints.date),
+    amount: pick(columnHints.amount),
+    reference: pick(columnHints.reference),
+  };
+};
+
+export const readStatement = (
+  csv: string,
+  requested: Partial<StatementColumns> | undefined
+) => {
+  const [headerRow = [], ...dataRows] = parseCsv(csv);
+  const headers = headerRow.map((header) => header.trim());
+  const guessed = guessStatementColumns(headers);
+  const columns: StatementColumns = {
+    date: requested?.date ?? guessed.date,
+    amount: requested?.amount ?? guessed.amount,
+    reference: requested?.reference ?? guessed.reference,
+  };
+
+  const indexOf = (header: string | null) =>
+    header === null ? -1 : headers.indexOf(header);
+  const dateIndex = indexOf(columns.date);
+  const amountIndex = indexOf(columns.amount);
+  const referenceIndex = indexOf(columns.reference);
+
+  const rows: StatementRow[] =
+    amountIndex === -1 || referenceIndex === -1
+      ? []
+      : dataRows.map((row, index) => ({
+          // Numbered like a spreadsheet: the header is row 1, blank lines are skipped.
+          line: index + 2,
+          date: dateIndex === -1 ? null : row[dateIndex]?.trim() || null,
+          amountCents: parseStatementAmount(row[amountIndex]),
+          reference: (row[referenceIndex] ?? "").trim(),
+        }));
+
+  return {
+    headers,
+    columns: {
+      date: dateIndex === -1 ? null : columns.date,
+      amount: amountIndex === -1 ? null : columns.amount,
+      reference: referenceIndex === -1 ? null : columns.reference,
+    },
+    rows,
+  };
+};
+
+export const getPaymentAnswers = (answersJson: unknown) => {
+  const answers = (answersJson ?? {}) as Record<string, unknown>;
+  return {
+    referenceNumber:
+      typeof answers.referenceNumber === "string"
+        ? answers.referenceNumber
+        : null,
+    amountPaidCents: parseStatementAmount(answers.amountPaid),
+  };
+};
+
+// Mirrors the checks in POST /admin/applications/:id/payment-verify, except
+// that a confirmed proof stands in for the per-application storage lookup.
+export const getStatementMatchSkipReason = (
+  application: ReconciliationCandidate
+): StatementMatchSkipReason | null => {
+  if (application.paymentVerifiedAt) {
+    return "already_verified";
+  }
+  if (application.status === "DRAFT") {
+    return "not_submitted";
+  }
+  if (application.status === "WITHDRAWN") {
+    return "withdrawn";
+  }
+  if (application.paymentRejectedAt) {
+    return "payment_proof_rejected";
+  }
+  if (application.currentPaymentProof?.status !== "CONFIRMED") {
+    return "payment_proof_unconfirmed";
+  }
+  return null;
+};
+
+// Each statement row ends up in exactly one bucket:
+// - matched: one open application shares its reference and amount, and no
+//   other row claims that application;
+// - ambiguous: several applications share the reference, the amount differs,
+//   or several rows point at the same application;
+// - unmatched: the row is unreadable or a debit, no application has the
+//   reference, or the only one that does cannot be verified.
+export const reconcileStatement = <T extends ReconciliationCandidate>(
+  rows: StatementRow[],
+  applications: T[]
+) => {
+  const byReference = new Map<string, T[]>();
+  for (const application of applications) {
+    const reference = normalizeReference(
+      getPaymentAnswers(application.answersJson).referenceNumber
+    );
+    if (!reference) {
+      continue;
+    }
+    byReference.set(reference, [
+      ...(byReference.get(reference) ?? []),
+      application,
+    ]);
+  }
+
+  const matched: Array<{ row: StatementRow; application: T }> = [];
+  const ambiguous: Array<{
+    row: StatementRow;
+    reason: "duplicate_reference" | "amount_mismatch" | "reference_reused";
+    candidates: T[];
+  }> = [];
+  const unmatched: Array<{
+    row: StatementRow;
+    reason:
+      | "invalid_row"
+      | "debit_row"
+      | "no_reference_match"
+      | StatementMatchSkipReason;
+  }> = [];
+
+  const proposed: Array<{ row: StatementRow; application: T }> = [];
+  for (const row of rows) {
+    const reference = normalizeReference(row.reference);
+    if (!reference || row.amountCents === null) {
+      unmatched.push({ row, reason: "invalid_row" });
+      continue;
+    }
+    if (row.amountCents < 0) {
+      unmatched.push({ row, reason: "debit_row" });
+      continue;
+    }
+
+    const candidates = byReference.get(reference) ?? [];
+    const open = candidates.filter(
+      (candidate) => getStatementMatchSkipReason(candidate) === null
+    );
+    if (candidates.length === 0) {
+      unmatched.push({ row, reason: "no_reference_match" });
+    } else if (open.length === 0) {
+      unmatched.push({
+        row,
+        reason: getStatementMatchSkipReason(candidates[0])!,
+      });
+    } else if (open.length > 1) {
+      ambiguous.push({ row, reason: "duplicate_reference", candidates: open });
+    } else if (
+      getPaymentAnswers(open[0].answersJson).amountPaidCents !== row.amountCents
+    ) {
+      ambiguous.push({ row, reason: "amount_mismatch", candidates: open });
+    } else {
+      proposed.push({ row, application: open[0] });
+    }
+  }
+
+  const claims = new Map<string, number>();
+  proposed.forEach(({ application }) =>
+    claims.set(application.id, (claims.get(application.id) ?? 0) + 1)
+  );
+  for (const match of proposed) {
+    if (claims.get(match.application.id)! > 1) {
+      ambiguous.push({
+        row: match.row,
+        reason: "reference_reused",
+        candidates: [match.application],
+      });
+    } else {
+      matched.push(match);
+    }
+  }
+
+  const claimedIds = new Set(claims.keys());
+  const unmatchedApplications = applications.filter(
+    (application) =>
+      !claimedIds.has(application.id) &&
+      getStatementMatchSkipReason(application) === null
+  );
+
+  const byLine = (a: { row: StatementRow }, b: { row: StatementRow }) =>
+    a.row.line - b.row.line;
+  return {
+    matched: matched.sort(byLine),
+    ambiguous: ambiguous.sort(byLine),
+    unmatched: unmatched.sort(byLine),
+    unmatchedApplications,
+  };
+};
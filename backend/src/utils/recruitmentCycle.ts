@@ -0,0 +1,51 @@
+import prisma from "../db/prisma";
+import { HttpError } from "./httpError";
+
+export const recruitmentCycleSelect = {
+  id: true,
+  name: true,
+  opensAt: true,
+  closesAt: true,
+  isActive: true,
+  acceptanceCapacity: true,
+  blindReview: true,
+} as const;
+
+type RecruitmentCycleWindow = {
+  opensAt: Date;
+  closesAt: Date | null;
+};
+
+export const getActiveRecruitmentCycle = () =>
+  prisma.recruitmentCycle.findFirst({
+    where: { isActive: true },
+    orderBy: { opensAt: "desc" },
+    select: recruitmentCycleSelect,
+  });
+
+export const requireActiveRecruitmentCycle = async () => {
+  const cycle = await getActiveRecruitmentCycle();
+  if (!cycle) {
+    throw new HttpError(
+      409,
+      "no_active_cycle",
+      "There is no active recruitment cycle."
+    );
+  }
+  return cycle;
+};
+
+export const isRecruitmentCycleOpen = (
+  cycle: RecruitmentCycleWindow,
+  now = new Date()
+) => now >= cycle.opensAt && (!cycle.closesAt || now <= cycle.closesAt);
+
+export const ensureRecruitmentCycleOpen = (cycle: RecruitmentCycleWindow) => {
+  if (!isRecruitmentCycleOpen(cycle)) {
+    throw new HttpError(
+      409,
+      "cycle_closed",
+      "Applications for this recruitment cycle are closed."
+    );
+  }
+};
@@ -0,0 +1,65 @@
+import type { ApplicationStatus, RefundStatus } from "@prisma/client";
+import { HttpError } from "./httpError";
+
+// Only applicants who paid and then left the process get money back.
+export const refundableStatuses: ApplicationStatus[] = ["REJECTED", "WITHDRAWN"];
+
+export const refundSelect = {
+  id: true,
+  amountCents: true,
+  method: true,
+  reference: true,
+  status: true,
+  note: true,
+  requestedAt: true,
+  approvedAt: true,
+  sentAt: true,
+  updatedAt: true,
+  processedBy: { select: { id: true, email: true, name: true } },
+} as const;
+
+// Applicants see where their money is, not the treasurer's notes.
+export const applicantRefundSelect = {
+  amountCents: true,
+  method: true,
+  reference: true,
+  status: true,
+  requestedAt: true,
+  approvedAt: true,
+  sentAt: true,
+} as const;
+
+export const toRefundView = <T extends { amountCents: number }>({
+  amountCents,
+  ...refund
+}: T) => ({
+  ...refund,
+  amount: amountCents / 100,
+});
+
+// Refunds only move forward: REQUESTED -> APPROVED -> SENT.
+const nextRefundStatus: Record<RefundStatus, RefundStatus | null> = {
+  REQUESTED: "APPROVED",
+  APPROVED: "SENT",
+  SENT: null,
+};
+
+export const refundEventTypes = {
+  REQUESTED: "REFUND_REQUESTED",
+  APPROVED: "REFUND_APPROVED",
+  SENT: "REFUND_SENT",
+} as const;
+
+export const ensureRefundTransition = (
+  from: RefundStatus,
+  to: RefundStatus
+) => {
+  if (nextRefundStatus[from] !== to) {
+    throw new HttpError(
+      409,
+      "invalid_refund_transition",
+      `A ${from.toLowerCase()} refund cannot be marked ${to.toLowerCase()}.`,
+      { from, to, next: nextRefundStatus[from] }
+    );
+  }
+};
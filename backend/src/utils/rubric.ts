@@ -0,0 +1,198 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db/prisma";
+import { HttpError } from "./httpError";
+
+type Client = Prisma.TransactionClient;
+
+export const rubricCriterionSelect = {
+  id: true,
+  label: true,
+  description: true,
+  weight: true,
+  scaleMin: true,
+  scaleMax: true,
+  sortOrder: true,
+} as const;
+
+export type RubricCriterionSummary = Prisma.RubricCriterionGetPayload<{
+  select: typeof rubricCriterionSelect;
+}>;
+
+export type ScoreSummary = {
+  count: number;
+  mean: number | null;
+  spread: number | null;
+  hidden: boolean;
+};
+
+export const getRubricCriteria = (cycleId: string) =>
+  prisma.rubricCriterion.findMany({
+    where: { cycleId, archivedAt: null },
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+    select: rubricCriterionSelect,
+  });
+
+export const parseRubricScores = (
+  criteria: RubricCriterionSummary[],
+  scores: Record<string, number>
+) => {
+  if (criteria.length === 0) {
+    throw new HttpError(
+      409,
+      "rubric_not_configured",
+      "This cycle has no rubric criteria to score against."
+    );
+  }
+
+  const issues = criteria
+    .filter((criterion) => {
+      const value = scores[criterion.id];
+      return (
+        !Number.isInteger(value) ||
+        value < criterion.scaleMin ||
+        value > criterion.scaleMax
+      );
+    })
+    .map((criterion) => ({
+      path: ["scores", criterion.id],
+      message: `${criterion.label} must be a whole number from ${criterion.scaleMin} to ${criterion.scaleMax}.`,
+    }));
+
+  if (issues.length > 0) {
+    throw new HttpError(
+      400,
+      "validation_error",
+      "Every rubric criterion needs a score within its scale.",
+      { issues }
+    );
+  }
+
+  return Object.fromEntries(
+    criteria.map((criterion) => [criterion.id, scores[criterion.id]])
+  ) as Prisma.InputJsonObject;
+};
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+// Weighted score on a 0–100 scale. Criteria archived after scoring, or added
+// after this review was submitted, are skipped rather than counted as zero.
+export const computeWeightedScore = (
+  criteria: RubricCriterionSummary[],
+  scores: unknown
+) => {
+  const values = (scores ?? {}) as Record<string, unknown>;
+  let total = 0;
+  let weight = 0;
+
+  for (const criterion of criteria) {
+    const value = values[criterion.id];
+    if (typeof value !== "number" || criterion.scaleMax <= criterion.scaleMin) {
+      continue;
+    }
+    total +=
+      (criterion.weight * (value - criterion.scaleMin)) /
+      (criterion.scaleMax - criterion.scaleMin);
+    weight += criterion.weight;
+  }
+
+  return weight > 0 ? roundToTenth((total / weight) * 100) : null;
+};
+
+export const summarizeScores = (values: number[], hidden: boolean): ScoreSummary => {
+  if (values.length === 0 || hidden) {
+    return { count: values.length, mean: null, spread: null, hidden };
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  return {
+    count: values.length,
+    mean: roundToTenth(mean),
+    spread: roundToTenth(Math.sqrt(variance)),
+    hidden,
+  };
+};
+
+// Aggregates for a page of applications. A reviewer only sees the mean and
+// spread for applications they have scored themselves.
+export const summarizeApplicationScores = async (
+  applications: Array<{ id: string; cycleId: string }>,
+  viewerUserId: string
+) => {
+  const cycleIds = [...new Set(applications.map((application) => application.cycleId))];
+  const [criteria, scores] = await Promise.all([
+    prisma.rubricCriterion.findMany({
+      where: { cycleId: { in: cycleIds }, archivedAt: null },
+      select: { ...rubricCriterionSelect, cycleId: true },
+    }),
+    prisma.applicationScore.findMany({
+      where: { applicationId: { in: applications.map((application) => application.id) } },
+      select: { applicationId: true, reviewerUserId: true, scoresJson: true },
+    }),
+  ]);
+
+  const summaries = new Map<string, ScoreSummary>();
+  for (const application of applications) {
+    const cycleCriteria = criteria.filter(
+      (criterion) => criterion.cycleId === application.cycleId
+    );
+    const applicationScores = scores.filter(
+      (score) => score.applicationId === application.id
+    );
+    const values = applicationScores
+      .map((score) => computeWeightedScore(cycleCriteria, score.scoresJson))
+      .filter((value): value is number => value !== null);
+    const hasScored = applicationScores.some(
+      (score) => score.reviewerUserId === viewerUserId
+    );
+    summaries.set(application.id, summarizeScores(values, !hasScored));
+  }
+  return summaries;
+};
+
+// `Application.scoreMean` keeps the unhidden mean so score sorts can page in
+// SQL. It is refreshed whenever a review is saved or the weights it depends
+// on change; new criteria do not affect it since missing values are skipped.
+export const refreshApplicationScoreMeans = async (
+  client: Client,
+  where: Prisma.ApplicationWhereInput
+) => {
+  const applications = await client.application.findMany({
+    where,
+    select: {
+      id: true,
+      cycleId: true,
+      scoreMean: true,
+      scores: { select: { scoresJson: true } },
+    },
+  });
+  const criteria = await client.rubricCriterion.findMany({
+    where: {
+      cycleId: { in: [...new Set(applications.map(({ cycleId }) => cycleId))] },
+      archivedAt: null,
+    },
+    select: { ...rubricCriterionSelect, cycleId: true },
+  });
+
+  const changed = new Map<number | null, string[]>();
+  for (const application of applications) {
+    const cycleCriteria = criteria.filter(
+      (criterion) => criterion.cycleId === application.cycleId
+    );
+    const values = application.scores
+      .map((score) => computeWeightedScore(cycleCriteria, score.scoresJson))
+      .filter((value): value is number => value !== null);
+    const { mean } = summarizeScores(values, false);
+    if (mean !== application.scoreMean) {
+      changed.set(mean, [...(changed.get(mean) ?? []), application.id]);
+    }
+  }
+  for (const [scoreMean, ids] of changed) {
+    await client.application.updateMany({
+      where: { id: { in: ids } },
+      data: { scoreMean },
+    });
+  }
+};
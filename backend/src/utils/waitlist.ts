@@ -0,0 +1,79 @@
+import type { Prisma } from "@prisma/client";
+import { HttpError } from "./httpError";
+
+type CycleCapacity = {
+  id: string;
+  acceptanceCapacity: number | null;
+};
+
+// Row-locks the cycle so acceptance counts and waitlist positions are
+// computed without racing other decisions in the same cycle.
+export const lockRecruitmentCycle = async (
+  tx: Prisma.TransactionClient,
+  cycleId: string
+): Promise<CycleCapacity> => {
+  await tx.$queryRaw`SELECT "id" FROM "RecruitmentCycle" WHERE "id" = ${cycleId} FOR UPDATE`;
+  const cycle = await tx.recruitmentCycle.findUnique({
+    where: { id: cycleId },
+    select: { id: true, acceptanceCapacity: true },
+  });
+  if (!cycle) {
+    throw new HttpError(404, "cycle_not_found", "Recruitment cycle not found.");
+  }
+  return cycle;
+};
+
+export const countAcceptedApplications = (
+  tx: Prisma.TransactionClient,
+  cycleId: string
+) => tx.application.count({ where: { cycleId, status: "ACCEPTED" } });
+
+export const ensureAcceptanceCapacity = async (
+  tx: Prisma.TransactionClient,
+  cycle: CycleCapacity
+) => {
+  if (cycle.acceptanceCapacity == null) {
+    return;
+  }
+
+  const acceptedCount = await countAcceptedApplications(tx, cycle.id);
+  if (acceptedCount >= cycle.acceptanceCapacity) {
+    throw new HttpError(
+      409,
+      "capacity_reached",
+      "The acceptance capacity for this cycle has been reached.",
+      { acceptanceCapacity: cycle.acceptanceCapacity, acceptedCount }
+    );
+  }
+};
+
+export const getNextWaitlistPosition = async (
+  tx: Prisma.TransactionClient,
+  cycleId: string
+) => {
+  const result = await tx.application.aggregate({
+    where: { cycleId, status: "WAITLISTED" },
+    _max: { waitlistPosition: true },
+  });
+  return (result._max.waitlistPosition ?? 0) + 1;
+};
+
+// Positions keep gaps when applicants leave the waitlist, so the displayed
+// place in line is the number of applicants ahead plus one.
+export const getWaitlistRank = async (
+  tx: Prisma.TransactionClient,
+  application: { cycleId: string; waitlistPosition: number | null }
+) => {
+  if (application.waitlistPosition == null) {
+    return null;
+  }
+
+  const ahead = await tx.application.count({
+    where: {
+      cycleId: application.cycleId,
+      status: "WAITLISTED",
+      waitlistPosition: { lt: application.waitlistPosition },
+    },
+  });
+  return ahead + 1;
+};
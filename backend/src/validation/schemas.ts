@@ -2,7 +2,7 @@ import { z } from "zod";
 import {
   paymentProofAllowedMimeTypes,
   paymentProofMaxBytes,
-} from "../storage/minio";
+} from "../storage/paymentProofs";
 
 export const onboardingSchema = z.object({
   answers: z
@@ -18,60 +18,119 @@ const answersSchema = z
     message: "Answers must be an object.",
   });
 
-const optionalUrlSchema = z
-  .string()
-  .trim()
-  .url()
-  .or(z.literal(""))
-  .optional()
-  .transform((value) => {
-    if (!value) {
-      return null;
-    }
-    return value;
-  });
-
-export const applicationAnswersSchema = z.object({
-  description: z.string().trim().max(1000).optional().nullable(),
-  email: z.string().trim().email(),
-  fullName: z.string().trim().min(1).max(200),
-  universityAndBranch: z.string().trim().min(1).max(200),
-  currentYearLevelAndProgram: z.string().trim().min(1).max(200),
-  facebookLink: z.string().trim().url(),
-  resumeOrCv: z.string().trim().min(3).max(2000),
-  linkedInLink: optionalUrlSchema,
-  hobbiesAndInterests: z.string().trim().min(1).max(1000),
-  personalWhy: z.string().trim().min(1).max(4000),
-  currentBuildingOrWantToBuild: z.string().trim().min(1).max(4000),
-  whyAsesManila: z.string().trim().min(1).max(4000),
-  oneToTwoYearVision: z.string().trim().min(1).max(4000),
-  fiveYearVision: z.string().trim().min(1).max(4000),
-  uniqueAboutYou: z.string().trim().min(1).max(4000),
-  memberType: z.enum(["NEW", "RETURNING"]),
-  universityType: z.enum(["PUBLIC", "PRIVATE"]),
-  amountPaid: z.coerce.number().positive(),
-  referenceNumber: z.string().trim().min(1).max(200),
-});
-
 export const applicationSubmitSchema = z.object({
-  answers: applicationAnswersSchema,
+  answers: answersSchema,
 });
 
 export const applicationReapplySchema = z.object({
-  answers: applicationAnswersSchema,
+  answers: answersSchema,
 });
 
 export const applicationDraftSaveSchema = z.object({
   answers: answersSchema,
 });
 
+export const applicationWithdrawSchema = z.object({
+  reason: z.string().trim().max(1000).optional().nullable(),
+});
+
 export const paymentProofUploadUrlSchema = z.object({
   contentType: z.enum(paymentProofAllowedMimeTypes as [string, ...string[]]),
   contentLength: z.number().int().positive().max(paymentProofMaxBytes),
 });
 
+export const localStorageObjectQuerySchema = z.object({
+  expires: z.coerce.number().int(),
+  signature: z.string().min(1),
+});
+
+export const localStorageUploadFieldsSchema = z.object({
+  key: z.string().min(1),
+  "Content-Type": z.string().min(1),
+  contentLength: z.coerce.number().int().nonnegative(),
+  expires: z.coerce.number().int(),
+  signature: z.string().min(1),
+});
+
+export const paymentProofConfirmSchema = z.object({
+  objectKey: z.string().trim().min(1).max(512),
+});
+
+export const paymentVerifySchema = z.object({
+  overrideAmountMismatch: z.boolean().optional().default(false),
+  acknowledgeDuplicatePayment: z.boolean().optional().default(false),
+});
+
+export const membershipFeesUpdateSchema = z.object({
+  fees: z
+    .array(
+      z.object({
+        memberType: z.string().trim().min(1).max(50),
+        universityType: z.string().trim().min(1).max(50),
+        amount: z.number().nonnegative().max(1_000_000).multipleOf(0.01),
+      })
+    )
+    .min(1)
+    .max(50)
+    .refine(
+      (fees) =>
+        new Set(fees.map((fee) => `${fee.memberType}:${fee.universityType}`))
+          .size === fees.length,
+      { message: "Each member and university type pair can only appear once." }
+    ),
+});
+
+export const paymentRejectSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+});
+
+const statementColumnSchema = z.string().trim().min(1).max(200).optional();
+
+export const paymentReconciliationPreviewSchema = z.object({
+  csv: z.string().min(1).max(900_000),
+  columns: z
+    .object({
+      date: statementColumnSchema,
+      amount: statementColumnSchema,
+      reference: statementColumnSchema,
+    })
+    .optional(),
+});
+
+export const paymentReconciliationConfirmSchema = z.object({
+  matches: z
+    .array(
+      z.object({
+        applicationId: z.string().uuid(),
+        reference: z.string().trim().min(1).max(200),
+        amount: z.number().nonnegative(),
+        date: z.string().trim().max(100).nullable().optional(),
+      })
+    )
+    .min(1)
+    .max(500),
+});
+
+export const refundCreateSchema = z.object({
+  amount: z.number().positive().max(1_000_000).multipleOf(0.01),
+  method: z.string().trim().min(1).max(100),
+  reference: z.string().trim().min(1).max(200).optional(),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const refundAdvanceSchema = z.object({
+  status: z.enum(["APPROVED", "SENT"]),
+  reference: z.string().trim().min(1).max(200).optional(),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const refundsQuerySchema = z.object({
+  cycleId: z.string().uuid().optional(),
+  status: z.enum(["REQUESTED", "APPROVED", "SENT"]).optional(),
+});
+
 export const applicationDecisionSchema = z.object({
-  status: z.enum(["ACCEPTED", "REJECTED"]),
+  status: z.enum(["ACCEPTED", "REJECTED", "WAITLISTED"]),
   decisionNote: z
     .string()
     .trim()
@@ -80,6 +139,48 @@ export const applicationDecisionSchema = z.object({
     .nullable(),
 });
 
+// Tags are free-form labels, compared case-insensitively.
+export const applicationTagSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(40)
+  .transform((value) => value.toLowerCase());
+
+const bulkApplicationIdsSchema = z
+  .array(z.string().uuid())
+  .min(1)
+  .max(200)
+  .refine((ids) => new Set(ids).size === ids.length, {
+    message: "Application ids must be unique.",
+  });
+
+const bulkDecisionNoteSchema = z.string().trim().max(2000).optional().nullable();
+
+// Amount and duplicate overrides are not available in bulk; those
+// applications fail with their usual codes and are verified one by one.
+export const applicationBulkActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("verify_payment"),
+    applicationIds: bulkApplicationIdsSchema,
+  }),
+  z.object({
+    action: z.literal("accept"),
+    applicationIds: bulkApplicationIdsSchema,
+    decisionNote: bulkDecisionNoteSchema,
+  }),
+  z.object({
+    action: z.literal("reject"),
+    applicationIds: bulkApplicationIdsSchema,
+    decisionNote: bulkDecisionNoteSchema,
+  }),
+  z.object({
+    action: z.literal("tag"),
+    applicationIds: bulkApplicationIdsSchema,
+    tag: applicationTagSchema,
+  }),
+]);
+
 export const uuidParamSchema = z.object({
   id: z.string().uuid(),
 });
@@ -87,3 +188,282 @@ export const uuidParamSchema = z.object({
 export const userIdParamSchema = z.object({
   userId: z.string().uuid(),
 });
+
+export const recruitmentCycleCreateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    opensAt: z.coerce.date(),
+    closesAt: z.coerce.date().optional().nullable(),
+    isActive: z.boolean().optional(),
+    acceptanceCapacity: z.number().int().min(1).optional().nullable(),
+    blindReview: z.boolean().optional(),
+  })
+  .refine((value) => !value.closesAt || value.closesAt > value.opensAt, {
+    message: "closesAt must be after opensAt.",
+    path: ["closesAt"],
+  });
+
+export const recruitmentCycleUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  opensAt: z.coerce.date().optional(),
+  closesAt: z.coerce.date().optional().nullable(),
+  isActive: z.boolean().optional(),
+  acceptanceCapacity: z.number().int().min(1).optional().nullable(),
+  blindReview: z.boolean().optional(),
+});
+
+// Shared by the application list and its export.
+const adminApplicationFilterFields = {
+  cycleId: z.string().uuid().optional(),
+  includeWithdrawn: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  assignedTo: z
+    .union([z.enum(["me", "unassigned"]), z.string().uuid()])
+    .optional(),
+  status: z
+    .enum(["PENDING", "INTERVIEW", "ACCEPTED", "REJECTED", "WAITLISTED", "WITHDRAWN"])
+    .optional(),
+  paymentVerified: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value === "true")),
+  memberType: z.string().trim().min(1).max(50).optional(),
+  universityType: z.string().trim().min(1).max(50).optional(),
+  submittedFrom: z.coerce.date().optional(),
+  submittedTo: z.coerce.date().optional(),
+  reviewedBy: z.union([z.literal("me"), z.string().uuid()]).optional(),
+  tag: applicationTagSchema.optional(),
+};
+
+const isSubmittedRangeOrdered = (value: {
+  submittedFrom?: Date;
+  submittedTo?: Date;
+}) =>
+  !value.submittedFrom ||
+  !value.submittedTo ||
+  value.submittedFrom <= value.submittedTo;
+
+const submittedRangeMessage = {
+  message: "submittedFrom must be before submittedTo.",
+  path: ["submittedTo"],
+};
+
+export const adminApplicationsQuerySchema = z
+  .object({
+    ...adminApplicationFilterFields,
+    sort: z.enum(["newest", "oldest", "score_desc", "score_asc"]).optional(),
+    cursor: z.string().min(1).max(500).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional().default(25),
+  })
+  .refine(isSubmittedRangeOrdered, submittedRangeMessage);
+
+// Score order depends on what the viewer has scored, so exports stream by date only.
+export const adminApplicationExportQuerySchema = z
+  .object({
+    ...adminApplicationFilterFields,
+    format: z.enum(["csv", "xlsx"]).optional().default("csv"),
+    sort: z.enum(["newest", "oldest"]).optional(),
+  })
+  .refine(isSubmittedRangeOrdered, submittedRangeMessage);
+
+export const adminApplicationSearchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  cycleId: z.string().uuid().optional(),
+  includeWithdrawn: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+});
+
+export const adminUsersQuerySchema = z.object({
+  cycleId: z.string().uuid().optional(),
+  role: z.enum(["MEMBER", "ADMIN"]).optional(),
+});
+
+export const userRoleUpdateSchema = z.object({
+  role: z.enum(["MEMBER", "ADMIN"]),
+});
+
+export const reviewerWorkloadQuerySchema = z.object({
+  cycleId: z.string().uuid().optional(),
+});
+
+export const applicationAssignmentSchema = z.object({
+  reviewerUserId: z.string().uuid().nullable(),
+});
+
+export const assignmentDistributeSchema = z.object({
+  strategy: z.enum(["round_robin", "least_loaded"]),
+  reviewerUserIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
+export const formQuestionTypes = [
+  "short_text",
+  "long_text",
+  "email",
+  "url",
+  "select",
+  "number",
+] as const;
+
+export const formQuestionSchema = z
+  .object({
+    id: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z][A-Za-z0-9]*$/, {
+        message: "Question ids must be alphanumeric and start with a letter.",
+      })
+      .max(64),
+    label: z.string().trim().min(1).max(300),
+    type: z.enum(formQuestionTypes),
+    required: z.boolean().default(true),
+    helpText: z.string().trim().max(1000).optional(),
+    placeholder: z.string().trim().max(200).optional(),
+    width: z.enum(["full", "half"]).default("full"),
+    minLength: z.number().int().nonnegative().optional(),
+    maxLength: z.number().int().positive().max(20000).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    options: z
+      .array(
+        z.object({
+          value: z.string().trim().min(1).max(100),
+          label: z.string().trim().min(1).max(200),
+        })
+      )
+      .optional(),
+  })
+  .refine((value) => value.type !== "select" || (value.options?.length ?? 0) > 0, {
+    message: "Select questions need at least one option.",
+    path: ["options"],
+  });
+
+export const formSectionSchema = z.object({
+  id: z.string().trim().min(1).max(64),
+  title: z.string().trim().min(1).max(100),
+  hint: z.string().trim().max(1000).optional(),
+  includesPaymentProof: z.boolean().default(false),
+  questions: z.array(formQuestionSchema),
+});
+
+export const formSectionsSchema = z
+  .array(formSectionSchema)
+  .min(1)
+  .superRefine((sections, ctx) => {
+    const seen = new Set<string>();
+    sections.forEach((section, sectionIndex) => {
+      section.questions.forEach((question, questionIndex) => {
+        if (seen.has(question.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Duplicate question id "${question.id}".`,
+            path: [sectionIndex, "questions", questionIndex, "id"],
+          });
+        }
+        seen.add(question.id);
+      });
+    });
+  });
+
+export const formDefinitionCreateSchema = z.object({
+  sections: formSectionsSchema,
+  publish: z.boolean().optional(),
+});
+
+export const applicationCommentParamSchema = z.object({
+  id: z.string().uuid(),
+  commentId: z.string().uuid(),
+});
+
+export const applicationCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+export const formVersionParamSchema = z.object({
+  id: z.string().uuid(),
+  version: z.coerce.number().int().positive(),
+});
+
+export type FormQuestion = z.infer<typeof formQuestionSchema>;
+export type FormSection = z.infer<typeof formSectionSchema>;
+export type ApplicationBulkAction = z.infer<typeof applicationBulkActionSchema>;
+
+const interviewSlotFields = {
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  capacity: z.number().int().min(1).max(50),
+  location: z.string().trim().max(300).optional().nullable(),
+  // Written verbatim into `.ics` files, so only plain http(s) links pass.
+  videoUrl: z
+    .string()
+    .trim()
+    .url()
+    .max(500)
+    .refine((value) => /^https?:\/\/[^\s\x00-\x1f\x7f]+$/i.test(value), {
+      message: "Video link must be an http or https URL without spaces.",
+    })
+    .optional()
+    .nullable(),
+};
+
+export const interviewSlotCreateSchema = z
+  .object({
+    cycleId: z.string().uuid().optional(),
+    ...interviewSlotFields,
+  })
+  .refine((value) => value.endsAt > value.startsAt, {
+    message: "endsAt must be after startsAt.",
+    path: ["endsAt"],
+  })
+  .refine((value) => Boolean(value.location || value.videoUrl), {
+    message: "Provide a location or a video link.",
+    path: ["location"],
+  });
+
+export const interviewSlotUpdateSchema = z.object({
+  startsAt: interviewSlotFields.startsAt.optional(),
+  endsAt: interviewSlotFields.endsAt.optional(),
+  capacity: interviewSlotFields.capacity.optional(),
+  location: interviewSlotFields.location,
+  videoUrl: interviewSlotFields.videoUrl,
+});
+
+export const interviewSlotsQuerySchema = z.object({
+  cycleId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const interviewBookingSchema = z.object({
+  slotId: z.string().uuid(),
+});
+
+export const rubricCriterionCreateSchema = z
+  .object({
+    label: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(500).optional().nullable(),
+    weight: z.number().positive().max(10).default(1),
+    scaleMin: z.number().int().min(0).max(100).default(1),
+    scaleMax: z.number().int().min(1).max(100).default(5),
+    sortOrder: z.number().int().optional(),
+  })
+  .refine((value) => value.scaleMax > value.scaleMin, {
+    message: "scaleMax must be greater than scaleMin.",
+    path: ["scaleMax"],
+  });
+
+export const rubricCriterionUpdateSchema = z.object({
+  label: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).optional().nullable(),
+  weight: z.number().positive().max(10).optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+export const applicationScoreSchema = z.object({
+  scores: z.record(z.number()),
+  comment: z.string().trim().max(2000).optional().nullable(),
+});
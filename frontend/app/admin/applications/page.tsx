@@ -2,14 +2,53 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import {
+  adminApplicationsExportUrl,
+  advanceAdminRefund,
+  assignAdminApplication,
+  createAdminApplicationComment,
+  createAdminApplicationRefund,
   decideAdminApplication,
+  deleteAdminApplicationComment,
+  distributeAdminAssignments,
   getAdminApplication,
+  getAdminApplicationEvents,
+  getAdminCycleFees,
+  getAdminCycleWaitlist,
+  getAdminReviewers,
+  adminInterviewBookingIcsUrl,
   getSession,
+  inviteAdminApplicationToInterview,
+  listAdminApplicationComments,
   listAdminApplications,
+  listAdminCycles,
+  promoteAdminCycleWaitlist,
+  rejectAdminApplicationPayment,
+  runAdminApplicationBulkAction,
+  scoreAdminApplication,
+  searchAdminApplications,
+  updateAdminApplicationComment,
+  updateAdminCycle,
   verifyAdminApplicationPayment,
+  type AdminApplicationSort,
 } from "@/lib/api/client";
-import type { AdminApplicationDetail, AdminApplicationListItem } from "@/lib/api/types";
-import { labelByField } from "@/lib/application/schema";
+import type {
+  AdminApplicationBulkAction,
+  AdminApplicationBulkResult,
+  AdminApplicationComment,
+  AdminApplicationCounts,
+  AdminApplicationDetail,
+  AdminApplicationEvent,
+  AdminApplicationListItem,
+  AdminApplicationSearchResult,
+  AdminCycleWaitlist,
+  AdminPaymentProof,
+  AdminRecruitmentCycle,
+  AdminReviewerWorkload,
+  PaymentAmountCheck,
+  RecruitmentCycleSummary,
+  RefundStatus,
+} from "@/lib/api/types";
+import { getFormQuestions } from "@/lib/application/schema";
 import styles from "./page.module.css";
 
 const API_ORIGIN = process.env.NEXT_PUBLIC_API_ORIGIN ?? "http://localhost:4000";
@@ -33,8 +72,39 @@ type StatusKey = AdminApplicationListItem["status"];
 const statusConfig: Record<StatusKey, { label: string; className: string }> = {
   DRAFT: { label: "Draft", className: "statusDraft" },
   PENDING: { label: "Pending", className: "statusPending" },
+  INTERVIEW: { label: "Interview", className: "statusInterview" },
   REJECTED: { label: "Rejected", className: "statusRejected" },
+  WAITLISTED: { label: "Waitlisted", className: "statusWaitlisted" },
   ACCEPTED: { label: "Accepted", className: "statusAccepted" },
+  WITHDRAWN: { label: "Withdrawn", className: "statusWithdrawn" },
+};
+
+const eventLabels: Record<AdminApplicationEvent["type"], string> = {
+  STARTED: "Started application",
+  DRAFT_SAVED: "Saved draft",
+  PAYMENT_PROOF_UPLOADED: "Uploaded payment proof",
+  SUBMITTED: "Submitted",
+  REAPPLIED: "Resubmitted",
+  PAYMENT_VERIFIED: "Verified payment",
+  PAYMENT_REJECTED: "Rejected payment proof",
+  DECIDED: "Decision recorded",
+  WITHDRAWN: "Withdrew application",
+  INTERVIEW_INVITED: "Invited to interview",
+  INTERVIEW_BOOKED: "Booked interview",
+  INTERVIEW_RESCHEDULED: "Rescheduled interview",
+  INTERVIEW_CANCELLED: "Cancelled interview",
+  WAITLIST_PROMOTED: "Promoted from waitlist",
+  REVIEWER_ASSIGNED: "Reviewer assignment changed",
+  REFUND_REQUESTED: "Requested refund",
+  REFUND_APPROVED: "Approved refund",
+  REFUND_SENT: "Sent refund",
+  TAGGED: "Added a tag",
+};
+
+const decisionMessages: Record<"ACCEPTED" | "REJECTED" | "WAITLISTED", string> = {
+  ACCEPTED: "Application accepted.",
+  REJECTED: "Application rejected.",
+  WAITLISTED: "Application waitlisted.",
 };
 
 const formatAnswerValue = (value: unknown) => {
@@ -48,33 +118,237 @@ const formatAnswerValue = (value: unknown) => {
   }
 };
 
-const fieldOrder = Object.keys(labelByField);
+const bulkActionLabels: Record<AdminApplicationBulkAction, string> = {
+  verify_payment: "Verify payment",
+  accept: "Accept",
+  reject: "Reject",
+  tag: "Add tag",
+};
+
+const sortLabels: Record<AdminApplicationSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  score_desc: "Highest score",
+  score_asc: "Lowest score",
+};
+
+const formatPaymentAmount = (check: PaymentAmountCheck) => {
+  if (check.amountPaid === null) return "—";
+  if (check.expectedFee === null) return `Php ${check.amountPaid} (no fee set)`;
+  if (check.status === "match") return `Php ${check.amountPaid}`;
+  const gap = Math.abs(check.difference ?? 0);
+  return `Php ${check.amountPaid} · ${check.status === "underpaid" ? `${gap} short of` : `${gap} over`} Php ${check.expectedFee}`;
+};
+
+const proofStatusLabels: Record<AdminPaymentProof["status"], string> = {
+  PENDING: "Pending",
+  CONFIRMED: "Confirmed",
+  SUPERSEDED: "Replaced",
+  INVALID: "Rejected by file check",
+  REJECTED: "Rejected by admin",
+};
+
+const refundStatusLabels: Record<RefundStatus, string> = {
+  REQUESTED: "Requested",
+  APPROVED: "Approved",
+  SENT: "Sent",
+};
+
+const emptyRefundForm = { amount: "", method: "", reference: "", note: "" };
+
+const formatBytes = (value: number) => {
+  if (value <= 0) return "size unknown";
+  if (value >= 1024 * 1024) return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(value / 1024))} KB`;
+};
+
+const formatScore = (value: number | null) => (value == null ? "—" : value.toFixed(1));
 
-type FilterStatus = "ALL" | StatusKey;
+type FilterStatus = "ALL" | Exclude<StatusKey, "DRAFT">;
+
+const pageSize = 25;
+
+// Date inputs are local calendar days; the range covers both whole days.
+const toDayStart = (value: string) => (value ? new Date(`${value}T00:00:00`).toISOString() : undefined);
+const toDayEnd = (value: string) => (value ? new Date(`${value}T23:59:59.999`).toISOString() : undefined);
 
 export default function AdminApplicationsPage() {
   const [loading, setLoading] = useState(true);
   const [authState, setAuthState] = useState<"admin" | "signed_out" | "forbidden">("signed_out");
   const [items, setItems] = useState<AdminApplicationListItem[]>([]);
+  const [counts, setCounts] = useState<AdminApplicationCounts | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [detail, setDetail] = useState<AdminApplicationDetail | null>(null);
+  const [events, setEvents] = useState<AdminApplicationEvent[]>([]);
   const [decisionNote, setDecisionNote] = useState("");
+  const [paymentRejectReason, setPaymentRejectReason] = useState("");
+  const [overrideAmount, setOverrideAmount] = useState(false);
+  const [acknowledgeDuplicate, setAcknowledgeDuplicate] = useState(false);
+  const [refundForm, setRefundForm] = useState(emptyRefundForm);
   const [isBusy, setIsBusy] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [filterStatus, setFilterStatus] = useState<FilterStatus>("ALL");
+  const [cycles, setCycles] = useState<AdminRecruitmentCycle[]>([]);
+  const [cycleFilter, setCycleFilter] = useState("");
+  const [showWithdrawn, setShowWithdrawn] = useState(false);
+  const [listCycle, setListCycle] = useState<RecruitmentCycleSummary | null>(null);
+  const [waitlist, setWaitlist] = useState<AdminCycleWaitlist | null>(null);
+  const [capacityInput, setCapacityInput] = useState("");
+  const [sortOrder, setSortOrder] = useState<AdminApplicationSort>("newest");
+  const [scoreInputs, setScoreInputs] = useState<Record<string, string>>({});
+  const [scoreComment, setScoreComment] = useState("");
+  const [queueFilter, setQueueFilter] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<AdminApplicationSearchResult[] | null>(null);
+  const [paymentFilter, setPaymentFilter] = useState<"" | "verified" | "unverified">("");
+  const [memberTypeFilter, setMemberTypeFilter] = useState("");
+  const [universityTypeFilter, setUniversityTypeFilter] = useState("");
+  const [submittedFrom, setSubmittedFrom] = useState("");
+  const [submittedTo, setSubmittedTo] = useState("");
+  const [reviewedByFilter, setReviewedByFilter] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [bulkSelection, setBulkSelection] = useState<string[]>([]);
+  const [bulkTag, setBulkTag] = useState("");
+  const [bulkFailures, setBulkFailures] = useState<AdminApplicationBulkResult[]>([]);
+  const [feeOptions, setFeeOptions] = useState<{ memberTypes: string[]; universityTypes: string[] }>({
+    memberTypes: [],
+    universityTypes: [],
+  });
+  const [workload, setWorkload] = useState<AdminReviewerWorkload | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [comments, setComments] = useState<AdminApplicationComment[]>([]);
+  const [commentDraft, setCommentDraft] = useState("");
+  const [editingComment, setEditingComment] = useState<{ id: string; body: string } | null>(null);
+  const [distributeStrategy, setDistributeStrategy] = useState<"round_robin" | "least_loaded">("least_loaded");
+
+  const listOptions = useMemo(
+    () => ({
+      cycleId: cycleFilter || undefined,
+      includeWithdrawn: showWithdrawn,
+      sort: sortOrder,
+      assignedTo: queueFilter || undefined,
+      status: filterStatus === "ALL" ? undefined : filterStatus,
+      paymentVerified: paymentFilter ? paymentFilter === "verified" : undefined,
+      memberType: memberTypeFilter || undefined,
+      universityType: universityTypeFilter || undefined,
+      submittedFrom: toDayStart(submittedFrom),
+      submittedTo: toDayEnd(submittedTo),
+      reviewedBy: reviewedByFilter || undefined,
+      tag: tagFilter.trim() || undefined,
+      limit: pageSize,
+    }),
+    [
+      cycleFilter,
+      showWithdrawn,
+      sortOrder,
+      queueFilter,
+      filterStatus,
+      paymentFilter,
+      memberTypeFilter,
+      universityTypeFilter,
+      submittedFrom,
+      submittedTo,
+      reviewedByFilter,
+      tagFilter,
+    ]
+  );
+
+  // A selection only makes sense against the list it was made from.
+  useEffect(() => {
+    setBulkSelection([]);
+    setBulkFailures([]);
+  }, [listOptions]);
 
   const refreshList = useCallback(async () => {
-    const response = await listAdminApplications();
+    const response = await listAdminApplications(listOptions);
     setItems(response.data);
+    setCounts(response.counts);
+    setNextCursor(response.pageInfo.nextCursor);
+    setListCycle(response.cycle);
+    const workloadResponse = await getAdminReviewers(cycleFilter || undefined);
+    setWorkload(workloadResponse.data);
+    if (response.cycle) {
+      const [waitlistResponse, feesResponse] = await Promise.all([
+        getAdminCycleWaitlist(response.cycle.id),
+        getAdminCycleFees(response.cycle.id),
+      ]);
+      setWaitlist(waitlistResponse.data);
+      setCapacityInput(waitlistResponse.data.cycle.acceptanceCapacity?.toString() ?? "");
+      setFeeOptions({
+        memberTypes: [...new Set(feesResponse.data.fees.map((fee) => fee.memberType))],
+        universityTypes: [...new Set(feesResponse.data.fees.map((fee) => fee.universityType))],
+      });
+    } else {
+      setWaitlist(null);
+      setCapacityInput("");
+    }
     return response.data;
-  }, []);
+  }, [listOptions]);
+
+  const runSearch = async () => {
+    const query = searchQuery.trim();
+    if (query.length < 2) { setSearchResults(null); return; }
+    setIsBusy(true); setErrorMessage(null);
+    try {
+      const response = await searchAdminApplications(query, {
+        cycleId: cycleFilter || undefined,
+        includeWithdrawn: showWithdrawn,
+      });
+      setSearchResults(response.data);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Search failed.");
+    } finally { setIsBusy(false); }
+  };
+
+  const clearSearch = () => {
+    setSearchQuery("");
+    setSearchResults(null);
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsBusy(true); setErrorMessage(null);
+    try {
+      const response = await listAdminApplications({ ...listOptions, cursor: nextCursor });
+      setItems((current) => [...current, ...response.data]);
+      setCounts(response.counts);
+      setNextCursor(response.pageInfo.nextCursor);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load more applications.");
+    } finally { setIsBusy(false); }
+  };
 
   const loadDetail = useCallback(async (id: string) => {
-    const response = await getAdminApplication(id);
+    const [response, eventsResponse, commentsResponse] = await Promise.all([
+      getAdminApplication(id),
+      getAdminApplicationEvents(id),
+      listAdminApplicationComments(id),
+    ]);
     setSelectedId(id);
     setDetail(response.data);
+    setEvents(eventsResponse.data);
+    setComments(commentsResponse.data);
     setDecisionNote(response.data.decisionNote ?? "");
+    setPaymentRejectReason("");
+    setOverrideAmount(false);
+    setAcknowledgeDuplicate(false);
+    setRefundForm({
+      ...emptyRefundForm,
+      amount: response.data.paymentAmount.amountPaid?.toString() ?? "",
+      reference: response.data.refund?.reference ?? "",
+    });
+    const mine = response.data.scoring.mine;
+    setScoreInputs(
+      Object.fromEntries(
+        response.data.scoring.criteria.map((criterion) => [
+          criterion.id,
+          mine?.scores[criterion.id]?.toString() ?? "",
+        ])
+      )
+    );
+    setScoreComment(mine?.comment ?? "");
   }, []);
 
   const loadPage = useCallback(async () => {
@@ -85,7 +359,9 @@ export default function AdminApplicationsPage() {
       if (!session.user) { setAuthState("signed_out"); return; }
       if (session.user.role !== "ADMIN") { setAuthState("forbidden"); return; }
       setAuthState("admin");
-      const applications = await refreshList();
+      setCurrentUserId(session.user.id);
+      const [cyclesResponse, applications] = await Promise.all([listAdminCycles(), refreshList()]);
+      setCycles(cyclesResponse.data);
       if (applications.length === 0) { setSelectedId(null); setDetail(null); return; }
       const targetId = selectedId && applications.some((item) => item.id === selectedId)
         ? selectedId
@@ -101,30 +377,29 @@ export default function AdminApplicationsPage() {
 
   useEffect(() => { void loadPage(); }, [loadPage]);
 
-  /* ── Stats ─────────────────────────────────── */
-  const stats = useMemo(() => {
-    const counts = { total: items.length, pending: 0, accepted: 0, rejected: 0, unverified: 0 };
-    for (const item of items) {
-      if (item.status === "PENDING") counts.pending++;
-      if (item.status === "ACCEPTED") counts.accepted++;
-      if (item.status === "REJECTED") counts.rejected++;
-      if (!item.paymentVerifiedAt) counts.unverified++;
-    }
-    return counts;
-  }, [items]);
+  useEffect(() => {
+    setCommentDraft("");
+    setEditingComment(null);
+  }, [selectedId]);
 
-  /* ── Filtered list ─────────────────────────── */
-  const filteredItems = useMemo(() => {
-    if (filterStatus === "ALL") return items;
-    return items.filter((item) => item.status === filterStatus);
-  }, [items, filterStatus]);
+  /* ── Stats ─────────────────────────────────── */
+  const stats = {
+    total: counts?.total ?? 0,
+    pending: counts?.byStatus.PENDING ?? 0,
+    interview: counts?.byStatus.INTERVIEW ?? 0,
+    accepted: counts?.byStatus.ACCEPTED ?? 0,
+    waitlisted: counts?.byStatus.WAITLISTED ?? 0,
+    rejected: counts?.byStatus.REJECTED ?? 0,
+    unverified: counts?.paymentUnverified ?? 0,
+  };
+  const matchingCount = filterStatus === "ALL" ? stats.total : counts?.byStatus[filterStatus] ?? 0;
 
   const selectableAnswers = useMemo(() => {
     if (!detail) return [] as Array<{ key: string; label: string; value: unknown }>;
     const answers = detail.answers ?? detail.answersJson ?? {};
-    const known = fieldOrder
-      .filter((key) => key in answers)
-      .map((key) => ({ key, label: labelByField[key as keyof typeof labelByField] ?? key, value: answers[key] }));
+    const known = getFormQuestions(detail.form.sections)
+      .filter((question) => question.id in answers)
+      .map((question) => ({ key: question.id, label: question.label, value: answers[question.id] }));
     const knownSet = new Set(known.map((item) => item.key));
     const unknown = Object.entries(answers)
       .filter(([key]) => !knownSet.has(key))
@@ -136,7 +411,10 @@ export default function AdminApplicationsPage() {
     if (!detail) return;
     setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
     try {
-      await verifyAdminApplicationPayment(detail.id);
+      await verifyAdminApplicationPayment(detail.id, {
+        overrideAmountMismatch: overrideAmount,
+        acknowledgeDuplicatePayment: acknowledgeDuplicate,
+      });
       await refreshList();
       await loadDetail(detail.id);
       setSuccessMessage("Payment verified.");
@@ -145,19 +423,252 @@ export default function AdminApplicationsPage() {
     } finally { setIsBusy(false); }
   };
 
-  const submitDecision = async (status: "ACCEPTED" | "REJECTED") => {
+  const openApplication = async (id: string) => {
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await loadDetail(id);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load application.");
+    } finally { setIsBusy(false); }
+  };
+
+  const rejectPayment = async () => {
+    if (!detail) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await rejectAdminApplicationPayment(detail.id, paymentRejectReason);
+      await refreshList();
+      await loadDetail(detail.id);
+      setSuccessMessage("Payment proof rejected. The applicant can upload a new one.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to reject payment proof.");
+    } finally { setIsBusy(false); }
+  };
+
+  const createRefund = async () => {
+    if (!detail) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await createAdminApplicationRefund(detail.id, {
+        amount: Number(refundForm.amount),
+        method: refundForm.method.trim(),
+        reference: refundForm.reference.trim() || undefined,
+        note: refundForm.note.trim() || undefined,
+      });
+      await loadDetail(detail.id);
+      setSuccessMessage("Refund requested.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to record refund.");
+    } finally { setIsBusy(false); }
+  };
+
+  const advanceRefund = async (status: "APPROVED" | "SENT") => {
+    if (!detail?.refund) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await advanceAdminRefund(detail.refund.id, {
+        status,
+        reference: refundForm.reference.trim() || undefined,
+        note: refundForm.note.trim() || undefined,
+      });
+      await loadDetail(detail.id);
+      setSuccessMessage(status === "APPROVED" ? "Refund approved." : "Refund marked as sent.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to update refund.");
+    } finally { setIsBusy(false); }
+  };
+
+  const inviteToInterview = async () => {
+    if (!detail) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await inviteAdminApplicationToInterview(detail.id);
+      await refreshList();
+      await loadDetail(detail.id);
+      setSuccessMessage("Applicant invited to interview.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to invite applicant to interview.");
+    } finally { setIsBusy(false); }
+  };
+
+  const promoteNext = async () => {
+    if (!listCycle) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await promoteAdminCycleWaitlist(listCycle.id);
+      await refreshList();
+      if (detail) await loadDetail(detail.id);
+      setSuccessMessage("Next waitlisted applicant accepted.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to promote from the waitlist.");
+    } finally { setIsBusy(false); }
+  };
+
+  const distributeQueue = async () => {
+    if (!listCycle) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      const response = await distributeAdminAssignments(listCycle.id, distributeStrategy);
+      await refreshList();
+      setSuccessMessage(
+        response.data.assignedCount === 0
+          ? "No unassigned applications to distribute."
+          : `Assigned ${response.data.assignedCount} application${response.data.assignedCount === 1 ? "" : "s"}.`
+      );
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to distribute applications.");
+    } finally { setIsBusy(false); }
+  };
+
+  const assignReviewer = async (reviewerUserId: string | null) => {
+    if (!detail) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await assignAdminApplication(detail.id, reviewerUserId);
+      await refreshList();
+      await loadDetail(detail.id);
+      setSuccessMessage(reviewerUserId ? "Reviewer assigned." : "Reviewer unassigned.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to update reviewer.");
+    } finally { setIsBusy(false); }
+  };
+
+  const refreshComments = async (applicationId: string) => {
+    const response = await listAdminApplicationComments(applicationId);
+    setComments(response.data);
+  };
+
+  const postComment = async () => {
+    if (!detail || !commentDraft.trim()) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await createAdminApplicationComment(detail.id, commentDraft.trim());
+      await refreshComments(detail.id);
+      setCommentDraft("");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to post comment.");
+    } finally { setIsBusy(false); }
+  };
+
+  const saveCommentEdit = async () => {
+    if (!detail || !editingComment || !editingComment.body.trim()) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await updateAdminApplicationComment(detail.id, editingComment.id, editingComment.body.trim());
+      await refreshComments(detail.id);
+      setEditingComment(null);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to edit comment.");
+    } finally { setIsBusy(false); }
+  };
+
+  const removeComment = async (commentId: string) => {
+    if (!detail) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await deleteAdminApplicationComment(detail.id, commentId);
+      await refreshComments(detail.id);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to delete comment.");
+    } finally { setIsBusy(false); }
+  };
+
+  const toggleBlindReview = async (blindReview: boolean) => {
+    if (!listCycle) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await updateAdminCycle(listCycle.id, { blindReview });
+      await refreshList();
+      if (detail) await loadDetail(detail.id);
+      setSuccessMessage(blindReview ? "Blind review turned on." : "Blind review turned off.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to update blind review.");
+    } finally { setIsBusy(false); }
+  };
+
+  const saveCapacity = async () => {
+    if (!listCycle) return;
+    const trimmed = capacityInput.trim();
+    const acceptanceCapacity = trimmed ? Number(trimmed) : null;
+    if (acceptanceCapacity !== null && (!Number.isInteger(acceptanceCapacity) || acceptanceCapacity < 1)) {
+      setErrorMessage("Capacity must be a whole number of at least 1, or blank for no limit.");
+      return;
+    }
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await updateAdminCycle(listCycle.id, { acceptanceCapacity });
+      await refreshList();
+      setSuccessMessage("Acceptance capacity updated.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to update capacity.");
+    } finally { setIsBusy(false); }
+  };
+
+  const toggleBulkSelection = (id: string, checked: boolean) => {
+    setBulkSelection((current) =>
+      checked ? [...current, id] : current.filter((selected) => selected !== id)
+    );
+  };
+
+  const runBulkAction = async (action: AdminApplicationBulkAction) => {
+    if (bulkSelection.length === 0) return;
+    if (action === "tag" && !bulkTag.trim()) return;
+    if (
+      (action === "accept" || action === "reject") &&
+      !window.confirm(`${action === "accept" ? "Accept" : "Reject"} ${bulkSelection.length} application(s)?`)
+    ) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null); setBulkFailures([]);
+    try {
+      const applicationIds = bulkSelection;
+      const response = await runAdminApplicationBulkAction(
+        action === "tag"
+          ? { action, applicationIds, tag: bulkTag.trim() }
+          : { action, applicationIds }
+      );
+      const failures = response.data.filter((result) => !result.ok);
+      setBulkFailures(failures);
+      setBulkSelection(failures.map((result) => result.applicationId));
+      if (action === "tag" && failures.length === 0) setBulkTag("");
+      await refreshList();
+      if (detail && applicationIds.includes(detail.id)) await loadDetail(detail.id);
+      setSuccessMessage(
+        `${bulkActionLabels[action]}: ${response.summary.succeeded} done` +
+          (response.summary.failed ? `, ${response.summary.failed} failed.` : ".")
+      );
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Bulk action failed.");
+    } finally { setIsBusy(false); }
+  };
+
+  const submitDecision = async (status: "ACCEPTED" | "REJECTED" | "WAITLISTED") => {
     if (!detail) return;
     setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
     try {
       await decideAdminApplication(detail.id, status, decisionNote);
       await refreshList();
       await loadDetail(detail.id);
-      setSuccessMessage(status === "ACCEPTED" ? "Application accepted." : "Application rejected.");
+      setSuccessMessage(decisionMessages[status]);
     } catch (error) {
       setErrorMessage(error instanceof Error ? error.message : "Unable to set application decision.");
     } finally { setIsBusy(false); }
   };
 
+  const submitScore = async () => {
+    if (!detail) return;
+    const scores = Object.fromEntries(
+      Object.entries(scoreInputs).map(([criterionId, value]) => [criterionId, Number(value)])
+    );
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await scoreAdminApplication(detail.id, scores, scoreComment);
+      await refreshList();
+      await loadDetail(detail.id);
+      setSuccessMessage("Score saved.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to save score.");
+    } finally { setIsBusy(false); }
+  };
+
   /* ── Loading state ─────────────────────────── */
   if (loading) {
     return (
@@ -201,6 +712,16 @@ export default function AdminApplicationsPage() {
 
   /* ── Main dashboard ────────────────────────── */
   const detailStatus = detail ? statusConfig[detail.status] : null;
+  const isWithdrawn = detail?.status === "WITHDRAWN";
+  const amountMismatch =
+    detail?.paymentAmount.status === "underpaid" || detail?.paymentAmount.status === "overpaid";
+  const duplicateGroups = detail
+    ? [
+        { label: "Same reference number", applications: detail.paymentDuplicates.reference },
+        { label: "Same receipt image", applications: detail.paymentDuplicates.image },
+      ].filter((group) => group.applications.length > 0)
+    : [];
+  const possibleDuplicate = duplicateGroups.length > 0;
 
   return (
     <main className={styles.page}>
@@ -219,10 +740,18 @@ export default function AdminApplicationsPage() {
           <span className={styles.statNumber}>{stats.pending}</span>
           <span className={styles.statLabel}>Pending</span>
         </div>
+        <div className={`${styles.statItem} ${styles.statInterview}`}>
+          <span className={styles.statNumber}>{stats.interview}</span>
+          <span className={styles.statLabel}>Interview</span>
+        </div>
         <div className={`${styles.statItem} ${styles.statAccepted}`}>
           <span className={styles.statNumber}>{stats.accepted}</span>
           <span className={styles.statLabel}>Accepted</span>
         </div>
+        <div className={`${styles.statItem} ${styles.statWaitlisted}`}>
+          <span className={styles.statNumber}>{stats.waitlisted}</span>
+          <span className={styles.statLabel}>Waitlisted</span>
+        </div>
         <div className={`${styles.statItem} ${styles.statRejected}`}>
           <span className={styles.statNumber}>{stats.rejected}</span>
           <span className={styles.statLabel}>Rejected</span>
@@ -253,49 +782,481 @@ export default function AdminApplicationsPage() {
         <section className={`${styles.panel} ${styles.panelSticky}`}>
           <div className={styles.sidebarHead}>
             <h2 className={styles.sidebarTitle}>Applications</h2>
-            <span className={styles.sidebarCount}>{filteredItems.length}</span>
+            <span className={styles.sidebarCount}>
+              {items.length < matchingCount ? `${items.length} of ${matchingCount}` : matchingCount}
+            </span>
+          </div>
+
+          {/* Export the current filters */}
+          <div className={styles.capacityRow}>
+            <a className={`${styles.btn} ${styles.btnGhost}`} href={adminApplicationsExportUrl("csv", listOptions)}>
+              Export CSV
+            </a>
+            <a className={`${styles.btn} ${styles.btnGhost}`} href={adminApplicationsExportUrl("xlsx", listOptions)}>
+              Export XLSX
+            </a>
+          </div>
+
+          {/* Search */}
+          <form
+            className={styles.capacityRow}
+            onSubmit={(e) => { e.preventDefault(); void runSearch(); }}
+          >
+            <input
+              className={styles.select}
+              type="search"
+              placeholder="Search answers, names, emails"
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                if (!e.target.value.trim()) setSearchResults(null);
+              }}
+              maxLength={200}
+              aria-label="Search applications"
+            />
+            <button
+              type="submit"
+              className={`${styles.btn} ${styles.btnGhost}`}
+              disabled={isBusy || searchQuery.trim().length < 2}
+            >
+              Search
+            </button>
+          </form>
+
+          {searchResults ? (
+            <div className={styles.list}>
+              <div className={styles.capacityRow}>
+                <span className={styles.metaLabel}>
+                  {searchResults.length} result{searchResults.length === 1 ? "" : "s"}
+                </span>
+                <button type="button" className={`${styles.btn} ${styles.btnGhost}`} onClick={clearSearch}>
+                  Clear
+                </button>
+              </div>
+              {searchResults.length === 0 ? (
+                <p className={styles.emptyList}>No applications match.</p>
+              ) : null}
+              {searchResults.map(({ application, matches }) => {
+                const sc = statusConfig[application.status];
+                return (
+                  <button
+                    key={application.id}
+                    type="button"
+                    className={`${styles.listItem} ${selectedId === application.id ? styles.listItemSelected : ""}`}
+                    onClick={() => { void openApplication(application.id); }}
+                  >
+                    <div className={styles.listItemTop}>
+                      <span className={`${styles.statusPill} ${styles[sc.className]}`}>{sc.label}</span>
+                    </div>
+                    <strong className={styles.listItemName}>{application.user.name || "Unnamed"}</strong>
+                    {matches.map((match) => (
+                      <span key={match.questionId} className={styles.searchSnippet}>
+                        <span className={styles.searchSnippetLabel}>{match.label}</span>
+                        {match.segments.map((segment, index) =>
+                          segment.highlighted ? <mark key={index}>{segment.text}</mark> : segment.text
+                        )}
+                      </span>
+                    ))}
+                  </button>
+                );
+              })}
+            </div>
+          ) : null}
+
+          {/* Recruitment cycle */}
+          <select
+            className={styles.select}
+            value={cycleFilter}
+            onChange={(e) => setCycleFilter(e.target.value)}
+            aria-label="Recruitment cycle"
+          >
+            <option value="">Active cycle</option>
+            {cycles.map((cycle) => (
+              <option key={cycle.id} value={cycle.id}>
+                {cycle.name}{cycle.isActive ? " (active)" : ""} — {cycle._count.applications}
+              </option>
+            ))}
+          </select>
+
+          {waitlist ? (
+            <div className={styles.capacityBox}>
+              <div className={styles.capacityRow}>
+                <span className={styles.metaLabel}>Accepted</span>
+                <span className={styles.metaValue}>
+                  {waitlist.acceptedCount}
+                  {waitlist.cycle.acceptanceCapacity != null ? ` / ${waitlist.cycle.acceptanceCapacity}` : " (no cap)"}
+                </span>
+              </div>
+              <div className={styles.capacityRow}>
+                <input
+                  className={styles.capacityInput}
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={capacityInput}
+                  onChange={(e) => setCapacityInput(e.target.value)}
+                  aria-label="Acceptance capacity"
+                  disabled={isBusy}
+                />
+                <button
+                  type="button"
+                  className={`${styles.btn} ${styles.btnGhost}`}
+                  onClick={() => { void saveCapacity(); }}
+                  disabled={isBusy}
+                >
+                  Set cap
+                </button>
+              </div>
+              <div className={styles.capacityRow}>
+                <span className={styles.metaLabel}>
+                  {waitlist.waitlist.length} waitlisted
+                  {waitlist.waitlist[0] ? ` · next: ${waitlist.waitlist[0].user.name || waitlist.waitlist[0].user.email}` : ""}
+                </span>
+                <button
+                  type="button"
+                  className={`${styles.btn} ${styles.btnGhost}`}
+                  onClick={() => { void promoteNext(); }}
+                  disabled={isBusy || waitlist.waitlist.length === 0 || waitlist.remainingCapacity === 0}
+                >
+                  Promote next
+                </button>
+              </div>
+            </div>
+          ) : null}
+
+          {/* Reviewer queue */}
+          <select
+            className={styles.select}
+            value={queueFilter}
+            onChange={(e) => setQueueFilter(e.target.value)}
+            aria-label="Reviewer queue"
+          >
+            <option value="">All reviewers</option>
+            <option value="me">My queue</option>
+            <option value="unassigned">Unassigned</option>
+            {workload?.reviewers.map((reviewer) => (
+              <option key={reviewer.id} value={reviewer.id}>
+                {reviewer.name || reviewer.email}
+              </option>
+            ))}
+          </select>
+
+          {workload && listCycle ? (
+            <div className={styles.capacityBox}>
+              {workload.reviewers.map((reviewer) => (
+                <div key={reviewer.id} className={styles.capacityRow}>
+                  <span className={styles.metaLabel}>{reviewer.name || reviewer.email}</span>
+                  <span className={styles.metaValue}>{reviewer.openCount} open</span>
+                </div>
+              ))}
+              <div className={styles.capacityRow}>
+                <span className={styles.metaLabel}>Unassigned</span>
+                <span className={styles.metaValue}>{workload.unassignedCount}</span>
+              </div>
+              <div className={styles.capacityRow}>
+                <select
+                  className={styles.capacityInput}
+                  value={distributeStrategy}
+                  onChange={(e) => setDistributeStrategy(e.target.value as "round_robin" | "least_loaded")}
+                  aria-label="Distribution strategy"
+                >
+                  <option value="least_loaded">Least loaded</option>
+                  <option value="round_robin">Round robin</option>
+                </select>
+                <button
+                  type="button"
+                  className={`${styles.btn} ${styles.btnGhost}`}
+                  onClick={() => { void distributeQueue(); }}
+                  disabled={isBusy || workload.unassignedCount === 0}
+                >
+                  Distribute
+                </button>
+              </div>
+            </div>
+          ) : null}
+
+          {/* Filters */}
+          <select
+            className={styles.select}
+            value={paymentFilter}
+            onChange={(e) => setPaymentFilter(e.target.value as "" | "verified" | "unverified")}
+            aria-label="Payment"
+          >
+            <option value="">Any payment status</option>
+            <option value="verified">Payment verified</option>
+            <option value="unverified">Payment not verified</option>
+          </select>
+
+          {feeOptions.memberTypes.length > 0 ? (
+            <div className={styles.capacityRow}>
+              <select
+                className={styles.select}
+                value={memberTypeFilter}
+                onChange={(e) => setMemberTypeFilter(e.target.value)}
+                aria-label="Member type"
+              >
+                <option value="">Any member type</option>
+                {feeOptions.memberTypes.map((value) => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+              <select
+                className={styles.select}
+                value={universityTypeFilter}
+                onChange={(e) => setUniversityTypeFilter(e.target.value)}
+                aria-label="University type"
+              >
+                <option value="">Any university</option>
+                {feeOptions.universityTypes.map((value) => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </div>
+          ) : null}
+
+          <div className={styles.capacityRow}>
+            <input
+              className={styles.select}
+              type="date"
+              value={submittedFrom}
+              max={submittedTo || undefined}
+              onChange={(e) => setSubmittedFrom(e.target.value)}
+              aria-label="Submitted from"
+            />
+            <input
+              className={styles.select}
+              type="date"
+              value={submittedTo}
+              min={submittedFrom || undefined}
+              onChange={(e) => setSubmittedTo(e.target.value)}
+              aria-label="Submitted to"
+            />
           </div>
 
+          <select
+            className={styles.select}
+            value={reviewedByFilter}
+            onChange={(e) => setReviewedByFilter(e.target.value)}
+            aria-label="Decided by"
+          >
+            <option value="">Decided by anyone</option>
+            <option value="me">Decided by me</option>
+            {workload?.reviewers.map((reviewer) => (
+              <option key={reviewer.id} value={reviewer.id}>
+                Decided by {reviewer.name || reviewer.email}
+              </option>
+            ))}
+          </select>
+
+          <input
+            className={styles.select}
+            type="search"
+            placeholder="Filter by tag"
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            maxLength={40}
+            aria-label="Filter by tag"
+          />
+
+          <select
+            className={styles.select}
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as AdminApplicationSort)}
+            aria-label="Sort applications"
+          >
+            {(Object.keys(sortLabels) as AdminApplicationSort[]).map((key) => (
+              <option key={key} value={key}>{sortLabels[key]}</option>
+            ))}
+          </select>
+
+          {listCycle ? (
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={listCycle.blindReview}
+                disabled={isBusy}
+                onChange={(e) => { void toggleBlindReview(e.target.checked); }}
+              />
+              Blind review
+            </label>
+          ) : null}
+
+          <label className={styles.toggle}>
+            <input
+              type="checkbox"
+              checked={showWithdrawn}
+              onChange={(e) => {
+                setShowWithdrawn(e.target.checked);
+                if (!e.target.checked && filterStatus === "WITHDRAWN") setFilterStatus("ALL");
+              }}
+            />
+            Show withdrawn
+          </label>
+
           {/* Status filter tabs */}
           <div className={styles.filterTabs}>
-            {(["ALL", "PENDING", "ACCEPTED", "REJECTED", "DRAFT"] as FilterStatus[]).map((key) => (
+            {([
+              "ALL",
+              "PENDING",
+              "INTERVIEW",
+              "ACCEPTED",
+              "WAITLISTED",
+              "REJECTED",
+              ...(showWithdrawn ? ["WITHDRAWN"] : []),
+            ] as FilterStatus[]).map((key) => (
               <button
                 key={key}
                 type="button"
                 className={`${styles.filterTab} ${filterStatus === key ? styles.filterTabActive : ""}`}
                 onClick={() => setFilterStatus(key)}
               >
-                {key === "ALL" ? "All" : statusConfig[key as StatusKey].label}
+                {key === "ALL" ? "All" : statusConfig[key].label}
+                {counts ? ` ${key === "ALL" ? counts.total : counts.byStatus[key]}` : ""}
               </button>
             ))}
           </div>
 
+          {/* Bulk actions */}
+          {items.length > 0 ? (
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={items.every((item) => bulkSelection.includes(item.id))}
+                onChange={(e) => setBulkSelection(e.target.checked ? items.map((item) => item.id) : [])}
+              />
+              Select all loaded
+            </label>
+          ) : null}
+          {bulkSelection.length > 0 ? (
+            <div className={styles.bulkBar}>
+              <span className={styles.metaLabel}>{bulkSelection.length} selected</span>
+              <div className={styles.bulkActions}>
+                {(["verify_payment", "accept", "reject"] as const).map((action) => (
+                  <button
+                    key={action}
+                    type="button"
+                    className={`${styles.btn} ${styles.btnGhost}`}
+                    disabled={isBusy}
+                    onClick={() => { void runBulkAction(action); }}
+                  >
+                    {bulkActionLabels[action]}
+                  </button>
+                ))}
+              </div>
+              <form
+                className={styles.capacityRow}
+                onSubmit={(e) => { e.preventDefault(); void runBulkAction("tag"); }}
+              >
+                <input
+                  className={styles.capacityInput}
+                  placeholder="Tag"
+                  value={bulkTag}
+                  onChange={(e) => setBulkTag(e.target.value)}
+                  maxLength={40}
+                  aria-label="Tag to add"
+                />
+                <button
+                  type="submit"
+                  className={`${styles.btn} ${styles.btnGhost}`}
+                  disabled={isBusy || !bulkTag.trim()}
+                >
+                  {bulkActionLabels.tag}
+                </button>
+              </form>
+              {bulkFailures.length > 0 ? (
+                <ul className={styles.bulkReport}>
+                  {bulkFailures.map((result) => (
+                    <li key={result.applicationId}>
+                      {items.find((item) => item.id === result.applicationId)?.user.name ?? result.applicationId}
+                      {": "}
+                      {result.ok ? "" : result.error.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              <button
+                type="button"
+                className={`${styles.btn} ${styles.btnGhost}`}
+                onClick={() => { setBulkSelection([]); setBulkFailures([]); }}
+              >
+                Clear selection
+              </button>
+            </div>
+          ) : null}
+
           {/* List */}
           <div className={styles.list}>
-            {filteredItems.length === 0 ? (
+            {items.length === 0 ? (
               <p className={styles.emptyList}>No applications found.</p>
             ) : null}
-            {filteredItems.map((item) => {
+            {items.map((item) => {
               const sc = statusConfig[item.status];
               return (
-                <button
-                  key={item.id}
-                  type="button"
-                  className={`${styles.listItem} ${selectedId === item.id ? styles.listItemSelected : ""}`}
-                  onClick={() => { void loadDetail(item.id); }}
-                >
-                  <div className={styles.listItemTop}>
-                    <span className={`${styles.statusPill} ${styles[sc.className]}`}>{sc.label}</span>
-                    {!item.paymentVerifiedAt && (
-                      <span className={styles.unpaidDot} title="Payment unverified" />
-                    )}
-                  </div>
-                  <strong className={styles.listItemName}>{item.user.name || "Unnamed"}</strong>
-                  <span className={styles.listItemEmail}>{item.user.email}</span>
-                  <span className={styles.listItemDate}>{formatDateTime(item.submittedAt)}</span>
-                </button>
+                <div key={item.id} className={styles.listRow}>
+                  <input
+                    type="checkbox"
+                    className={styles.listRowCheck}
+                    checked={bulkSelection.includes(item.id)}
+                    onChange={(e) => toggleBulkSelection(item.id, e.target.checked)}
+                    aria-label={`Select ${item.user.name || "application"}`}
+                  />
+                  <button
+                    type="button"
+                    className={`${styles.listItem} ${selectedId === item.id ? styles.listItemSelected : ""}`}
+                    onClick={() => { void loadDetail(item.id); }}
+                  >
+                    <div className={styles.listItemTop}>
+                      <span className={`${styles.statusPill} ${styles[sc.className]}`}>{sc.label}</span>
+                      {!item.paymentVerifiedAt && (
+                        <span
+                          className={styles.unpaidDot}
+                          title={item.paymentRejectedAt ? "Payment proof rejected" : "Payment unverified"}
+                        />
+                      )}
+                      {item.score.count > 0 ? (
+                        <span
+                          className={styles.listItemScore}
+                          title={item.score.hidden ? "Score to reveal the average" : `Spread ±${formatScore(item.score.spread)}`}
+                        >
+                          {item.score.hidden ? "?" : formatScore(item.score.mean)} · {item.score.count}
+                        </span>
+                      ) : null}
+                      {item.paymentProofThumbnailUrl ? (
+                        <img
+                          src={item.paymentProofThumbnailUrl}
+                          alt=""
+                          className={styles.listItemThumb}
+                          loading="lazy"
+                        />
+                      ) : item.paymentProofProcessing ? (
+                        <span className={styles.listItemThumbPending} title="Payment proof is still processing" />
+                      ) : null}
+                    </div>
+                    <strong className={styles.listItemName}>{item.user.name || "Unnamed"}</strong>
+                    <span className={styles.listItemEmail}>{item.user.email}</span>
+                    <span className={styles.listItemDate}>
+                      {formatDateTime(item.submittedAt)}
+                      {item.assignedReviewer ? ` · ${item.assignedReviewer.name || item.assignedReviewer.email}` : ""}
+                    </span>
+                    {item.tags.length > 0 ? (
+                      <span className={styles.listItemTags}>
+                        {item.tags.map((tag) => <span key={tag} className={styles.tag}>{tag}</span>)}
+                      </span>
+                    ) : null}
+                  </button>
+                </div>
               );
             })}
+            {nextCursor ? (
+              <button
+                type="button"
+                className={`${styles.btn} ${styles.btnGhost}`}
+                onClick={() => { void loadMore(); }}
+                disabled={isBusy}
+              >
+                Load more
+              </button>
+            ) : null}
           </div>
         </section>
 
@@ -319,6 +1280,11 @@ export default function AdminApplicationsPage() {
                 <div className={styles.detailHeaderInfo}>
                   <h2 className={styles.detailName}>{detail.user.name}</h2>
                   <p className={styles.detailEmail}>{detail.user.email}</p>
+                  {detail.tags.length > 0 ? (
+                    <span className={styles.listItemTags}>
+                      {detail.tags.map((tag) => <span key={tag} className={styles.tag}>{tag}</span>)}
+                    </span>
+                  ) : null}
                 </div>
                 {detailStatus && (
                   <span className={`${styles.statusPill} ${styles[detailStatus.className]}`}>
@@ -343,15 +1309,70 @@ export default function AdminApplicationsPage() {
                     {detail.paymentVerifiedAt ? formatDateTimeFull(detail.paymentVerifiedAt) : "Not yet"}
                   </span>
                 </div>
+                <div className={styles.metaCard}>
+                  <span className={styles.metaLabel}>Amount paid</span>
+                  <span className={`${styles.metaValue} ${amountMismatch ? styles.metaWarn : ""}`}>
+                    {formatPaymentAmount(detail.paymentAmount)}
+                  </span>
+                </div>
                 <div className={styles.metaCard}>
                   <span className={styles.metaLabel}>Reviewed</span>
                   <span className={styles.metaValue}>{formatDateTimeFull(detail.reviewedAt)}</span>
                 </div>
+                {detail.status === "WAITLISTED" ? (
+                  <div className={styles.metaCard}>
+                    <span className={styles.metaLabel}>Waitlist</span>
+                    <span className={styles.metaValue}>
+                      #{waitlist?.waitlist.find((entry) => entry.id === detail.id)?.rank ?? "—"}
+                    </span>
+                  </div>
+                ) : null}
+                {detail.status === "INTERVIEW" || detail.interviewBooking ? (
+                  <div className={styles.metaCard}>
+                    <span className={styles.metaLabel}>Interview</span>
+                    <span className={`${styles.metaValue} ${detail.interviewBooking ? "" : styles.metaWarn}`}>
+                      {detail.interviewBooking ? formatDateTimeFull(detail.interviewBooking.slot.startsAt) : "Not booked"}
+                    </span>
+                    {detail.interviewBooking ? (
+                      <a className={styles.metaLink} href={adminInterviewBookingIcsUrl(detail.interviewBooking.id)}>
+                        Add to calendar
+                      </a>
+                    ) : null}
+                  </div>
+                ) : null}
+                {detail.withdrawnAt ? (
+                  <div className={styles.metaCard}>
+                    <span className={styles.metaLabel}>Withdrawn</span>
+                    <span className={`${styles.metaValue} ${styles.metaWarn}`}>{formatDateTimeFull(detail.withdrawnAt)}</span>
+                  </div>
+                ) : null}
               </div>
 
+              {detail.identityHidden ? (
+                <div className={styles.withdrawnNotice}>
+                  <strong>Identity hidden for blind review.</strong>
+                  <p>Name, contact details, school, and links are revealed after you submit a score or decision.</p>
+                </div>
+              ) : null}
+
+              {detail.status === "WITHDRAWN" ? (
+                <div className={styles.withdrawnNotice}>
+                  <strong>The applicant withdrew this application.</strong>
+                  {detail.withdrawalReason ? <p>{detail.withdrawalReason}</p> : null}
+                </div>
+              ) : null}
+
               {/* Payment proof */}
               {detail.paymentProofViewUrl ? (
                 <div className={styles.proofSection}>
+                  {detail.paymentProofPreviewUrl ? (
+                    <img
+                      src={detail.paymentProofPreviewUrl}
+                      alt="Payment proof"
+                      className={styles.proofPreview}
+                      loading="lazy"
+                    />
+                  ) : null}
                   <a
                     href={detail.paymentProofViewUrl}
                     target="_blank"
@@ -359,11 +1380,62 @@ export default function AdminApplicationsPage() {
                     className={`${styles.btn} ${styles.btnGhost}`}
                   >
                     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"/><polyline points="15 3 21 3 21 9"/><line x1="10" y1="14" x2="21" y2="3"/></svg>
-                    View payment proof
+                    Open original
                   </a>
                 </div>
               ) : null}
 
+              {detail.paymentProofs.length > 1 ? (
+                <div className={styles.answersSection}>
+                  <h3 className={styles.sectionTitle}>Payment proof history</h3>
+                  <ul className={styles.proofHistory}>
+                    {detail.paymentProofs.map((proof) => (
+                      <li key={proof.id} className={styles.proofHistoryItem}>
+                        <span className={styles.timelineTitle}>
+                          {formatDateTimeFull(proof.uploadedAt)}
+                          {proof.isCurrent ? " · current" : ""}
+                        </span>
+                        <span className={styles.timelineMeta}>
+                          {proofStatusLabels[proof.status]} · {proof.contentType} · {formatBytes(proof.contentLength)}
+                        </span>
+                        {proof.viewUrl ? (
+                          <a className={styles.metaLink} href={proof.viewUrl} target="_blank" rel="noreferrer">
+                            {proof.thumbnailUrl ? (
+                              <img src={proof.thumbnailUrl} alt="Open" className={styles.proofThumb} loading="lazy" />
+                            ) : (
+                              "Open"
+                            )}
+                          </a>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              {possibleDuplicate ? (
+                <div className={styles.duplicateNotice}>
+                  <strong>Possible duplicate payment</strong>
+                  {duplicateGroups.map((group) => (
+                    <div key={group.label} className={styles.duplicateGroup}>
+                      <span>{group.label}:</span>
+                      {group.applications.map((other) => (
+                        <button
+                          key={other.id}
+                          type="button"
+                          className={styles.duplicateLink}
+                          disabled={isBusy}
+                          onClick={() => { void openApplication(other.id); }}
+                        >
+                          {other.user.name || other.user.email} · {other.cycle.name} · {statusConfig[other.status].label}
+                          {other.paymentVerifiedAt ? " · verified" : ""}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
               {/* Decision tools */}
               <div className={styles.decisionSection}>
                 <h3 className={styles.sectionTitle}>Decision</h3>
@@ -375,11 +1447,40 @@ export default function AdminApplicationsPage() {
                   disabled={isBusy}
                   rows={3}
                 />
+                {amountMismatch && !detail.paymentVerifiedAt ? (
+                  <label className={styles.toggle}>
+                    <input
+                      type="checkbox"
+                      checked={overrideAmount}
+                      disabled={isBusy}
+                      onChange={(e) => setOverrideAmount(e.target.checked)}
+                    />
+                    Verify despite the {detail.paymentAmount.status === "underpaid" ? "underpayment" : "overpayment"}
+                  </label>
+                ) : null}
+                {possibleDuplicate && !detail.paymentVerifiedAt ? (
+                  <label className={styles.toggle}>
+                    <input
+                      type="checkbox"
+                      checked={acknowledgeDuplicate}
+                      disabled={isBusy}
+                      onChange={(e) => setAcknowledgeDuplicate(e.target.checked)}
+                    />
+                    I checked the other applications; this payment is not a duplicate
+                  </label>
+                ) : null}
                 <div className={styles.decisionActions}>
                   <button
                     type="button"
                     className={`${styles.btn} ${styles.btnGhost}`}
-                    disabled={isBusy || Boolean(detail.paymentVerifiedAt)}
+                    disabled={
+                      isBusy ||
+                      isWithdrawn ||
+                      Boolean(detail.paymentVerifiedAt) ||
+                      Boolean(detail.paymentRejectedAt) ||
+                      (amountMismatch && !overrideAmount) ||
+                      (possibleDuplicate && !acknowledgeDuplicate)
+                    }
                     onClick={verifyPayment}
                   >
                     {detail.paymentVerifiedAt ? (
@@ -392,18 +1493,36 @@ export default function AdminApplicationsPage() {
                     )}
                   </button>
                   <div className={styles.decisionBtns}>
+                    {detail.status === "PENDING" ? (
+                      <button
+                        type="button"
+                        className={`${styles.btn} ${styles.btnGhost}`}
+                        disabled={isBusy}
+                        onClick={() => { void inviteToInterview(); }}
+                      >
+                        Invite to interview
+                      </button>
+                    ) : null}
                     <button
                       type="button"
                       className={`${styles.btn} ${styles.btnAccept}`}
-                      disabled={isBusy || !detail.paymentVerifiedAt}
+                      disabled={isBusy || isWithdrawn || !detail.paymentVerifiedAt}
                       onClick={() => { void submitDecision("ACCEPTED"); }}
                     >
                       Accept
                     </button>
+                    <button
+                      type="button"
+                      className={`${styles.btn} ${styles.btnGhost}`}
+                      disabled={isBusy || isWithdrawn || !detail.paymentVerifiedAt || detail.status === "WAITLISTED"}
+                      onClick={() => { void submitDecision("WAITLISTED"); }}
+                    >
+                      Waitlist
+                    </button>
                     <button
                       type="button"
                       className={`${styles.btn} ${styles.btnReject}`}
-                      disabled={isBusy}
+                      disabled={isBusy || isWithdrawn}
                       onClick={() => { void submitDecision("REJECTED"); }}
                     >
                       Reject
@@ -412,6 +1531,377 @@ export default function AdminApplicationsPage() {
                 </div>
               </div>
 
+              {/* Payment proof rejection */}
+              {detail.paymentRejectedAt ? (
+                <div className={styles.withdrawnNotice}>
+                  <strong>Payment proof rejected {formatDateTimeFull(detail.paymentRejectedAt)}.</strong>
+                  <p>{detail.paymentRejectionReason} Waiting for the applicant to upload a new proof.</p>
+                </div>
+              ) : detail.paymentProofUploadedAt && (detail.status === "PENDING" || detail.status === "INTERVIEW") ? (
+                <div className={styles.decisionSection}>
+                  <h3 className={styles.sectionTitle}>Payment proof</h3>
+                  <textarea
+                    className={styles.textarea}
+                    placeholder="Why is this proof not acceptable? The applicant will see this."
+                    value={paymentRejectReason}
+                    onChange={(e) => setPaymentRejectReason(e.target.value)}
+                    disabled={isBusy}
+                    maxLength={1000}
+                    rows={2}
+                  />
+                  <div className={styles.decisionActions}>
+                    <button
+                      type="button"
+                      className={`${styles.btn} ${styles.btnReject}`}
+                      disabled={isBusy || !paymentRejectReason.trim()}
+                      onClick={() => { void rejectPayment(); }}
+                    >
+                      Reject payment proof
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+
+              {/* Refund */}
+              {detail.refund ? (
+                <div className={styles.decisionSection}>
+                  <h3 className={styles.sectionTitle}>Refund</h3>
+                  <span className={styles.timelineMeta}>
+                    Php {detail.refund.amount} via {detail.refund.method} · {refundStatusLabels[detail.refund.status]}
+                    {detail.refund.reference ? ` · ref ${detail.refund.reference}` : ""}
+                    {detail.refund.processedBy ? ` · by ${detail.refund.processedBy.name || detail.refund.processedBy.email}` : ""}
+                  </span>
+                  <span className={styles.timelineMeta}>
+                    Requested {formatDateTimeFull(detail.refund.requestedAt)}
+                    {detail.refund.approvedAt ? ` · approved ${formatDateTimeFull(detail.refund.approvedAt)}` : ""}
+                    {detail.refund.sentAt ? ` · sent ${formatDateTimeFull(detail.refund.sentAt)}` : ""}
+                  </span>
+                  {detail.refund.note ? <p className={styles.timelineMeta}>{detail.refund.note}</p> : null}
+                  {detail.refund.status !== "SENT" ? (
+                    <>
+                      <div className={styles.capacityRow}>
+                        <input
+                          className={styles.capacityInput}
+                          placeholder="Transfer reference"
+                          value={refundForm.reference}
+                          onChange={(e) => setRefundForm({ ...refundForm, reference: e.target.value })}
+                          disabled={isBusy}
+                          maxLength={200}
+                        />
+                      </div>
+                      <textarea
+                        className={styles.textarea}
+                        placeholder="Note for the treasurer (optional)"
+                        value={refundForm.note}
+                        onChange={(e) => setRefundForm({ ...refundForm, note: e.target.value })}
+                        disabled={isBusy}
+                        maxLength={1000}
+                        rows={2}
+                      />
+                      <div className={styles.decisionActions}>
+                        {detail.refund.status === "REQUESTED" ? (
+                          <button
+                            type="button"
+                            className={`${styles.btn} ${styles.btnGhost}`}
+                            disabled={isBusy}
+                            onClick={() => { void advanceRefund("APPROVED"); }}
+                          >
+                            Approve refund
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            className={`${styles.btn} ${styles.btnAccept}`}
+                            disabled={isBusy || !refundForm.reference.trim()}
+                            onClick={() => { void advanceRefund("SENT"); }}
+                          >
+                            Mark as sent
+                          </button>
+                        )}
+                      </div>
+                    </>
+                  ) : null}
+                </div>
+              ) : (detail.status === "REJECTED" || isWithdrawn) && detail.paymentVerifiedAt ? (
+                <div className={styles.decisionSection}>
+                  <h3 className={styles.sectionTitle}>Refund</h3>
+                  <div className={styles.capacityRow}>
+                    <input
+                      className={styles.capacityInput}
+                      type="number"
+                      min={0.01}
+                      step={0.01}
+                      placeholder="Amount"
+                      value={refundForm.amount}
+                      onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+                      disabled={isBusy}
+                    />
+                    <input
+                      className={styles.capacityInput}
+                      placeholder="Method (e.g. GCash, bank transfer)"
+                      value={refundForm.method}
+                      onChange={(e) => setRefundForm({ ...refundForm, method: e.target.value })}
+                      disabled={isBusy}
+                      maxLength={100}
+                    />
+                  </div>
+                  <textarea
+                    className={styles.textarea}
+                    placeholder="Note for the treasurer (optional)"
+                    value={refundForm.note}
+                    onChange={(e) => setRefundForm({ ...refundForm, note: e.target.value })}
+                    disabled={isBusy}
+                    maxLength={1000}
+                    rows={2}
+                  />
+                  <div className={styles.decisionActions}>
+                    <button
+                      type="button"
+                      className={`${styles.btn} ${styles.btnGhost}`}
+                      disabled={isBusy || !(Number(refundForm.amount) > 0) || !refundForm.method.trim()}
+                      onClick={() => { void createRefund(); }}
+                    >
+                      Request refund
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+
+              {/* Reviewer assignment */}
+              {!isWithdrawn && detail.status !== "DRAFT" ? (
+                <div className={styles.decisionSection}>
+                  <h3 className={styles.sectionTitle}>Reviewer</h3>
+                  <div className={styles.capacityRow}>
+                    <select
+                      className={styles.capacityInput}
+                      value={detail.assignedReviewer?.id ?? ""}
+                      onChange={(e) => { void assignReviewer(e.target.value || null); }}
+                      disabled={isBusy}
+                      aria-label="Assigned reviewer"
+                    >
+                      <option value="">Unassigned</option>
+                      {workload?.reviewers.map((reviewer) => (
+                        <option key={reviewer.id} value={reviewer.id}>
+                          {reviewer.name || reviewer.email} ({reviewer.openCount} open)
+                        </option>
+                      ))}
+                    </select>
+                    <span className={styles.metaLabel}>
+                      {detail.assignedAt ? `since ${formatDateTime(detail.assignedAt)}` : ""}
+                    </span>
+                  </div>
+                </div>
+              ) : null}
+
+              {/* Scoring */}
+              {detail.scoring.criteria.length > 0 && detail.status !== "DRAFT" ? (
+                <div className={styles.decisionSection}>
+                  <h3 className={styles.sectionTitle}>Your score</h3>
+                  <div className={styles.rubricList}>
+                    {detail.scoring.criteria.map((criterion) => (
+                      <label key={criterion.id} className={styles.rubricRow}>
+                        <span className={styles.rubricLabel}>
+                          <strong>{criterion.label}</strong>
+                          <span className={styles.rubricMeta}>
+                            {criterion.scaleMin}–{criterion.scaleMax} · weight {criterion.weight}
+                          </span>
+                          {criterion.description ? (
+                            <span className={styles.rubricMeta}>{criterion.description}</span>
+                          ) : null}
+                        </span>
+                        <input
+                          className={styles.capacityInput}
+                          type="number"
+                          min={criterion.scaleMin}
+                          max={criterion.scaleMax}
+                          step={1}
+                          value={scoreInputs[criterion.id] ?? ""}
+                          onChange={(e) =>
+                            setScoreInputs((prev) => ({ ...prev, [criterion.id]: e.target.value }))
+                          }
+                          disabled={isBusy || isWithdrawn}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <textarea
+                    className={styles.textarea}
+                    placeholder="Reviewer comment (optional)..."
+                    value={scoreComment}
+                    onChange={(e) => setScoreComment(e.target.value)}
+                    disabled={isBusy || isWithdrawn}
+                    rows={2}
+                  />
+                  <div className={styles.decisionActions}>
+                    <span className={styles.metaLabel}>
+                      {detail.scoring.summary.hidden
+                        ? `${detail.scoring.summary.count} review${detail.scoring.summary.count === 1 ? "" : "s"} · submit yours to see them`
+                        : `Mean ${formatScore(detail.scoring.summary.mean)} · spread ±${formatScore(detail.scoring.summary.spread)} · ${detail.scoring.summary.count} review${detail.scoring.summary.count === 1 ? "" : "s"}`}
+                    </span>
+                    <button
+                      type="button"
+                      className={`${styles.btn} ${styles.btnPrimary}`}
+                      disabled={isBusy || isWithdrawn}
+                      onClick={() => { void submitScore(); }}
+                    >
+                      {detail.scoring.mine ? "Update score" : "Submit score"}
+                    </button>
+                  </div>
+                  {detail.scoring.reviews.length > 0 ? (
+                    <ul className={styles.reviewList}>
+                      {detail.scoring.reviews.map((review) => (
+                        <li key={review.id} className={styles.reviewItem}>
+                          <span className={styles.timelineTitle}>
+                            {review.reviewer.name || review.reviewer.email} · {formatScore(review.weightedScore)}
+                          </span>
+                          <span className={styles.timelineMeta}>
+                            {detail.scoring.criteria
+                              .map((criterion) => `${criterion.label} ${review.scores[criterion.id] ?? "—"}`)
+                              .join(" · ")}
+                          </span>
+                          {review.comment ? <p className={styles.timelineNote}>{review.comment}</p> : null}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {/* Reviewer notes */}
+              <div className={styles.answersSection}>
+                <h3 className={styles.sectionTitle}>Reviewer notes</h3>
+                <p className={styles.commentHint}>Only admins can see these. Mention someone with @ and their email name, e.g. @maria.</p>
+                {comments.length === 0 ? (
+                  <p className={styles.emptyList}>No notes yet.</p>
+                ) : (
+                  <ul className={styles.commentList}>
+                    {comments.map((comment) => (
+                      <li key={comment.id} className={styles.commentItem}>
+                        <span className={styles.timelineMeta}>
+                          <strong>{comment.author.name || comment.author.email}</strong>
+                          {" · "}{formatDateTimeFull(comment.createdAt)}
+                          {comment.editedAt ? " · edited" : ""}
+                        </span>
+                        {editingComment?.id === comment.id ? (
+                          <>
+                            <textarea
+                              className={styles.textarea}
+                              value={editingComment.body}
+                              onChange={(e) => setEditingComment({ id: comment.id, body: e.target.value })}
+                              disabled={isBusy}
+                              rows={3}
+                            />
+                            <div className={styles.commentActions}>
+                              <button
+                                type="button"
+                                className={`${styles.btn} ${styles.btnGhost}`}
+                                disabled={isBusy}
+                                onClick={() => setEditingComment(null)}
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                type="button"
+                                className={`${styles.btn} ${styles.btnPrimary}`}
+                                disabled={isBusy || !editingComment.body.trim()}
+                                onClick={() => { void saveCommentEdit(); }}
+                              >
+                                Save
+                              </button>
+                            </div>
+                          </>
+                        ) : (
+                          <p className={styles.commentBody}>{comment.body}</p>
+                        )}
+                        {comment.mentions.length > 0 ? (
+                          <span className={styles.commentMentions}>
+                            Mentions: {comment.mentions.map((user) => user.name || user.email).join(", ")}
+                          </span>
+                        ) : null}
+                        {comment.revisions.length > 0 ? (
+                          <details className={styles.commentHistory}>
+                            <summary>{comment.revisions.length} earlier version{comment.revisions.length === 1 ? "" : "s"}</summary>
+                            {comment.revisions.map((revision) => (
+                              <p key={revision.id} className={styles.timelineNote}>
+                                <span className={styles.timelineMeta}>{formatDateTimeFull(revision.createdAt)}</span>
+                                {" "}{revision.body}
+                              </p>
+                            ))}
+                          </details>
+                        ) : null}
+                        {comment.author.id === currentUserId && editingComment?.id !== comment.id ? (
+                          <div className={styles.commentActions}>
+                            <button
+                              type="button"
+                              className={styles.commentLink}
+                              disabled={isBusy}
+                              onClick={() => setEditingComment({ id: comment.id, body: comment.body })}
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              className={styles.commentLink}
+                              disabled={isBusy}
+                              onClick={() => { void removeComment(comment.id); }}
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <textarea
+                  className={styles.textarea}
+                  placeholder="Add a private note..."
+                  value={commentDraft}
+                  onChange={(e) => setCommentDraft(e.target.value)}
+                  disabled={isBusy}
+                  rows={2}
+                />
+                <div className={styles.commentActions}>
+                  <button
+                    type="button"
+                    className={`${styles.btn} ${styles.btnPrimary}`}
+                    disabled={isBusy || !commentDraft.trim()}
+                    onClick={() => { void postComment(); }}
+                  >
+                    Post note
+                  </button>
+                </div>
+              </div>
+
+              {/* History */}
+              <div className={styles.answersSection}>
+                <h3 className={styles.sectionTitle}>History</h3>
+                {events.length === 0 ? (
+                  <p className={styles.emptyList}>No events recorded.</p>
+                ) : (
+                  <ol className={styles.timeline}>
+                    {events.map((event) => (
+                      <li key={event.id} className={styles.timelineItem}>
+                        <span className={styles.timelineTitle}>
+                          {eventLabels[event.type]}
+                          {event.fromStatus !== event.toStatus && event.toStatus
+                            ? ` · ${event.fromStatus ? `${statusConfig[event.fromStatus].label} → ` : ""}${statusConfig[event.toStatus].label}`
+                            : ""}
+                          {event.type === "TAGGED" && typeof event.metadataJson?.tag === "string"
+                            ? ` · ${event.metadataJson.tag}`
+                            : ""}
+                        </span>
+                        <span className={styles.timelineMeta}>
+                          {formatDateTimeFull(event.createdAt)}
+                          {event.actor ? ` · ${event.actor.name || event.actor.email}` : ""}
+                        </span>
+                        {event.note ? <p className={styles.timelineNote}>{event.note}</p> : null}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
               {/* Answers */}
               <div className={styles.answersSection}>
                 <h3 className={styles.sectionTitle}>Application Answers</h3>
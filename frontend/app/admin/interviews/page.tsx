@@ -0,0 +1,270 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  adminInterviewBookingIcsUrl,
+  createAdminInterviewSlot,
+  deleteAdminInterviewSlot,
+  getSession,
+  listAdminInterviewSlots,
+} from "@/lib/api/client";
+import type { AdminInterviewSlot } from "@/lib/api/types";
+import styles from "./page.module.css";
+
+const API_ORIGIN = process.env.NEXT_PUBLIC_API_ORIGIN ?? "http://localhost:4000";
+
+const toDateInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+const getDayRange = (day: string) => {
+  const from = new Date(`${day}T00:00`);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+  return { from, to };
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+const emptySlotForm = {
+  startTime: "09:00",
+  endTime: "09:30",
+  capacity: "1",
+  location: "",
+  videoUrl: "",
+};
+
+export default function AdminInterviewsPage() {
+  const [loading, setLoading] = useState(true);
+  const [authState, setAuthState] = useState<"admin" | "signed_out" | "forbidden">("signed_out");
+  const [day, setDay] = useState(() => toDateInputValue(new Date()));
+  const [slots, setSlots] = useState<AdminInterviewSlot[]>([]);
+  const [slotForm, setSlotForm] = useState(emptySlotForm);
+  const [isBusy, setIsBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const refreshSlots = useCallback(async () => {
+    const response = await listAdminInterviewSlots(getDayRange(day));
+    setSlots(response.data);
+  }, [day]);
+
+  const loadPage = useCallback(async () => {
+    setLoading(true);
+    setErrorMessage(null);
+    try {
+      const session = await getSession();
+      if (!session.user) { setAuthState("signed_out"); return; }
+      if (session.user.role !== "ADMIN") { setAuthState("forbidden"); return; }
+      setAuthState("admin");
+      await refreshSlots();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load interviews.");
+    } finally {
+      setLoading(false);
+    }
+  }, [refreshSlots]);
+
+  useEffect(() => { void loadPage(); }, [loadPage]);
+
+  const createSlot = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await createAdminInterviewSlot({
+        startsAt: new Date(`${day}T${slotForm.startTime}`).toISOString(),
+        endsAt: new Date(`${day}T${slotForm.endTime}`).toISOString(),
+        capacity: Number(slotForm.capacity),
+        location: slotForm.location.trim() || null,
+        videoUrl: slotForm.videoUrl.trim() || null,
+      });
+      await refreshSlots();
+      setSlotForm((prev) => ({ ...prev, startTime: prev.endTime }));
+      setSuccessMessage("Interview slot published.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to create interview slot.");
+    } finally { setIsBusy(false); }
+  };
+
+  const removeSlot = async (id: string) => {
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      await deleteAdminInterviewSlot(id);
+      await refreshSlots();
+      setSuccessMessage("Interview slot removed.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to remove interview slot.");
+    } finally { setIsBusy(false); }
+  };
+
+  if (loading) {
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.heroTitle}>Loading interviews...</h1>
+        </header>
+      </main>
+    );
+  }
+
+  if (authState === "signed_out") {
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.heroTitle}>Interviews</h1>
+          <p className={styles.heroSubtitle}>Sign in with your admin account to continue.</p>
+        </header>
+        <a className={`${styles.btn} ${styles.btnPrimary}`} href={`${API_ORIGIN}/auth/google`}>
+          Sign in with Google
+        </a>
+      </main>
+    );
+  }
+
+  if (authState === "forbidden") {
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.heroTitle}>Access denied</h1>
+          <p className={styles.heroSubtitle}>Your account does not have admin permissions.</p>
+        </header>
+      </main>
+    );
+  }
+
+  const bookingCount = slots.reduce((total, slot) => total + slot.bookedCount, 0);
+
+  return (
+    <main className={styles.page}>
+      <header className={styles.hero}>
+        <h1 className={styles.heroTitle}>Interviews</h1>
+        <p className={styles.heroSubtitle}>
+          {slots.length} slot{slots.length === 1 ? "" : "s"} · {bookingCount} booking{bookingCount === 1 ? "" : "s"}
+        </p>
+      </header>
+
+      {errorMessage ? <div className={`${styles.toast} ${styles.toastError}`}>{errorMessage}</div> : null}
+      {successMessage ? <div className={`${styles.toast} ${styles.toastSuccess}`}>{successMessage}</div> : null}
+
+      <div className={styles.layout}>
+        <section className={styles.panel}>
+          <label className={styles.field}>
+            <span>Day</span>
+            <input type="date" value={day} onChange={(e) => setDay(e.target.value)} />
+          </label>
+
+          <form className={styles.slotForm} onSubmit={createSlot}>
+            <h2 className={styles.panelTitle}>Publish a slot</h2>
+            <div className={styles.fieldRow}>
+              <label className={styles.field}>
+                <span>Starts</span>
+                <input
+                  type="time"
+                  required
+                  value={slotForm.startTime}
+                  onChange={(e) => setSlotForm((prev) => ({ ...prev, startTime: e.target.value }))}
+                />
+              </label>
+              <label className={styles.field}>
+                <span>Ends</span>
+                <input
+                  type="time"
+                  required
+                  value={slotForm.endTime}
+                  onChange={(e) => setSlotForm((prev) => ({ ...prev, endTime: e.target.value }))}
+                />
+              </label>
+              <label className={styles.field}>
+                <span>Capacity</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  required
+                  value={slotForm.capacity}
+                  onChange={(e) => setSlotForm((prev) => ({ ...prev, capacity: e.target.value }))}
+                />
+              </label>
+            </div>
+            <label className={styles.field}>
+              <span>Location</span>
+              <input
+                type="text"
+                placeholder="e.g. Room 301, Main Building"
+                value={slotForm.location}
+                onChange={(e) => setSlotForm((prev) => ({ ...prev, location: e.target.value }))}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Video link</span>
+              <input
+                type="url"
+                placeholder="https://meet.google.com/..."
+                value={slotForm.videoUrl}
+                onChange={(e) => setSlotForm((prev) => ({ ...prev, videoUrl: e.target.value }))}
+              />
+            </label>
+            <button type="submit" className={`${styles.btn} ${styles.btnPrimary}`} disabled={isBusy}>
+              Publish slot
+            </button>
+          </form>
+        </section>
+
+        <section className={styles.schedule}>
+          {slots.length === 0 ? (
+            <p className={styles.empty}>No interview slots on this day.</p>
+          ) : null}
+          {slots.map((slot) => (
+            <article key={slot.id} className={styles.slotCard}>
+              <div className={styles.slotHead}>
+                <div>
+                  <strong className={styles.slotTime}>
+                    {formatTime(slot.startsAt)} – {formatTime(slot.endsAt)}
+                  </strong>
+                  <span className={styles.slotMeta}>
+                    {slot.location ?? ""}
+                    {slot.location && slot.videoUrl ? " · " : ""}
+                    {slot.videoUrl ? <a href={slot.videoUrl} target="_blank" rel="noreferrer">Video link</a> : null}
+                  </span>
+                </div>
+                <span className={styles.slotCapacity}>
+                  {slot.bookedCount}/{slot.capacity} booked
+                </span>
+              </div>
+
+              {slot.bookings.length > 0 ? (
+                <ul className={styles.bookingList}>
+                  {slot.bookings.map((booking) => (
+                    <li key={booking.id} className={styles.bookingItem}>
+                      <span>
+                        <strong>{booking.application.user.name || "Unnamed"}</strong>
+                        <span className={styles.bookingEmail}>{booking.application.user.email}</span>
+                      </span>
+                      <a className={styles.bookingLink} href={adminInterviewBookingIcsUrl(booking.id)}>
+                        .ics
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className={styles.slotActions}>
+                  <span className={styles.empty}>No bookings yet.</span>
+                  <button
+                    type="button"
+                    className={`${styles.btn} ${styles.btnGhost}`}
+                    disabled={isBusy}
+                    onClick={() => { void removeSlot(slot.id); }}
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+            </article>
+          ))}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,453 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  adminRefundsExportUrl,
+  confirmAdminCyclePayments,
+  getAdminCycleFees,
+  getAdminRefunds,
+  getSession,
+  listAdminCycles,
+  reconcileAdminCyclePayments,
+  updateAdminCycleFees,
+} from "@/lib/api/client";
+import type {
+  AdminRecruitmentCycle,
+  AdminRefundListItem,
+  FeeSchedule,
+  PaymentReconciliation,
+  ReconciliationApplication,
+  StatementColumns,
+  StatementRowView,
+} from "@/lib/api/types";
+import styles from "./page.module.css";
+
+const API_ORIGIN = process.env.NEXT_PUBLIC_API_ORIGIN ?? "http://localhost:4000";
+
+const emptyColumns: StatementColumns = { date: null, amount: null, reference: null };
+
+const columnLabels: Record<keyof StatementColumns, string> = {
+  date: "Date",
+  amount: "Amount",
+  reference: "Reference",
+};
+
+const reasonLabels: Record<string, string> = {
+  duplicate_reference: "Several applications use this reference",
+  amount_mismatch: "Amount differs from the application",
+  reference_reused: "Several statement rows match this application",
+  fee_mismatch: "Amount paid differs from the expected fee; verify it on the application",
+  possible_duplicate_payment: "Possible duplicate payment; verify it on the application",
+  invalid_row: "Missing reference or amount",
+  debit_row: "Outgoing payment (negative amount)",
+  no_reference_match: "No application with this reference",
+  already_verified: "Payment already verified",
+  not_submitted: "Application not submitted",
+  withdrawn: "Application withdrawn",
+  payment_proof_rejected: "Payment proof was rejected",
+  payment_proof_unconfirmed: "No confirmed payment proof",
+};
+
+const refundStatusLabels: Record<AdminRefundListItem["status"], string> = {
+  REQUESTED: "Requested",
+  APPROVED: "Approved",
+  SENT: "Sent",
+};
+
+const formatAmount = (value: number | null) =>
+  value === null ? "—" : value.toLocaleString("en-US", { minimumFractionDigits: 2 });
+
+const describeRow = (row: StatementRowView) =>
+  `Row ${row.line} · ${row.date ?? "no date"} · ${row.reference || "no reference"} · ${formatAmount(row.amount)}`;
+
+const describeApplication = (application: ReconciliationApplication) =>
+  `${application.user.name || "Unnamed"} · ${application.referenceNumber ?? "no reference"} · ${formatAmount(application.amountPaid)}`;
+
+export default function AdminPaymentsPage() {
+  const [loading, setLoading] = useState(true);
+  const [authState, setAuthState] = useState<"admin" | "signed_out" | "forbidden">("signed_out");
+  const [cycles, setCycles] = useState<AdminRecruitmentCycle[]>([]);
+  const [cycleId, setCycleId] = useState("");
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [columns, setColumns] = useState<StatementColumns>(emptyColumns);
+  const [result, setResult] = useState<PaymentReconciliation | null>(null);
+  const [selectedLines, setSelectedLines] = useState<Set<number>>(new Set());
+  const [feeSchedule, setFeeSchedule] = useState<FeeSchedule | null>(null);
+  const [feeInputs, setFeeInputs] = useState<string[]>([]);
+  const [refunds, setRefunds] = useState<AdminRefundListItem[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const loadPage = useCallback(async () => {
+    setLoading(true);
+    setErrorMessage(null);
+    try {
+      const session = await getSession();
+      if (!session.user) { setAuthState("signed_out"); return; }
+      if (session.user.role !== "ADMIN") { setAuthState("forbidden"); return; }
+      setAuthState("admin");
+      const response = await listAdminCycles();
+      setCycles(response.data);
+      setCycleId((current) => current || (response.data.find((cycle) => cycle.isActive) ?? response.data[0])?.id || "");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load payments.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { void loadPage(); }, [loadPage]);
+
+  const applyFeeSchedule = (schedule: FeeSchedule) => {
+    setFeeSchedule(schedule);
+    setFeeInputs(schedule.fees.map((fee) => String(fee.amount)));
+  };
+
+  useEffect(() => {
+    if (!cycleId) return;
+    getAdminCycleFees(cycleId)
+      .then((response) => applyFeeSchedule(response.data))
+      .catch((error) => {
+        setErrorMessage(error instanceof Error ? error.message : "Unable to load the fee schedule.");
+      });
+    getAdminRefunds({ cycleId })
+      .then((response) => setRefunds(response.data))
+      .catch((error) => {
+        setErrorMessage(error instanceof Error ? error.message : "Unable to load refunds.");
+      });
+  }, [cycleId]);
+
+  const saveFees = async () => {
+    if (!feeSchedule) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      const response = await updateAdminCycleFees(
+        cycleId,
+        feeSchedule.fees.map((fee, index) => ({ ...fee, amount: Number(feeInputs[index]) }))
+      );
+      applyFeeSchedule(response.data);
+      setSuccessMessage("Fee schedule saved.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to save the fee schedule.");
+    } finally { setIsBusy(false); }
+  };
+
+  const runReconciliation = async (text: string, mapping?: StatementColumns) => {
+    if (!cycleId) return;
+    setIsBusy(true); setErrorMessage(null);
+    try {
+      const response = await reconcileAdminCyclePayments(
+        cycleId,
+        text,
+        mapping
+          ? {
+              date: mapping.date ?? undefined,
+              amount: mapping.amount ?? undefined,
+              reference: mapping.reference ?? undefined,
+            }
+          : undefined
+      );
+      setResult(response.data);
+      setColumns(response.data.columns);
+      setSelectedLines(new Set(response.data.matched.map(({ row }) => row.line)));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to read the statement.");
+    } finally { setIsBusy(false); }
+  };
+
+  const selectFile = async (file: File | null) => {
+    setSuccessMessage(null);
+    setResult(null);
+    if (!file) { setCsv(null); setFileName(null); return; }
+    const text = await file.text();
+    setCsv(text);
+    setFileName(file.name);
+    await runReconciliation(text);
+  };
+
+  const changeColumn = (key: keyof StatementColumns, value: string) => {
+    const next = { ...columns, [key]: value || null };
+    setColumns(next);
+    if (csv) void runReconciliation(csv, next);
+  };
+
+  const toggleLine = (line: number) => {
+    setSelectedLines((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line); else next.add(line);
+      return next;
+    });
+  };
+
+  const verifySelected = async () => {
+    if (!result || !csv) return;
+    const matches = result.matched
+      .filter(({ row }) => selectedLines.has(row.line))
+      .map(({ row, application }) => ({
+        applicationId: application.id,
+        reference: row.reference,
+        amount: row.amount ?? 0,
+        date: row.date,
+      }));
+    if (matches.length === 0) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      const response = await confirmAdminCyclePayments(cycleId, matches);
+      const { verifiedCount, skipped } = response.data;
+      setSuccessMessage(
+        `Verified ${verifiedCount} payment${verifiedCount === 1 ? "" : "s"}${skipped.length > 0 ? `, skipped ${skipped.length}` : ""}.`
+      );
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to verify payments.");
+    } finally { setIsBusy(false); }
+    await runReconciliation(csv, columns);
+  };
+
+  if (loading) {
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.heroTitle}>Loading payments...</h1>
+        </header>
+      </main>
+    );
+  }
+
+  if (authState === "signed_out") {
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.heroTitle}>Payments</h1>
+          <p className={styles.heroSubtitle}>Sign in with your admin account to continue.</p>
+        </header>
+        <a className={`${styles.btn} ${styles.btnPrimary}`} href={`${API_ORIGIN}/auth/google`}>
+          Sign in with Google
+        </a>
+      </main>
+    );
+  }
+
+  if (authState === "forbidden") {
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.heroTitle}>Access denied</h1>
+          <p className={styles.heroSubtitle}>Your account does not have admin permissions.</p>
+        </header>
+      </main>
+    );
+  }
+
+  return (
+    <main className={styles.page}>
+      <header className={styles.hero}>
+        <h1 className={styles.heroTitle}>Payments</h1>
+        <p className={styles.heroSubtitle}>
+          Upload a GCash or bank statement CSV to match transactions against applicants&apos; reference numbers and amounts.
+        </p>
+      </header>
+
+      {errorMessage ? <div className={`${styles.toast} ${styles.toastError}`}>{errorMessage}</div> : null}
+      {successMessage ? <div className={`${styles.toast} ${styles.toastSuccess}`}>{successMessage}</div> : null}
+
+      <div className={styles.layout}>
+        <section className={styles.panel}>
+          <label className={styles.field}>
+            <span>Cycle</span>
+            <select
+              value={cycleId}
+              onChange={(e) => { setCycleId(e.target.value); setResult(null); setCsv(null); setFileName(null); }}
+              disabled={isBusy}
+            >
+              {cycles.map((cycle) => (
+                <option key={cycle.id} value={cycle.id}>{cycle.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.field}>
+            <span>Statement CSV</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              disabled={isBusy || !cycleId}
+              onChange={(e) => { void selectFile(e.target.files?.[0] ?? null); }}
+            />
+          </label>
+          {fileName ? <p className={styles.hint}>{fileName}</p> : null}
+
+          {feeSchedule ? (
+            <div className={styles.mapping}>
+              <h2 className={styles.panelTitle}>Fee schedule</h2>
+              {feeSchedule.isDefault ? (
+                <p className={styles.hint}>Using the default fees. Saving stores them for this cycle.</p>
+              ) : null}
+              {feeSchedule.fees.map((fee, index) => (
+                <label key={`${fee.memberType}:${fee.universityType}`} className={styles.field}>
+                  <span>{fee.memberType} · {fee.universityType}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={feeInputs[index] ?? ""}
+                    disabled={isBusy}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      setFeeInputs((prev) => prev.map((input, i) => (i === index ? value : input)));
+                    }}
+                  />
+                </label>
+              ))}
+              <button
+                type="button"
+                className={`${styles.btn} ${styles.btnGhost}`}
+                disabled={isBusy || feeInputs.some((input) => input.trim() === "" || Number.isNaN(Number(input)))}
+                onClick={() => { void saveFees(); }}
+              >
+                Save fees
+              </button>
+            </div>
+          ) : null}
+
+          {result ? (
+            <div className={styles.mapping}>
+              <h2 className={styles.panelTitle}>Columns</h2>
+              {(Object.keys(columnLabels) as Array<keyof StatementColumns>).map((key) => (
+                <label key={key} className={styles.field}>
+                  <span>{columnLabels[key]}</span>
+                  <select
+                    value={columns[key] ?? ""}
+                    onChange={(e) => changeColumn(key, e.target.value)}
+                    disabled={isBusy}
+                  >
+                    <option value="">{key === "date" ? "Not in statement" : "Choose a column"}</option>
+                    {result.headers.map((header) => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          ) : null}
+        </section>
+
+        <section className={styles.results}>
+          {!result ? (
+            <p className={styles.empty}>Choose a statement file to see matches.</p>
+          ) : !result.columns.amount || !result.columns.reference ? (
+            <p className={styles.empty}>Pick the amount and reference columns to match rows.</p>
+          ) : (
+            <>
+              <article className={styles.group}>
+                <div className={styles.groupHead}>
+                  <h2 className={styles.panelTitle}>Matched ({result.matched.length})</h2>
+                  <button
+                    type="button"
+                    className={`${styles.btn} ${styles.btnPrimary}`}
+                    disabled={isBusy || selectedLines.size === 0}
+                    onClick={() => { void verifySelected(); }}
+                  >
+                    Verify {selectedLines.size} selected
+                  </button>
+                </div>
+                {result.matched.length === 0 ? <p className={styles.empty}>No confident matches.</p> : null}
+                <ul className={styles.rowList}>
+                  {result.matched.map(({ row, application }) => (
+                    <li key={row.line} className={styles.rowItem}>
+                      <label className={styles.rowCheck}>
+                        <input
+                          type="checkbox"
+                          checked={selectedLines.has(row.line)}
+                          onChange={() => toggleLine(row.line)}
+                          disabled={isBusy}
+                        />
+                        <span>
+                          <strong>{describeApplication(application)}</strong>
+                          <span className={styles.rowMeta}>{describeRow(row)}</span>
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </article>
+
+              <article className={styles.group}>
+                <h2 className={styles.panelTitle}>Needs a closer look ({result.ambiguous.length})</h2>
+                <ul className={styles.rowList}>
+                  {result.ambiguous.map(({ row, reason, candidates }) => (
+                    <li key={row.line} className={styles.rowItem}>
+                      <span>
+                        <strong>{describeRow(row)}</strong>
+                        <span className={styles.rowReason}>{reasonLabels[reason]}</span>
+                        {candidates.map((candidate) => (
+                          <span key={candidate.id} className={styles.rowMeta}>{describeApplication(candidate)}</span>
+                        ))}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </article>
+
+              <article className={styles.group}>
+                <h2 className={styles.panelTitle}>Unmatched rows ({result.unmatched.length})</h2>
+                <ul className={styles.rowList}>
+                  {result.unmatched.map(({ row, reason }) => (
+                    <li key={row.line} className={styles.rowItem}>
+                      <span>
+                        <strong>{describeRow(row)}</strong>
+                        <span className={styles.rowReason}>{reasonLabels[reason]}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </article>
+
+              <article className={styles.group}>
+                <h2 className={styles.panelTitle}>
+                  Unverified applications without a statement row ({result.unmatchedApplications.length})
+                </h2>
+                <ul className={styles.rowList}>
+                  {result.unmatchedApplications.map((application) => (
+                    <li key={application.id} className={styles.rowItem}>
+                      <span>{describeApplication(application)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </article>
+            </>
+          )}
+
+          <article className={styles.group}>
+            <div className={styles.groupHead}>
+              <h2 className={styles.panelTitle}>Refunds ({refunds.length})</h2>
+              <a
+                className={`${styles.btn} ${styles.btnGhost}`}
+                href={adminRefundsExportUrl({ cycleId: cycleId || undefined })}
+              >
+                Export CSV
+              </a>
+            </div>
+            {refunds.length === 0 ? <p className={styles.empty}>No refunds for this cycle.</p> : null}
+            <ul className={styles.rowList}>
+              {refunds.map((refund) => (
+                <li key={refund.id} className={styles.rowItem}>
+                  <span>
+                    <strong>
+                      {refund.application.user.name || "Unnamed"} · {formatAmount(refund.amount)} via {refund.method}
+                    </strong>
+                    <span className={styles.rowReason}>{refundStatusLabels[refund.status]}</span>
+                    <span className={styles.rowMeta}>
+                      {refund.reference ? `Ref ${refund.reference}` : "No transfer reference yet"}
+                      {refund.processedBy ? ` · ${refund.processedBy.name || refund.processedBy.email}` : ""}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </article>
+        </section>
+      </div>
+    </main>
+  );
+}
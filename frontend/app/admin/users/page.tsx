@@ -0,0 +1,217 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getAdminUsers, getSession, updateAdminUserRole } from "@/lib/api/client";
+import type { AdminUser, UserRole } from "@/lib/api/types";
+import styles from "./page.module.css";
+
+const API_ORIGIN = process.env.NEXT_PUBLIC_API_ORIGIN ?? "http://localhost:4000";
+
+type RoleFilter = "ALL" | UserRole;
+
+const roleFilterLabels: Record<RoleFilter, string> = {
+  ALL: "Everyone",
+  ADMIN: "Admins",
+  MEMBER: "Members",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+export default function AdminUsersPage() {
+  const [loading, setLoading] = useState(true);
+  const [authState, setAuthState] = useState<"admin" | "signed_out" | "forbidden">("signed_out");
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>("ALL");
+  const [query, setQuery] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const refreshUsers = useCallback(async () => {
+    const response = await getAdminUsers(roleFilter === "ALL" ? undefined : roleFilter);
+    setUsers(response.data);
+  }, [roleFilter]);
+
+  const loadPage = useCallback(async () => {
+    setLoading(true);
+    setErrorMessage(null);
+    try {
+      const session = await getSession();
+      if (!session.user) { setAuthState("signed_out"); return; }
+      if (session.user.role !== "ADMIN") { setAuthState("forbidden"); return; }
+      setAuthState("admin");
+      setCurrentUserId(session.user.id);
+      await refreshUsers();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to load users.");
+    } finally {
+      setLoading(false);
+    }
+  }, [refreshUsers]);
+
+  useEffect(() => { void loadPage(); }, [loadPage]);
+
+  const visibleUsers = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return users;
+    return users.filter(
+      (user) => user.name.toLowerCase().includes(needle) || user.email.toLowerCase().includes(needle)
+    );
+  }, [users, query]);
+
+  const changeRole = async (user: AdminUser, role: UserRole) => {
+    if (
+      role === "MEMBER" &&
+      !window.confirm(`Remove admin access for ${user.name || user.email}? Their open reviews will be unassigned.`)
+    ) return;
+    setIsBusy(true); setErrorMessage(null); setSuccessMessage(null);
+    try {
+      const response = await updateAdminUserRole(user.id, role);
+      await refreshUsers();
+      const released = response.data.releasedAssignmentCount;
+      setSuccessMessage(
+        role === "ADMIN"
+          ? `${user.name || user.email} is now an admin.`
+          : `${user.name || user.email} is no longer an admin.` +
+              (released ? ` ${released} open review${released === 1 ? "" : "s"} unassigned.` : "")
+      );
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to change role.");
+    } finally { setIsBusy(false); }
+  };
+
+  // Mirrors the server guards so the button explains itself instead of failing.
+  const getLockReason = (user: AdminUser) => {
+    if (user.role !== "ADMIN") return null;
+    if (user.id === currentUserId) return "You cannot remove your own admin role.";
+    if (user.isBootstrapAdmin) return "Listed in ADMIN_EMAILS; remove it there.";
+    return null;
+  };
+
+  if (loading) {
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.heroTitle}>Loading users...</h1>
+        </header>
+      </main>
+    );
+  }
+
+  if (authState === "signed_out") {
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.heroTitle}>Users</h1>
+          <p className={styles.heroSubtitle}>Sign in with your admin account to continue.</p>
+        </header>
+        <a className={`${styles.btn} ${styles.btnPrimary}`} href={`${API_ORIGIN}/auth/google`}>
+          Sign in with Google
+        </a>
+      </main>
+    );
+  }
+
+  if (authState === "forbidden") {
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.heroTitle}>Access denied</h1>
+          <p className={styles.heroSubtitle}>Your account does not have admin permissions.</p>
+        </header>
+      </main>
+    );
+  }
+
+  const adminCount = users.filter((user) => user.role === "ADMIN").length;
+
+  return (
+    <main className={styles.page}>
+      <header className={styles.hero}>
+        <h1 className={styles.heroTitle}>Users</h1>
+        <p className={styles.heroSubtitle}>
+          {users.length} user{users.length === 1 ? "" : "s"}
+          {roleFilter !== "MEMBER" ? ` · ${adminCount} admin${adminCount === 1 ? "" : "s"}` : ""}
+        </p>
+      </header>
+
+      {errorMessage ? <div className={`${styles.toast} ${styles.toastError}`}>{errorMessage}</div> : null}
+      {successMessage ? <div className={`${styles.toast} ${styles.toastSuccess}`}>{successMessage}</div> : null}
+
+      <section className={styles.panel}>
+        <div className={styles.toolbar}>
+          <div className={styles.filterTabs}>
+            {(Object.keys(roleFilterLabels) as RoleFilter[]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                className={`${styles.filterTab} ${roleFilter === key ? styles.filterTabActive : ""}`}
+                onClick={() => setRoleFilter(key)}
+              >
+                {roleFilterLabels[key]}
+              </button>
+            ))}
+          </div>
+          <input
+            className={styles.search}
+            type="search"
+            placeholder="Search by name or email"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            aria-label="Search users"
+          />
+        </div>
+
+        {visibleUsers.length === 0 ? <p className={styles.empty}>No users found.</p> : null}
+        <ul className={styles.userList}>
+          {visibleUsers.map((user) => {
+            const lockReason = getLockReason(user);
+            const latest = user.applications[0];
+            return (
+              <li key={user.id} className={styles.userRow}>
+                <div className={styles.userInfo}>
+                  <strong className={styles.userName}>
+                    {user.name || "Unnamed"}
+                    {user.id === currentUserId ? <span className={styles.userYou}> (you)</span> : null}
+                  </strong>
+                  <span className={styles.userMeta}>
+                    {user.email} · joined {formatDate(user.createdAt)}
+                    {latest ? ` · ${latest.cycle.name}: ${latest.status.toLowerCase()}` : ""}
+                  </span>
+                </div>
+                <div className={styles.userRole}>
+                  <span className={`${styles.rolePill} ${user.role === "ADMIN" ? styles.roleAdmin : ""}`}>
+                    {user.role === "ADMIN" ? "Admin" : "Member"}
+                  </span>
+                  {user.isBootstrapAdmin ? <span className={styles.envBadge}>ADMIN_EMAILS</span> : null}
+                  {user.role === "ADMIN" ? (
+                    <button
+                      type="button"
+                      className={`${styles.btn} ${styles.btnGhost}`}
+                      disabled={isBusy || lockReason !== null}
+                      title={lockReason ?? undefined}
+                      onClick={() => { void changeRole(user, "MEMBER"); }}
+                    >
+                      Remove admin
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      className={`${styles.btn} ${styles.btnGhost}`}
+                      disabled={isBusy}
+                      onClick={() => { void changeRole(user, "ADMIN"); }}
+                    >
+                      Make admin
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </main>
+  );
+}
@@ -2,21 +2,39 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
+  applicationInterviewIcsUrl,
+  bookInterviewSlot,
+  cancelInterviewBooking,
+  confirmPaymentProof,
   deleteApplicationDraft,
   getApplication,
+  getApplicationForm,
+  getApplicationInterview,
   getSession,
   reapplyApplication,
   requestPaymentProofUploadUrl,
   saveApplicationDraft,
   startApplication,
   submitApplication,
+  withdrawApplication,
 } from "@/lib/api/client";
-import { ApiError, type ApplicationSummary } from "@/lib/api/types";
 import {
-  applicationAnswersPayloadSchema,
-  emptyApplicationForm,
+  ApiError,
+  type ApplicantRefund,
+  type ApplicationCycle,
+  type ApplicationFormDefinition,
+  type ApplicationInterviewResponse,
+  type ApplicationSummary,
+  type FeeScheduleEntry,
+  type FormQuestion,
+  type FormSection,
+} from "@/lib/api/types";
+import {
+  buildApplicationAnswersSchema,
+  createEmptyApplicationForm,
   fromApiAnswers,
-  labelByField,
+  getFormQuestions,
+  getLabelByField,
   toDraftPayload,
   toSubmitPayload,
   type ApplicationFormState,
@@ -27,139 +45,51 @@ const API_ORIGIN = process.env.NEXT_PUBLIC_API_ORIGIN ?? "http://localhost:3001"
 const PAYMENT_PROOF_MAX_BYTES = 10 * 1024 * 1024;
 const PAYMENT_ALLOWED_MIME = new Set(["image/jpeg", "image/png", "image/webp"]);
 
-const stepDefinitions = [
-  { label: "Personal", hint: "Identity and profile" },
-  { label: "Story", hint: "Your why and vision" },
-  { label: "Payment", hint: "Fee and proof" },
-  { label: "Review", hint: "Final check" },
-] as const;
-
-const requiredPersonalFields: Array<keyof ApplicationFormState> = [
-  "email",
-  "fullName",
-  "universityAndBranch",
-  "currentYearLevelAndProgram",
-  "facebookLink",
-  "resumeOrCv",
-  "hobbiesAndInterests",
-];
-
-const requiredStoryFields: Array<keyof ApplicationFormState> = [
-  "personalWhy",
-  "currentBuildingOrWantToBuild",
-  "whyAsesManila",
-  "oneToTwoYearVision",
-  "fiveYearVision",
-  "uniqueAboutYou",
-];
-
-const requiredPaymentFields: Array<keyof ApplicationFormState> = [
-  "memberType",
-  "universityType",
-  "amountPaid",
-  "referenceNumber",
-];
-
-const stepIndexByField: Record<keyof ApplicationFormState, number> = {
-  description: 3,
-  email: 0,
-  fullName: 0,
-  universityAndBranch: 0,
-  currentYearLevelAndProgram: 0,
-  facebookLink: 0,
-  resumeOrCv: 0,
-  linkedInLink: 0,
-  hobbiesAndInterests: 0,
-  personalWhy: 1,
-  currentBuildingOrWantToBuild: 1,
-  whyAsesManila: 1,
-  oneToTwoYearVision: 1,
-  fiveYearVision: 1,
-  uniqueAboutYou: 1,
-  memberType: 2,
-  universityType: 2,
-  amountPaid: 2,
-  referenceNumber: 2,
-};
-
-const isFormFieldFilled = (
-  form: ApplicationFormState,
-  field: keyof ApplicationFormState
-) => {
-  const value = form[field];
-  if (field === "amountPaid") {
+const isFormFieldFilled = (form: ApplicationFormState, question: FormQuestion) => {
+  const value = form[question.id] ?? "";
+  if (question.type === "number") {
     const amount = Number(value);
-    return Number.isFinite(amount) && amount > 0;
+    return value.trim().length > 0 && Number.isFinite(amount) && amount > 0;
   }
 
-  return typeof value === "string" && value.trim().length > 0;
+  return value.trim().length > 0;
 };
 
+const isSectionComplete = (
+  section: FormSection,
+  form: ApplicationFormState,
+  missingPaymentProof: boolean
+) =>
+  section.questions
+    .filter((question) => question.required)
+    .every((question) => isFormFieldFilled(form, question)) &&
+  !(section.includesPaymentProof && missingPaymentProof);
+
+/* The last section doubles as the review step. */
 const getFirstIncompleteStep = (
+  sections: FormSection[],
   form: ApplicationFormState,
   missingPaymentProof: boolean
 ) => {
-  const personalComplete = requiredPersonalFields.every((field) =>
-    isFormFieldFilled(form, field)
-  );
-  if (!personalComplete) {
-    return 0;
-  }
-
-  const storyComplete = requiredStoryFields.every((field) =>
-    isFormFieldFilled(form, field)
-  );
-  if (!storyComplete) {
-    return 1;
-  }
-
-  const paymentComplete =
-    requiredPaymentFields.every((field) => isFormFieldFilled(form, field)) &&
-    !missingPaymentProof;
-  if (!paymentComplete) {
-    return 2;
-  }
+  const lastStep = Math.max(0, sections.length - 1);
+  const index = sections
+    .slice(0, lastStep)
+    .findIndex((section) => !isSectionComplete(section, form, missingPaymentProof));
+  return index === -1 ? lastStep : index;
+};
 
-  return 3;
+const getStepIndexByField = (sections: FormSection[]) => {
+  const result: Record<string, number> = {};
+  sections.forEach((section, index) => {
+    for (const question of section.questions) {
+      result[question.id] = index;
+    }
+  });
+  return result;
 };
 
-/* ── Answer display groups (for submitted view) ────── */
-const answerSections = [
-  {
-    title: "Personal details",
-    fields: [
-      "description",
-      "email",
-      "fullName",
-      "universityAndBranch",
-      "currentYearLevelAndProgram",
-      "facebookLink",
-      "linkedInLink",
-      "resumeOrCv",
-      "hobbiesAndInterests",
-    ] as Array<keyof ApplicationFormState>,
-  },
-  {
-    title: "Your story",
-    fields: [
-      "personalWhy",
-      "currentBuildingOrWantToBuild",
-      "whyAsesManila",
-      "oneToTwoYearVision",
-      "fiveYearVision",
-      "uniqueAboutYou",
-    ] as Array<keyof ApplicationFormState>,
-  },
-  {
-    title: "Payment and membership",
-    fields: [
-      "memberType",
-      "universityType",
-      "amountPaid",
-      "referenceNumber",
-    ] as Array<keyof ApplicationFormState>,
-  },
-];
+const formatFee = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 2 });
 
 const formatDateTime = (value: string | null) => {
   if (!value) {
@@ -174,6 +104,32 @@ const formatDateTime = (value: string | null) => {
   return date.toLocaleString();
 };
 
+const refundMessage = (refund: ApplicantRefund) => {
+  const amount = `Php ${formatFee(refund.amount)} via ${refund.method}`;
+  if (refund.status === "SENT") {
+    return `Your refund of ${amount} was sent on ${formatDateTime(refund.sentAt)}${
+      refund.reference ? ` (reference ${refund.reference})` : ""
+    }.`;
+  }
+  if (refund.status === "APPROVED") {
+    return `Your refund of ${amount} was approved and will be sent soon.`;
+  }
+  return `A refund of ${amount} has been requested and is awaiting approval.`;
+};
+
+const formatSlotRange = (startsAt: string, endsAt: string) => {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const day = start.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const time = (date: Date) =>
+    date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+  return `${day}, ${time(start)} – ${time(end)}`;
+};
+
 const formatSavedTime = (value: string | null): string | null => {
   if (!value) {
     return null;
@@ -228,36 +184,47 @@ const statusConfig = (status: ApplicationSummary["status"] | null) => {
     return { label: "Under review", className: styles.statusPending };
   }
 
+  if (status === "INTERVIEW") {
+    return { label: "Interview stage", className: styles.statusInterview };
+  }
+
   if (status === "REJECTED") {
     return { label: "Needs revision", className: styles.statusRejected };
   }
 
+  if (status === "WAITLISTED") {
+    return { label: "Waitlisted", className: styles.statusWaitlisted };
+  }
+
+  if (status === "WITHDRAWN") {
+    return { label: "Withdrawn", className: styles.statusWithdrawn };
+  }
+
   return { label: "Accepted", className: styles.statusAccepted };
 };
 
-type FieldErrorMap = Partial<Record<keyof ApplicationFormState, string>>;
+type FieldErrorMap = Partial<Record<string, string>>;
 
-const toFriendlyFieldError = (
-  field: keyof ApplicationFormState,
-  message?: string
-): string => {
+const toFriendlyFieldError = (question: FormQuestion, message?: string): string => {
   const normalized = (message ?? "").toLowerCase();
 
-  if (field === "email") {
+  if (question.type === "email") {
     return normalized.includes("email")
       ? "Please enter a valid email address."
       : "Please enter your email address.";
   }
 
-  if (field === "facebookLink" || field === "resumeOrCv" || field === "linkedInLink") {
+  if (question.type === "url") {
     return "Please enter a valid link (include https://).";
   }
 
-  if (field === "amountPaid") {
-    return "Please enter a valid amount greater than 0.";
+  if (question.type === "number") {
+    return question.min != null
+      ? `Please enter a valid amount of at least ${question.min}.`
+      : "Please enter a valid number.";
   }
 
-  if (field === "memberType" || field === "universityType") {
+  if (question.type === "select") {
     return "Please choose an option.";
   }
 
@@ -270,7 +237,7 @@ const toFriendlyFieldError = (
     normalized.includes("required") ||
     normalized.includes("expected")
   ) {
-    const cleanLabel = labelByField[field]
+    const cleanLabel = question.label
       .replace(/\(optional\)/gi, "")
       .trim()
       .toLowerCase();
@@ -280,33 +247,43 @@ const toFriendlyFieldError = (
   return "Please check this answer and try again.";
 };
 
-const normalizeServerIssues = (error: ApiError): FieldErrorMap => {
+const toFieldErrors = (
+  questionById: Map<string, FormQuestion>,
+  issues: Array<{ path?: Array<string | number>; message?: string }>
+): FieldErrorMap => {
   const result: FieldErrorMap = {};
 
-  const details = error.details as
-    | { issues?: Array<{ path?: Array<string | number>; message?: string }> }
-    | undefined;
-
-  for (const issue of details?.issues ?? []) {
+  for (const issue of issues) {
     const key = issue.path?.[0] === "answers" ? issue.path[1] : issue.path?.[0];
-    if (typeof key === "string" && key in labelByField) {
-      const field = key as keyof ApplicationFormState;
-      result[field] = toFriendlyFieldError(field, issue.message);
+    const question = typeof key === "string" ? questionById.get(key) : undefined;
+    if (question && !result[question.id]) {
+      result[question.id] = toFriendlyFieldError(question, issue.message);
     }
   }
 
   return result;
 };
 
+const normalizeServerIssues = (
+  questionById: Map<string, FormQuestion>,
+  error: ApiError
+): FieldErrorMap => {
+  const details = error.details as
+    | { issues?: Array<{ path?: Array<string | number>; message?: string }> }
+    | undefined;
+
+  return toFieldErrors(questionById, details?.issues ?? []);
+};
+
 type TextInputProps = {
-  id: keyof ApplicationFormState;
+  id: string;
   label: string;
   value: string;
   placeholder?: string;
   hint?: string;
   disabled: boolean;
   error?: string;
-  onChange: (field: keyof ApplicationFormState, value: string) => void;
+  onChange: (field: string, value: string) => void;
   multiline?: boolean;
 };
 
@@ -345,6 +322,71 @@ const TextInput = ({
   </div>
 );
 
+type QuestionFieldProps = {
+  question: FormQuestion;
+  value: string;
+  disabled: boolean;
+  error?: string;
+  onChange: (field: string, value: string) => void;
+};
+
+const QuestionField = ({ question, value, disabled, error, onChange }: QuestionFieldProps) => {
+  if (question.type === "select") {
+    return (
+      <div className={styles.field}>
+        <label htmlFor={question.id}>{question.label}</label>
+        {question.helpText ? <p className={styles.fieldHint}>{question.helpText}</p> : null}
+        <select
+          id={question.id}
+          value={value}
+          disabled={disabled}
+          onChange={(event) => onChange(question.id, event.target.value)}
+        >
+          <option value="">Select</option>
+          {(question.options ?? []).map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {error ? <p className={styles.error}>{error}</p> : null}
+      </div>
+    );
+  }
+
+  return (
+    <TextInput
+      id={question.id}
+      label={question.label}
+      hint={question.helpText}
+      placeholder={question.placeholder}
+      value={value}
+      onChange={onChange}
+      disabled={disabled}
+      error={error}
+      multiline={question.type === "long_text"}
+    />
+  );
+};
+
+/* Consecutive half-width questions share a row. */
+const groupQuestionRows = (questions: FormQuestion[]) => {
+  const rows: FormQuestion[][] = [];
+  for (const question of questions) {
+    const previous = rows[rows.length - 1];
+    if (
+      question.width === "half" &&
+      previous?.length === 1 &&
+      previous[0].width === "half"
+    ) {
+      previous.push(question);
+    } else {
+      rows.push([question]);
+    }
+  }
+  return rows;
+};
+
 /* ── Collapsible answer display row ────────────────── */
 const AnswerRow = ({ label, value }: { label: string; value: string }) => {
   if (!value.trim()) {
@@ -364,7 +406,10 @@ export default function ApplicationPage() {
   const [sessionUser, setSessionUser] = useState<{ id: string; name: string } | null>(null);
   const [hasApplication, setHasApplication] = useState(false);
   const [application, setApplication] = useState<ApplicationSummary | null>(null);
-  const [form, setForm] = useState<ApplicationFormState>(emptyApplicationForm);
+  const [cycle, setCycle] = useState<ApplicationCycle | null>(null);
+  const [fees, setFees] = useState<FeeScheduleEntry[]>([]);
+  const [formDefinition, setFormDefinition] = useState<ApplicationFormDefinition | null>(null);
+  const [form, setForm] = useState<ApplicationFormState>({});
   const [dirty, setDirty] = useState(false);
   const [autosaveReady, setAutosaveReady] = useState(false);
   const [isAutosaving, setIsAutosaving] = useState(false);
@@ -379,21 +424,60 @@ export default function ApplicationPage() {
   const [fieldErrors, setFieldErrors] = useState<FieldErrorMap>({});
   const [showSubmission, setShowSubmission] = useState(false);
   const [showDraftStatus, setShowDraftStatus] = useState(false);
+  const [showWithdrawConfirm, setShowWithdrawConfirm] = useState(false);
+  const [withdrawReason, setWithdrawReason] = useState("");
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [interview, setInterview] = useState<ApplicationInterviewResponse["data"] | null>(null);
+  const [isUpdatingInterview, setIsUpdatingInterview] = useState(false);
   const draftTopRef = useRef<HTMLElement | null>(null);
   const [clockTick, setClockTick] = useState(() => Date.now());
 
   const isEditable = application?.status === "DRAFT" || application?.status === "REJECTED";
-  const isSubmitted = application?.status === "PENDING" || application?.status === "ACCEPTED";
+  const isSubmitted =
+    application?.status === "PENDING" ||
+    application?.status === "INTERVIEW" ||
+    application?.status === "WAITLISTED" ||
+    application?.status === "ACCEPTED";
+
+  const sections = useMemo(() => formDefinition?.sections ?? [], [formDefinition]);
+  const questions = useMemo(() => getFormQuestions(sections), [sections]);
+  const questionById = useMemo(
+    () => new Map(questions.map((question) => [question.id, question])),
+    [questions]
+  );
+  const labelByField = useMemo(() => getLabelByField(sections), [sections]);
+  const stepIndexByField = useMemo(() => getStepIndexByField(sections), [sections]);
+  const lastStep = Math.max(0, sections.length - 1);
+
+  const optionLabel = useCallback(
+    (questionId: string, value: string) =>
+      questionById.get(questionId)?.options?.find((option) => option.value === value)?.label ?? value,
+    [questionById]
+  );
+  // Follows the unsaved answers so the fee updates as soon as the applicant picks their type.
+  const expectedFee = useMemo(
+    () =>
+      fees.find(
+        (fee) => fee.memberType === form.memberType && fee.universityType === form.universityType
+      )?.amount ?? null,
+    [fees, form.memberType, form.universityType]
+  );
+  const amountPaid = form.amountPaid?.trim() ? Number(form.amountPaid) : null;
 
   const loadApplication = useCallback(async (shouldResetForm = true) => {
     const response = await getApplication();
+    const formResponse = response.cycle ? await getApplicationForm() : null;
+    const loadedSections = formResponse?.data.sections ?? [];
+    setCycle(response.cycle);
+    setFees(response.fees);
+    setFormDefinition(formResponse?.data ?? null);
 
     if (!response.hasApplication) {
       setHasApplication(false);
       setApplication(null);
       setAutosaveError(null);
       if (shouldResetForm) {
-        setForm(emptyApplicationForm);
+        setForm(createEmptyApplicationForm(loadedSections));
         setActiveStep(0);
         setShowDraftStatus(false);
       }
@@ -404,8 +488,13 @@ export default function ApplicationPage() {
     setHasApplication(true);
     setApplication(response.application);
     setAutosaveError(null);
+    setInterview(
+      response.application.status === "INTERVIEW"
+        ? (await getApplicationInterview()).data
+        : null
+    );
     if (shouldResetForm) {
-      const hydratedForm = fromApiAnswers(response.application.answers);
+      const hydratedForm = fromApiAnswers(loadedSections, response.application.answers);
       setForm(hydratedForm);
       setDirty(false);
       setShowDraftStatus(false);
@@ -415,12 +504,13 @@ export default function ApplicationPage() {
       ) {
         setActiveStep(
           getFirstIncompleteStep(
+            loadedSections,
             hydratedForm,
             response.application.missingPaymentProof
           )
         );
       } else {
-        setActiveStep(3);
+        setActiveStep(Math.max(0, loadedSections.length - 1));
       }
     }
   }, []);
@@ -435,7 +525,7 @@ export default function ApplicationPage() {
         setSessionUser(null);
         setHasApplication(false);
         setApplication(null);
-        setForm(emptyApplicationForm);
+        setForm({});
         return;
       }
 
@@ -474,7 +564,7 @@ export default function ApplicationPage() {
     };
   }, [application?.updatedAt]);
 
-  const onFieldChange = (field: keyof ApplicationFormState, value: string) => {
+  const onFieldChange = (field: string, value: string) => {
     if (form[field] === value) {
       return;
     }
@@ -504,18 +594,18 @@ export default function ApplicationPage() {
     }
 
     setShowDraftStatus(false);
-    goToStep(getFirstIncompleteStep(form, application.missingPaymentProof));
-  }, [application, form, goToStep]);
+    goToStep(getFirstIncompleteStep(sections, form, application.missingPaymentProof));
+  }, [application, form, goToStep, sections]);
 
   useEffect(() => {
     if (!autosaveReady || !dirty || !isEditable || !hasApplication) {
       return;
     }
 
-    const persistedForm = fromApiAnswers(application?.answers ?? {});
-    const hasUnsavedChanges = (
-      Object.keys(emptyApplicationForm) as Array<keyof ApplicationFormState>
-    ).some((field) => form[field] !== persistedForm[field]);
+    const persistedForm = fromApiAnswers(sections, application?.answers ?? {});
+    const hasUnsavedChanges = questions.some(
+      (question) => form[question.id] !== persistedForm[question.id]
+    );
 
     if (!hasUnsavedChanges) {
       setDirty(false);
@@ -549,7 +639,7 @@ export default function ApplicationPage() {
     return () => {
       window.clearTimeout(timer);
     };
-  }, [application?.answers, autosaveReady, dirty, isEditable, hasApplication, form]);
+  }, [application?.answers, autosaveReady, dirty, isEditable, hasApplication, form, sections, questions]);
 
   const startDraft = async () => {
     setIsStarting(true);
@@ -557,9 +647,13 @@ export default function ApplicationPage() {
     setSuccessMessage(null);
 
     try {
-      await startApplication();
+      const response = await startApplication();
       await loadApplication(true);
-      setSuccessMessage("Application draft started. Your responses will autosave.");
+      setSuccessMessage(
+        response.restarted
+          ? "Application reopened as a draft. Your previous answers were kept."
+          : "Application draft started. Your responses will autosave."
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unable to start application.";
       setErrorMessage(message);
@@ -592,16 +686,23 @@ export default function ApplicationPage() {
     try {
       const signed = await requestPaymentProofUploadUrl(uploadFile.type, uploadFile.size);
 
+      const form = new FormData();
+      for (const [name, value] of Object.entries(signed.data.fields)) {
+        form.append(name, value);
+      }
+      // Storage only reads fields that come before the file.
+      form.append("file", uploadFile);
+
       const uploadResponse = await fetch(signed.data.uploadUrl, {
         method: signed.data.method,
-        headers: signed.data.requiredHeaders,
-        body: uploadFile,
+        body: form,
       });
 
       if (!uploadResponse.ok) {
         throw new Error("Payment proof upload failed.");
       }
 
+      await confirmPaymentProof(signed.data.objectKey);
       await loadApplication(false);
       setUploadFile(null);
       setSuccessMessage("Payment proof uploaded.");
@@ -622,23 +723,16 @@ export default function ApplicationPage() {
     setSuccessMessage(null);
     setFieldErrors({});
 
-    const payload = toSubmitPayload(form);
-    const validation = applicationAnswersPayloadSchema.safeParse(payload);
+    const payload = toSubmitPayload(sections, form);
+    const validation = buildApplicationAnswersSchema(sections).safeParse(payload);
 
     if (!validation.success) {
-      const nextErrors: FieldErrorMap = {};
-      for (const issue of validation.error.issues) {
-        const key = issue.path[0];
-        if (typeof key === "string" && key in labelByField) {
-          const field = key as keyof ApplicationFormState;
-          nextErrors[field] = toFriendlyFieldError(field, issue.message);
-        }
-      }
+      const nextErrors = toFieldErrors(questionById, validation.error.issues);
       setFieldErrors(nextErrors);
       setErrorMessage("Please fix highlighted fields before submitting.");
-      const firstFieldWithError = (
-        Object.keys(nextErrors) as Array<keyof ApplicationFormState>
-      ).find((field) => Boolean(nextErrors[field]));
+      const firstFieldWithError = Object.keys(nextErrors).find((field) =>
+        Boolean(nextErrors[field])
+      );
       if (firstFieldWithError) {
         goToStep(stepIndexByField[firstFieldWithError]);
       }
@@ -656,15 +750,15 @@ export default function ApplicationPage() {
         setSuccessMessage("Application submitted successfully.");
       }
       await loadApplication(true);
-      goToStep(3);
+      goToStep(lastStep);
     } catch (error) {
       if (error instanceof ApiError) {
-        const normalized = normalizeServerIssues(error);
+        const normalized = normalizeServerIssues(questionById, error);
         if (Object.keys(normalized).length > 0) {
           setFieldErrors(normalized);
-          const firstFieldWithError = (
-            Object.keys(normalized) as Array<keyof ApplicationFormState>
-          ).find((field) => Boolean(normalized[field]));
+          const firstFieldWithError = Object.keys(normalized).find((field) =>
+            Boolean(normalized[field])
+          );
           if (firstFieldWithError) {
             goToStep(stepIndexByField[firstFieldWithError]);
           }
@@ -679,65 +773,63 @@ export default function ApplicationPage() {
     }
   };
 
-  const isFieldFilled = useCallback(
-    (field: keyof ApplicationFormState) => isFormFieldFilled(form, field),
-    [form]
-  );
-
-  const stepCompletion = useMemo(() => {
-    const personalComplete = requiredPersonalFields.every(isFieldFilled);
-    const storyComplete = requiredStoryFields.every(isFieldFilled);
-    const paymentComplete =
-      requiredPaymentFields.every(isFieldFilled) && Boolean(application) && !application?.missingPaymentProof;
-
-    return [personalComplete, storyComplete, paymentComplete];
-  }, [application, isFieldFilled]);
-
   const reviewReady = Boolean(application?.isCompleteForSubmission);
 
   const stepStatus = useMemo(
-    () => [stepCompletion[0], stepCompletion[1], stepCompletion[2], reviewReady],
-    [reviewReady, stepCompletion]
+    () =>
+      sections.map((section, index) =>
+        index === lastStep
+          ? reviewReady
+          : Boolean(application) &&
+            isSectionComplete(section, form, application?.missingPaymentProof ?? true)
+      ),
+    [application, form, lastStep, reviewReady, sections]
   );
 
   const progressPercent = useMemo(() => {
+    const stepCount = Math.max(1, sections.length);
     const fromPosition =
       activeStep === 0
         ? 0
-        : ((activeStep + 0.5) / stepDefinitions.length) * 100;
-    const fromCompletion = (stepStatus.filter(Boolean).length / stepDefinitions.length) * 100;
-    if (application?.status === "PENDING" || application?.status === "ACCEPTED") {
+        : ((activeStep + 0.5) / stepCount) * 100;
+    const fromCompletion = (stepStatus.filter(Boolean).length / stepCount) * 100;
+    if (
+      application?.status === "PENDING" ||
+      application?.status === "INTERVIEW" ||
+      application?.status === "WAITLISTED" ||
+      application?.status === "ACCEPTED"
+    ) {
       return 100;
     }
     return Math.max(fromPosition, fromCompletion);
-  }, [activeStep, application?.status, stepStatus]);
+  }, [activeStep, application?.status, sections.length, stepStatus]);
 
   const missingFieldLabels = useMemo(() => {
     if (!application) {
       return [];
     }
 
-    return application.missingRequiredFields.map((field) => {
-      const key = field as keyof ApplicationFormState;
-      return labelByField[key] ?? field;
-    });
-  }, [application]);
+    return application.missingRequiredFields.map((field) => labelByField[field] ?? field);
+  }, [application, labelByField]);
 
   const errorStepIndexes = useMemo(() => {
     const indexes = new Set<number>();
-    for (const [field, message] of Object.entries(fieldErrors) as Array<
-      [keyof ApplicationFormState, string | undefined]
-    >) {
-      if (message) {
+    for (const [field, message] of Object.entries(fieldErrors)) {
+      if (message && field in stepIndexByField) {
         indexes.add(stepIndexByField[field]);
       }
     }
     return indexes;
-  }, [fieldErrors]);
+  }, [fieldErrors, stepIndexByField]);
 
-  const canGoNext = activeStep < stepDefinitions.length - 1;
+  const activeSection = sections[activeStep] ?? null;
+  const paymentStepIndex = Math.max(
+    0,
+    sections.findIndex((section) => section.includesPaymentProof)
+  );
+  const canGoNext = activeStep < lastStep;
   const showTopStepErrorIndicator =
-    Boolean(errorMessage) && (errorStepIndexes.size > 0 || activeStep === 3);
+    Boolean(errorMessage) && (errorStepIndexes.size > 0 || activeStep === lastStep);
   const topErrorPrefix =
     errorStepIndexes.size > 0 ? "Fix the highlighted sections above." : "Submission blocked.";
 
@@ -791,6 +883,75 @@ export default function ApplicationPage() {
     }
   };
 
+  const confirmWithdraw = async () => {
+    if (!application?.canWithdraw) {
+      return;
+    }
+
+    setIsWithdrawing(true);
+    setErrorMessage(null);
+    setSuccessMessage(null);
+
+    try {
+      await withdrawApplication(withdrawReason);
+      await loadApplication(true);
+      setShowWithdrawConfirm(false);
+      setWithdrawReason("");
+      setSuccessMessage("Your application has been withdrawn.");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to withdraw application.";
+      setErrorMessage(message);
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  const bookSlot = async (slotId: string) => {
+    setIsUpdatingInterview(true);
+    setErrorMessage(null);
+    setSuccessMessage(null);
+
+    try {
+      const hadBooking = Boolean(interview?.booking);
+      await bookInterviewSlot(slotId);
+      await loadApplication(false);
+      setSuccessMessage(hadBooking ? "Interview rescheduled." : "Interview booked.");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to book interview slot.";
+      setErrorMessage(message);
+      await loadApplication(false).catch(() => undefined);
+    } finally {
+      setIsUpdatingInterview(false);
+    }
+  };
+
+  const cancelBooking = async () => {
+    const confirmed = window.confirm(
+      "Cancel your interview booking? The slot will be released to other applicants."
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    setIsUpdatingInterview(true);
+    setErrorMessage(null);
+    setSuccessMessage(null);
+
+    try {
+      await cancelInterviewBooking();
+      await loadApplication(false);
+      setSuccessMessage("Interview booking cancelled.");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to cancel interview booking.";
+      setErrorMessage(message);
+    } finally {
+      setIsUpdatingInterview(false);
+    }
+  };
+
   /* ── Loading state ──────────────────────────────── */
   if (loading) {
     return (
@@ -873,18 +1034,95 @@ export default function ApplicationPage() {
             </svg>
           </div>
           <h2>Create your application</h2>
-          <p className={styles.helper}>
-            By starting your application, you agree to the data privacy terms above. Your progress saves automatically.
+          {cycle?.isOpen ? (
+            <>
+              <p className={styles.helper}>
+                By starting your application, you agree to the data privacy terms above. Your progress saves automatically.
+              </p>
+              <div className={styles.actions}>
+                <button
+                  type="button"
+                  className={`${styles.btn} ${styles.btnPrimary}`}
+                  onClick={startDraft}
+                  disabled={isStarting}
+                >
+                  {isStarting ? "Creating..." : "Start application"}
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className={styles.helper}>
+              {cycle
+                ? `Applications for the ${cycle.name} cycle are currently closed.`
+                : "There is no open recruitment cycle right now. Check back soon."}
+            </p>
+          )}
+          {errorMessage ? <p className={styles.error}>{errorMessage}</p> : null}
+          {successMessage ? <p className={styles.success}>{successMessage}</p> : null}
+        </section>
+      </main>
+    );
+  }
+
+  /* ── Withdrawn view ─────────────────────────────── */
+  if (application.status === "WITHDRAWN") {
+    const status = statusConfig(application.status);
+    return (
+      <main className={styles.page}>
+        <header className={styles.hero}>
+          <h1 className={styles.title}>Your application</h1>
+          <p className={styles.subtitle}>
+            You withdrew your application. Your answers and payment proof are kept, so you can pick up where you left off.
           </p>
-          <div className={styles.actions}>
-            <button
-              type="button"
-              className={`${styles.btn} ${styles.btnPrimary}`}
-              onClick={startDraft}
-              disabled={isStarting}
-            >
-              {isStarting ? "Creating..." : "Start application"}
-            </button>
+        </header>
+
+        {application.refund ? (
+          <section className={`${styles.notice} ${styles.noticeInfo}`}>
+            {refundMessage(application.refund)}
+          </section>
+        ) : null}
+
+        <section className={styles.submittedCard}>
+          <div className={styles.submittedHeader}>
+            <div className={styles.submittedStatusRow}>
+              <span className={`${styles.statusBadge} ${status.className}`}>
+                {status.label}
+              </span>
+            </div>
+            <h2 className={styles.submittedName}>{form.fullName || sessionUser.name}</h2>
+            <p className={styles.submittedEmail}>{form.email}</p>
+          </div>
+
+          <div className={styles.submittedMeta}>
+            <div className={styles.metaItem}>
+              <span className={styles.metaLabel}>Withdrawn</span>
+              <span className={styles.metaValue}>{formatDateTime(application.withdrawnAt)}</span>
+            </div>
+            {application.withdrawalReason ? (
+              <div className={styles.metaItem}>
+                <span className={styles.metaLabel}>Reason</span>
+                <span className={styles.metaValue}>{application.withdrawalReason}</span>
+              </div>
+            ) : null}
+          </div>
+
+          <div className={styles.submittedActions}>
+            {application.canRestart && cycle?.isOpen ? (
+              <button
+                type="button"
+                className={`${styles.btn} ${styles.btnPrimary}`}
+                onClick={startDraft}
+                disabled={isStarting}
+              >
+                {isStarting ? "Reopening..." : "Start again"}
+              </button>
+            ) : (
+              <p className={styles.helper}>
+                {cycle
+                  ? `Applications for the ${cycle.name} cycle are currently closed.`
+                  : "There is no open recruitment cycle right now. Check back soon."}
+              </p>
+            )}
           </div>
           {errorMessage ? <p className={styles.error}>{errorMessage}</p> : null}
           {successMessage ? <p className={styles.success}>{successMessage}</p> : null}
@@ -903,7 +1141,11 @@ export default function ApplicationPage() {
           <p className={styles.subtitle}>
             {application.status === "ACCEPTED"
               ? "Congratulations! Your application has been accepted. Welcome to ASES Manila!"
-              : "Thank you for your interest! You'll receive an email within 5 days with the status of your application."}
+              : application.status === "INTERVIEW"
+                ? "You've been invited to an interview! Pick a time slot that works for you below."
+                : application.status === "WAITLISTED"
+                  ? "You're on the waitlist for this cycle. We'll let you know as soon as a spot opens up."
+                  : "Thank you for your interest! You'll receive an email within 5 days with the status of your application."}
           </p>
         </header>
 
@@ -936,11 +1178,19 @@ export default function ApplicationPage() {
               <span className={styles.metaValue}>
                 {application.paymentVerifiedAt
                   ? "Verified"
-                  : application.missingPaymentProof
-                    ? "Missing"
-                    : "Uploaded"}
+                  : application.paymentNeedsAttention
+                    ? "Needs attention"
+                    : application.missingPaymentProof
+                      ? "Missing"
+                      : "Uploaded"}
               </span>
             </div>
+            {application.status === "WAITLISTED" && application.waitlistPosition ? (
+              <div className={styles.metaItem}>
+                <span className={styles.metaLabel}>Waitlist position</span>
+                <span className={styles.metaValue}>#{application.waitlistPosition}</span>
+              </div>
+            ) : null}
             {application.reviewedAt ? (
               <div className={styles.metaItem}>
                 <span className={styles.metaLabel}>Reviewed</span>
@@ -956,6 +1206,154 @@ export default function ApplicationPage() {
               </a>
             </div>
           ) : null}
+
+          {application.paymentNeedsAttention ? (
+            <div className={styles.interviewSection}>
+              <h3 className={styles.interviewTitle}>Payment proof needs attention</h3>
+              <p className={`${styles.notice} ${styles.noticeWarn}`}>
+                {application.paymentRejectionReason}
+              </p>
+              <p className={styles.helper}>
+                Upload a new proof of payment. Your application stays in review while we check it.
+              </p>
+              <input
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                disabled={!application.canUploadPaymentProof || isUploading}
+                onChange={(event) => setUploadFile(event.target.files?.[0] ?? null)}
+              />
+              <div className={styles.actions}>
+                <button
+                  type="button"
+                  className={`${styles.btn} ${styles.btnPrimary}`}
+                  onClick={() => { void uploadPaymentProof(); }}
+                  disabled={!application.canUploadPaymentProof || !uploadFile || isUploading}
+                >
+                  {isUploading ? "Uploading..." : "Upload new proof"}
+                </button>
+              </div>
+            </div>
+          ) : null}
+
+          {application.status === "INTERVIEW" && interview ? (
+            <div className={styles.interviewSection}>
+              <h3 className={styles.interviewTitle}>Interview</h3>
+              {interview.booking ? (
+                <div className={styles.interviewBooking}>
+                  <span className={styles.metaLabel}>Your slot</span>
+                  <strong>{formatSlotRange(interview.booking.slot.startsAt, interview.booking.slot.endsAt)}</strong>
+                  {interview.booking.slot.location ? (
+                    <span className={styles.helper}>{interview.booking.slot.location}</span>
+                  ) : null}
+                  {interview.booking.slot.videoUrl ? (
+                    <a href={interview.booking.slot.videoUrl} target="_blank" rel="noreferrer">
+                      Join video call
+                    </a>
+                  ) : null}
+                  <div className={styles.actions}>
+                    <a className={`${styles.btn} ${styles.btnGhost}`} href={applicationInterviewIcsUrl}>
+                      Add to calendar
+                    </a>
+                    <button
+                      type="button"
+                      className={`${styles.btn} ${styles.btnDangerGhost}`}
+                      onClick={() => { void cancelBooking(); }}
+                      disabled={isUpdatingInterview}
+                    >
+                      Cancel booking
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className={styles.helper}>You haven&apos;t booked an interview yet.</p>
+              )}
+
+              {interview.slots.filter((slot) => slot.id !== interview.booking?.slot.id).length > 0 ? (
+                <>
+                  <span className={styles.metaLabel}>
+                    {interview.booking ? "Reschedule to" : "Available slots"}
+                  </span>
+                  <ul className={styles.slotList}>
+                    {interview.slots
+                      .filter((slot) => slot.id !== interview.booking?.slot.id)
+                      .map((slot) => (
+                        <li key={slot.id} className={styles.slotOption}>
+                          <span>
+                            <strong>{formatSlotRange(slot.startsAt, slot.endsAt)}</strong>
+                            <span className={styles.helper}>
+                              {slot.location ?? "Video call"} · {slot.remaining} left
+                            </span>
+                          </span>
+                          <button
+                            type="button"
+                            className={`${styles.btn} ${styles.btnSecondary}`}
+                            onClick={() => { void bookSlot(slot.id); }}
+                            disabled={isUpdatingInterview}
+                          >
+                            {interview.booking ? "Move here" : "Book"}
+                          </button>
+                        </li>
+                      ))}
+                  </ul>
+                </>
+              ) : (
+                <p className={styles.helper}>No other open slots right now. Check back soon.</p>
+              )}
+              {successMessage ? <p className={styles.success}>{successMessage}</p> : null}
+            </div>
+          ) : null}
+
+          {application.canWithdraw ? (
+            showWithdrawConfirm ? (
+              <div className={styles.withdrawConfirm}>
+                <p className={styles.helper}>
+                  {application.status === "ACCEPTED"
+                    ? "Withdrawing gives up your accepted spot so it can go to someone on the waitlist."
+                    : "Withdrawing removes your application from review."}{" "}
+                  You can start again later while the cycle is open.
+                </p>
+                <div className={styles.field}>
+                  <label htmlFor="withdrawReason">Reason (optional)</label>
+                  <textarea
+                    id="withdrawReason"
+                    value={withdrawReason}
+                    onChange={(e) => setWithdrawReason(e.target.value)}
+                    maxLength={1000}
+                    disabled={isWithdrawing}
+                  />
+                </div>
+                <div className={styles.actions}>
+                  <button
+                    type="button"
+                    className={`${styles.btn} ${styles.btnDangerGhost}`}
+                    onClick={() => { void confirmWithdraw(); }}
+                    disabled={isWithdrawing}
+                  >
+                    {isWithdrawing ? "Withdrawing..." : "Confirm withdrawal"}
+                  </button>
+                  <button
+                    type="button"
+                    className={`${styles.btn} ${styles.btnGhost}`}
+                    onClick={() => setShowWithdrawConfirm(false)}
+                    disabled={isWithdrawing}
+                  >
+                    Keep my application
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className={styles.submittedActions}>
+                <button
+                  type="button"
+                  className={`${styles.btn} ${styles.btnDangerGhost}`}
+                  onClick={() => setShowWithdrawConfirm(true)}
+                >
+                  Withdraw application
+                </button>
+              </div>
+            )
+          ) : null}
+          {errorMessage ? <p className={styles.error}>{errorMessage}</p> : null}
         </section>
 
         {/* Collapsible submission summary */}
@@ -989,15 +1387,15 @@ export default function ApplicationPage() {
 
           {showSubmission ? (
             <div className={styles.collapsibleContent}>
-              {answerSections.map((section) => (
-                <div key={section.title} className={styles.answerSection}>
+              {sections.map((section) => (
+                <div key={section.id} className={styles.answerSection}>
                   <h3 className={styles.answerSectionTitle}>{section.title}</h3>
                   <dl className={styles.answerList}>
-                    {section.fields.map((field) => (
+                    {section.questions.map((question) => (
                       <AnswerRow
-                        key={field}
-                        label={labelByField[field]}
-                        value={form[field]}
+                        key={question.id}
+                        label={question.label}
+                        value={form[question.id] ?? ""}
                       />
                     ))}
                   </dl>
@@ -1100,6 +1498,12 @@ export default function ApplicationPage() {
         </section>
       ) : null}
 
+      {application.status === "REJECTED" && application.refund ? (
+        <section className={`${styles.notice} ${styles.noticeInfo}`}>
+          {refundMessage(application.refund)}
+        </section>
+      ) : null}
+
       {showTopStepErrorIndicator ? (
         <section className={`${styles.notice} ${styles.noticeError}`}>
           {topErrorPrefix} {errorMessage}
@@ -1110,14 +1514,14 @@ export default function ApplicationPage() {
         {/* Step tabs — compact, single-line */}
         <nav className={styles.stepNav}>
           <div className={styles.stepTabs}>
-            {stepDefinitions.map((step, index) => {
+            {sections.map((section, index) => {
               const active = index === activeStep;
               const done = stepStatus[index];
               const hasErrors = errorStepIndexes.has(index);
               return (
                 <button
                   type="button"
-                  key={step.label}
+                  key={section.id}
                   className={`${styles.stepTab} ${active ? styles.stepTabActive : ""} ${
                     done ? styles.stepTabDone : ""
                   } ${hasErrors ? styles.stepTabError : ""}`}
@@ -1132,7 +1536,7 @@ export default function ApplicationPage() {
                       index + 1
                     )}
                   </span>
-                  {step.label}
+                  {section.title}
                   {hasErrors ? <span className={styles.stepErrorBadge}>!</span> : null}
                 </button>
               );
@@ -1144,465 +1548,277 @@ export default function ApplicationPage() {
         </nav>
 
         <div className={styles.body}>
-          {activeStep === 0 ? (
-            <article className={styles.card}>
-              <p className={styles.sectionHint}>Personal Details — tell us who you are.</p>
-              <div className={styles.fieldGrid}>
-                <div className={styles.inlineTwo}>
-                  <TextInput
-                    id="email"
-                    label={labelByField.email}
-                    hint="Please input your active email."
-                    value={form.email}
-                    onChange={onFieldChange}
-                    disabled={!isEditable}
-                    error={fieldErrors.email}
-                  />
-                  <TextInput
-                    id="fullName"
-                    label={labelByField.fullName}
-                    hint="Example: Favila, Lynn Kelly Rapada"
-                    placeholder="Last Name, First Name, Middle Name"
-                    value={form.fullName}
-                    onChange={onFieldChange}
-                    disabled={!isEditable}
-                    error={fieldErrors.fullName}
-                  />
-                </div>
-
-                <TextInput
-                  id="universityAndBranch"
-                  label={labelByField.universityAndBranch}
-                  hint="Please do not abbreviate."
-                  placeholder="e.g. University of the Philippines - Diliman"
-                  value={form.universityAndBranch}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  error={fieldErrors.universityAndBranch}
-                />
-
-                <TextInput
-                  id="currentYearLevelAndProgram"
-                  label={labelByField.currentYearLevelAndProgram}
-                  hint="Please do not abbreviate."
-                  placeholder="e.g. 2nd Year - BS Marketing Management"
-                  value={form.currentYearLevelAndProgram}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  error={fieldErrors.currentYearLevelAndProgram}
-                />
-
-                <div className={styles.inlineTwo}>
-                  <TextInput
-                    id="facebookLink"
-                    label={labelByField.facebookLink}
-                    hint="Required."
-                    placeholder="https://www.facebook.com/yourprofile"
-                    value={form.facebookLink}
-                    onChange={onFieldChange}
-                    disabled={!isEditable}
-                    error={fieldErrors.facebookLink}
-                  />
-                  <TextInput
-                    id="linkedInLink"
-                    label={labelByField.linkedInLink}
-                    hint="Optional."
-                    placeholder="https://www.linkedin.com/in/yourprofile"
-                    value={form.linkedInLink}
-                    onChange={onFieldChange}
-                    disabled={!isEditable}
-                    error={fieldErrors.linkedInLink}
-                  />
-                </div>
-
-                <TextInput
-                  id="resumeOrCv"
-                  label={labelByField.resumeOrCv}
-                  hint="Attach a working link to your Resume / CV. If not applicable, list your previous key projects/roles in bullet points."
-                  placeholder="https://drive.google.com/..."
-                  value={form.resumeOrCv}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  multiline
-                  error={fieldErrors.resumeOrCv}
-                />
-
-                <TextInput
-                  id="hobbiesAndInterests"
-                  label={labelByField.hobbiesAndInterests}
-                  value={form.hobbiesAndInterests}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  multiline
-                  error={fieldErrors.hobbiesAndInterests}
-                />
-              </div>
-            </article>
-          ) : null}
-
-          {activeStep === 1 ? (
-            <article className={styles.card}>
-              <p className={styles.sectionHint}>We got a few questions for you! Answer each in 3–4 sentences only.</p>
-              <div className={styles.fieldGrid}>
-                <TextInput
-                  id="personalWhy"
-                  label={labelByField.personalWhy}
-                  hint="The thing that drives you to achieve great things. Tell us what motivates you and fuels your ambition."
-                  value={form.personalWhy}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  multiline
-                  error={fieldErrors.personalWhy}
-                />
-
-                <TextInput
-                  id="currentBuildingOrWantToBuild"
-                  label={labelByField.currentBuildingOrWantToBuild}
-                  hint="Tell us about anything you are actively building. If you haven't started yet, share what you would like to build—and what problem you hope to solve."
-                  value={form.currentBuildingOrWantToBuild}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  multiline
-                  error={fieldErrors.currentBuildingOrWantToBuild}
-                />
-
-                <TextInput
-                  id="whyAsesManila"
-                  label={labelByField.whyAsesManila}
-                  hint="Tell us why this community matters to you and how it fits into your growth journey."
-                  value={form.whyAsesManila}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  multiline
-                  error={fieldErrors.whyAsesManila}
-                />
-
-                <TextInput
-                  id="oneToTwoYearVision"
-                  label={labelByField.oneToTwoYearVision}
-                  hint="Your short-term vision. What do you hope to learn, achieve, or create soon?"
-                  value={form.oneToTwoYearVision}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  multiline
-                  error={fieldErrors.oneToTwoYearVision}
-                />
-
-                <TextInput
-                  id="fiveYearVision"
-                  label={labelByField.fiveYearVision}
-                  hint="Your long-term vision. How do you plan to grow and make an impact in the future?"
-                  value={form.fiveYearVision}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  multiline
-                  error={fieldErrors.fiveYearVision}
-                />
-
-                <TextInput
-                  id="uniqueAboutYou"
-                  label={labelByField.uniqueAboutYou}
-                  hint="Something that sets you apart. Skills, perspectives, experiences, or qualities we can't find anywhere else."
-                  value={form.uniqueAboutYou}
-                  onChange={onFieldChange}
-                  disabled={!isEditable}
-                  multiline
-                  error={fieldErrors.uniqueAboutYou}
-                />
-              </div>
-            </article>
-          ) : null}
-
-          {activeStep === 2 ? (
+          {activeSection ? (
             <article className={styles.card}>
-              <p className={styles.sectionHint}>Application Fee &amp; Payment — kindly pay the membership fee before submitting.</p>
-
-              {/* Fee info box */}
-              <div className={styles.infoBox}>
-                <p className={styles.infoBoxTitle}>Membership Fees</p>
-                <ul className={styles.infoBoxList}>
-                  <li>New Member from Public University — <strong>Php 250</strong></li>
-                  <li>New Member from Private University — <strong>Php 350</strong></li>
-                  <li>Returning Member (regardless of university) — <strong>Php 250</strong></li>
-                </ul>
-              </div>
-
-              {/* Payment methods */}
-              <div className={styles.infoBox}>
-                <p className={styles.infoBoxTitle}>Payment Methods</p>
-                <div className={styles.paymentMethods}>
-                  <div>
-                    <p className={styles.paymentMethodLabel}>GCash</p>
-                    <p className={styles.paymentMethodValue}>Katherine Mae Duavit — 0927 686 5534</p>
-                  </div>
-                  <div>
-                    <p className={styles.paymentMethodLabel}>BPI</p>
-                    <p className={styles.paymentMethodValue}>Katherine Mae Duavit — 3089406047</p>
-                  </div>
-                </div>
-
-                <div className={styles.qrGrid}>
-                  <figure className={styles.qrCard}>
-                    <img
-                      src="/gcash_qr_ases.jpg"
-                      alt="GCash payment QR code"
-                      className={styles.qrImage}
-                      loading="lazy"
-                    />
-                    <figcaption className={styles.qrCaption}>GCash QR</figcaption>
-                  </figure>
-
-                  <figure className={styles.qrCard}>
-                    <img
-                      src="/bpi_qr_code.jpg"
-                      alt="BPI payment QR code"
-                      className={styles.qrImage}
-                      loading="lazy"
-                    />
-                    <figcaption className={styles.qrCaption}>BPI QR</figcaption>
-                  </figure>
-                </div>
-
-                <div className={styles.infoBoxNote}>
-                  <p>In the remarks/notes section of the transfer, include: <strong>ASES MNL - YOUR FULL NAME</strong></p>
-                  <p>Limit each transaction to one membership fee payment.</p>
-                  <p>Questions about payment? Contact Katherine Mae Duavit (0927 686 5534) or Facebook: Kat Duavit.</p>
-                </div>
-              </div>
-
-              <div className={styles.fieldGrid}>
-                <div className={styles.inlineTwo}>
-                  <div className={styles.field}>
-                    <label htmlFor="memberType">{labelByField.memberType}</label>
-                    <select
-                      id="memberType"
-                      value={form.memberType}
-                      disabled={!isEditable}
-                      onChange={(event) => onFieldChange("memberType", event.target.value)}
-                    >
-                      <option value="">Select</option>
-                      <option value="NEW">New</option>
-                      <option value="RETURNING">Returning</option>
-                    </select>
-                    {fieldErrors.memberType ? <p className={styles.error}>{fieldErrors.memberType}</p> : null}
-                  </div>
-
-                  <div className={styles.field}>
-                    <label htmlFor="universityType">{labelByField.universityType}</label>
-                    <select
-                      id="universityType"
-                      value={form.universityType}
-                      disabled={!isEditable}
-                      onChange={(event) => onFieldChange("universityType", event.target.value)}
-                    >
-                      <option value="">Select</option>
-                      <option value="PUBLIC">Public</option>
-                      <option value="PRIVATE">Private</option>
-                    </select>
-                    {fieldErrors.universityType ? (
-                      <p className={styles.error}>{fieldErrors.universityType}</p>
+              {activeSection.hint ? <p className={styles.sectionHint}>{activeSection.hint}</p> : null}
+
+              {activeSection.includesPaymentProof ? (
+                <>
+                  {/* Fee info box */}
+                  <div className={styles.infoBox}>
+                    <p className={styles.infoBoxTitle}>Membership Fees</p>
+                    <ul className={styles.infoBoxList}>
+                      {fees.map((fee) => (
+                        <li key={`${fee.memberType}:${fee.universityType}`}>
+                          {optionLabel("memberType", fee.memberType)} Member from{" "}
+                          {optionLabel("universityType", fee.universityType)} University —{" "}
+                          <strong>Php {formatFee(fee.amount)}</strong>
+                        </li>
+                      ))}
+                    </ul>
+                    {expectedFee !== null ? (
+                      <div className={styles.infoBoxNote}>
+                        <p>
+                          Based on your answers, your fee is <strong>Php {formatFee(expectedFee)}</strong>.
+                        </p>
+                        {amountPaid !== null && !Number.isNaN(amountPaid) && amountPaid !== expectedFee ? (
+                          <p>
+                            The amount paid you entered (Php {formatFee(amountPaid)}) does not match this fee.
+                            Reviewers will check the difference before verifying your payment.
+                          </p>
+                        ) : null}
+                      </div>
                     ) : null}
                   </div>
-                </div>
-
-                <div className={styles.inlineTwo}>
-                  <TextInput
-                    id="amountPaid"
-                    label={labelByField.amountPaid}
-                    placeholder="e.g. 350"
-                    value={form.amountPaid}
-                    onChange={onFieldChange}
-                    disabled={!isEditable}
-                    error={fieldErrors.amountPaid}
-                  />
-                  <TextInput
-                    id="referenceNumber"
-                    label={labelByField.referenceNumber}
-                    value={form.referenceNumber}
-                    onChange={onFieldChange}
-                    disabled={!isEditable}
-                    error={fieldErrors.referenceNumber}
-                  />
-                </div>
 
-                <div className={styles.uploadZone}>
-                  <p className={styles.uploadLabel}>Proof of payment</p>
-
-                  {/* Already uploaded indicator */}
-                  {!application.missingPaymentProof ? (
-                    <div className={styles.uploadSuccess}>
-                      <span className={styles.uploadSuccessIcon}>
-                        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-                          <polyline points="20 6 9 17 4 12" />
-                        </svg>
-                      </span>
+                  {/* Payment methods */}
+                  <div className={styles.infoBox}>
+                    <p className={styles.infoBoxTitle}>Payment Methods</p>
+                    <div className={styles.paymentMethods}>
                       <div>
-                        <p className={styles.uploadSuccessText}>Payment proof uploaded</p>
-                        <p className={styles.uploadSuccessHint}>You can upload a new file to replace it.</p>
+                        <p className={styles.paymentMethodLabel}>GCash</p>
+                        <p className={styles.paymentMethodValue}>Katherine Mae Duavit — 0927 686 5534</p>
+                      </div>
+                      <div>
+                        <p className={styles.paymentMethodLabel}>BPI</p>
+                        <p className={styles.paymentMethodValue}>Katherine Mae Duavit — 3089406047</p>
                       </div>
                     </div>
-                  ) : null}
 
-                  {/* Upload area */}
-                  <label
-                    htmlFor="paymentProof"
-                    className={`${styles.uploadDropzone} ${uploadFile ? styles.uploadDropzoneHasFile : ""} ${!isEditable ? styles.uploadDropzoneDisabled : ""}`}
-                  >
-                    <input
-                      id="paymentProof"
-                      type="file"
-                      accept="image/png,image/jpeg,image/webp"
+                    <div className={styles.qrGrid}>
+                      <figure className={styles.qrCard}>
+                        <img
+                          src="/gcash_qr_ases.jpg"
+                          alt="GCash payment QR code"
+                          className={styles.qrImage}
+                          loading="lazy"
+                        />
+                        <figcaption className={styles.qrCaption}>GCash QR</figcaption>
+                      </figure>
+
+                      <figure className={styles.qrCard}>
+                        <img
+                          src="/bpi_qr_code.jpg"
+                          alt="BPI payment QR code"
+                          className={styles.qrImage}
+                          loading="lazy"
+                        />
+                        <figcaption className={styles.qrCaption}>BPI QR</figcaption>
+                      </figure>
+                    </div>
+
+                    <div className={styles.infoBoxNote}>
+                      <p>In the remarks/notes section of the transfer, include: <strong>ASES MNL - YOUR FULL NAME</strong></p>
+                      <p>Limit each transaction to one membership fee payment.</p>
+                      <p>Questions about payment? Contact Katherine Mae Duavit (0927 686 5534) or Facebook: Kat Duavit.</p>
+                    </div>
+                  </div>
+                </>
+              ) : null}
+
+              <div className={styles.fieldGrid}>
+                {groupQuestionRows(activeSection.questions).map((row) => {
+                  const fields = row.map((question) => (
+                    <QuestionField
+                      key={question.id}
+                      question={question}
+                      value={form[question.id] ?? ""}
+                      onChange={onFieldChange}
                       disabled={!isEditable}
-                      className={styles.uploadHiddenInput}
-                      onChange={(event) => {
-                        const file = event.target.files?.[0] ?? null;
-                        setUploadFile(file);
-                      }}
+                      error={fieldErrors[question.id]}
                     />
-
-                    {uploadFile ? (
-                      <>
-                        <span className={styles.uploadFileIcon}>
-                          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
-                            <rect x="3" y="3" width="18" height="18" rx="2" ry="2" />
-                            <circle cx="8.5" cy="8.5" r="1.5" />
-                            <polyline points="21 15 16 10 5 21" />
-                          </svg>
-                        </span>
-                        <span className={styles.uploadFileName}>{uploadFile.name}</span>
-                        <span className={styles.uploadFileSize}>
-                          {(uploadFile.size / 1024).toFixed(0)} KB
-                        </span>
-                      </>
-                    ) : (
-                      <>
-                        <span className={styles.uploadIcon}>
-                          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
-                            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
-                            <polyline points="17 8 12 3 7 8" />
-                            <line x1="12" y1="3" x2="12" y2="15" />
-                          </svg>
-                        </span>
-                        <span className={styles.uploadPromptTitle}>
-                          Click to select an image
-                        </span>
-                        <span className={styles.uploadPromptHint}>
-                          JPEG, PNG, or WEBP up to 10 MB
-                        </span>
-                      </>
-                    )}
-                  </label>
-
-                  {/* Upload button */}
-                  {uploadFile ? (
-                    <div className={styles.uploadActions}>
-                      <button
-                        type="button"
-                        className={`${styles.btn} ${styles.btnSecondary}`}
-                        onClick={uploadPaymentProof}
-                        disabled={!isEditable || isUploading}
+                  ));
+                  return row.length > 1 ? (
+                    <div key={row[0].id} className={styles.inlineTwo}>
+                      {fields}
+                    </div>
+                  ) : (
+                    fields
+                  );
+                })}
+
+                {activeSection.includesPaymentProof ? (
+                  <>
+                    <div className={styles.uploadZone}>
+                      <p className={styles.uploadLabel}>Proof of payment</p>
+
+                      {/* Already uploaded indicator */}
+                      {!application.missingPaymentProof ? (
+                        <div className={styles.uploadSuccess}>
+                          <span className={styles.uploadSuccessIcon}>
+                            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                              <polyline points="20 6 9 17 4 12" />
+                            </svg>
+                          </span>
+                          <div>
+                            <p className={styles.uploadSuccessText}>Payment proof uploaded</p>
+                            <p className={styles.uploadSuccessHint}>You can upload a new file to replace it.</p>
+                          </div>
+                        </div>
+                      ) : null}
+
+                      {/* Upload area */}
+                      <label
+                        htmlFor="paymentProof"
+                        className={`${styles.uploadDropzone} ${uploadFile ? styles.uploadDropzoneHasFile : ""} ${!isEditable ? styles.uploadDropzoneDisabled : ""}`}
                       >
-                        {isUploading ? (
+                        <input
+                          id="paymentProof"
+                          type="file"
+                          accept="image/png,image/jpeg,image/webp"
+                          disabled={!isEditable}
+                          className={styles.uploadHiddenInput}
+                          onChange={(event) => {
+                            const file = event.target.files?.[0] ?? null;
+                            setUploadFile(file);
+                          }}
+                        />
+
+                        {uploadFile ? (
                           <>
-                            <span className={styles.spinner} />
-                            Uploading...
-                          </>
-                        ) : (
-                          "Upload payment proof"
-                        )}
-                      </button>
-                      <button
-                        type="button"
-                        className={`${styles.btn} ${styles.btnGhost}`}
-                        onClick={() => setUploadFile(null)}
-                        disabled={isUploading}
-                      >
-                        Cancel
-                      </button>
-                    </div>
-                  ) : application.missingPaymentProof ? (
-                    <p className={styles.uploadRequired}>Payment proof is required to submit.</p>
-                  ) : null}
-                </div>
-
-                {/* Disclaimer */}
-                <div className={styles.disclaimer}>
-                  <strong>Disclaimer:</strong> There are no refunds or returns for payments that are missing the remarks section (for bank-to-bank), and/or are over or under the payment. If under payment, the applicant is required to pay for the lacking amount. ASES Manila is not liable for any potential losses.
-                </div>
-              </div>
-            </article>
-          ) : null}
-
-          {activeStep === 3 ? (
-            <article className={styles.card}>
-              <p className={styles.sectionHint}>Nice one, that&apos;s about it! Verify everything looks good before submitting.</p>
-
-              <TextInput
-                id="description"
-                label={labelByField.description}
-                hint="Anything else we should know? Tell us more about yourself, your goals, or anything you'd like to add."
-                value={form.description}
-                onChange={onFieldChange}
-                disabled={!isEditable}
-                multiline
-              />
+                            <span className={styles.uploadFileIcon}>
+                              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                                <rect x="3" y="3" width="18" height="18" rx="2" ry="2" />
+                                <circle cx="8.5" cy="8.5" r="1.5" />
+                                <polyline points="21 15 16 10 5 21" />
+                              </svg>
+                            </span>
+                            <span className={styles.uploadFileName}>{uploadFile.name}</span>
+                            <span className={styles.uploadFileSize}>
+                              {(uploadFile.size / 1024).toFixed(0)} KB
+                            </span>
+                        </>
+                      ) : (
+                        <>
+                            <span className={styles.uploadIcon}>
+                              <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                                <polyline points="17 8 12 3 7 8" />
+                                <line x1="12" y1="3" x2="12" y2="15" />
+                              </svg>
+                            </span>
+                            <span className={styles.uploadPromptTitle}>
+                              Click to select an image
+                            </span>
+                            <span className={styles.uploadPromptHint}>
+                              JPEG, PNG, or WEBP up to 10 MB
+                            </span>
+                        </>
+                      )}
+                    </label>
+
+                    {/* Upload button */}
+                    {uploadFile ? (
+                      <div className={styles.uploadActions}>
+                        <button
+                          type="button"
+                          className={`${styles.btn} ${styles.btnSecondary}`}
+                          onClick={uploadPaymentProof}
+                          disabled={!isEditable || isUploading}
+                        >
+                          {isUploading ? (
+                            <>
+                                <span className={styles.spinner} />
+                                Uploading...
+                            </>
+                          ) : (
+                            "Upload payment proof"
+                          )}
+                        </button>
+                        <button
+                          type="button"
+                          className={`${styles.btn} ${styles.btnGhost}`}
+                          onClick={() => setUploadFile(null)}
+                          disabled={isUploading}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : application.missingPaymentProof ? (
+                      <p className={styles.uploadRequired}>Payment proof is required to submit.</p>
+                    ) : null}
+                  </div>
 
-              <div className={styles.reviewGrid}>
-                <div className={styles.reviewItem}>
-                  <p className={styles.reviewLabel}>Application status</p>
-                  <p className={styles.reviewValue}>{statusConfig(application.status).label}</p>
-                </div>
-                <div className={styles.reviewItem}>
-                  <p className={styles.reviewLabel}>Payment proof</p>
-                  <p className={styles.reviewValue}>{application.missingPaymentProof ? "Missing" : "Uploaded"}</p>
-                </div>
-                <div className={styles.reviewItem}>
-                  <p className={styles.reviewLabel}>Submission readiness</p>
-                  <p className={styles.reviewValue}>
-                    {application.isCompleteForSubmission ? "Ready to submit" : "Still incomplete"}
-                  </p>
-                </div>
-                <div className={styles.reviewItem}>
-                  <p className={styles.reviewLabel}>Last saved</p>
-                  <p className={styles.reviewValue}>
-                    {formatSavedTime(application.updatedAt) ?? "Not available"}
-                  </p>
-                </div>
+                  {/* Disclaimer */}
+                  <div className={styles.disclaimer}>
+                    <strong>Disclaimer:</strong> There are no refunds or returns for payments that are missing the remarks section (for bank-to-bank), and/or are over or under the payment. If under payment, the applicant is required to pay for the lacking amount. ASES Manila is not liable for any potential losses.
+                  </div>
+                  </>
+                ) : null}
               </div>
 
-              {missingFieldLabels.length > 0 ? (
-                <ul className={styles.checklist}>
-                  {missingFieldLabels.map((field) => (
-                    <li key={field}>{field}</li>
-                  ))}
-                </ul>
-              ) : (
-                <p className={styles.success}>All required answers are present.</p>
-              )}
+              {activeStep === lastStep ? (
+                <>
+                  <div className={styles.reviewGrid}>
+                    <div className={styles.reviewItem}>
+                      <p className={styles.reviewLabel}>Application status</p>
+                      <p className={styles.reviewValue}>{statusConfig(application.status).label}</p>
+                    </div>
+                    <div className={styles.reviewItem}>
+                      <p className={styles.reviewLabel}>Payment proof</p>
+                      <p className={styles.reviewValue}>{application.missingPaymentProof ? "Missing" : "Uploaded"}</p>
+                    </div>
+                    <div className={styles.reviewItem}>
+                      <p className={styles.reviewLabel}>Submission readiness</p>
+                      <p className={styles.reviewValue}>
+                        {application.isCompleteForSubmission ? "Ready to submit" : "Still incomplete"}
+                      </p>
+                    </div>
+                    <div className={styles.reviewItem}>
+                      <p className={styles.reviewLabel}>Last saved</p>
+                      <p className={styles.reviewValue}>
+                        {formatSavedTime(application.updatedAt) ?? "Not available"}
+                      </p>
+                    </div>
+                  </div>
 
-              {application.missingPaymentProof ? (
-                <p className={styles.error}>Upload payment proof in Step 3 before submitting.</p>
-              ) : null}
+                  {missingFieldLabels.length > 0 ? (
+                    <ul className={styles.checklist}>
+                      {missingFieldLabels.map((field) => (
+                        <li key={field}>{field}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className={styles.success}>All required answers are present.</p>
+                  )}
+
+                  {application.missingPaymentProof ? (
+                    <p className={styles.error}>
+                      Upload payment proof in Step {paymentStepIndex + 1} before submitting.
+                    </p>
+                  ) : null}
 
-              {/* Closing message */}
-              <div className={styles.closingNote}>
-                <p>
-                  Thank you for answering this application form! You&apos;ll receive an email in the <strong>next 5 days</strong> letting you know the status of your application.
-                </p>
-                <p className={styles.closingContact}>
-                  Questions? Reach out to <strong>asesmanila.team@gmail.com</strong> or contact our P&amp;E officers:
-                  <br />Marco Roberto Valenton — marco.roberto.valenton@student.ateneo.edu
-                  <br />Lynn Kelly Favila — lynn_kelly_favila@dlsu.edu.ph
-                  <br />Eduardo Louis Zablan — eduardo.louis.zablan@student.ateneo.edu
-                </p>
-              </div>
+                  {/* Closing message */}
+                  <div className={styles.closingNote}>
+                    <p>
+                      Thank you for answering this application form! You&apos;ll receive an email in the <strong>next 5 days</strong> letting you know the status of your application.
+                    </p>
+                    <p className={styles.closingContact}>
+                      Questions? Reach out to <strong>asesmanila.team@gmail.com</strong> or contact our P&amp;E officers:
+                      <br />Marco Roberto Valenton — marco.roberto.valenton@student.ateneo.edu
+                      <br />Lynn Kelly Favila — lynn_kelly_favila@dlsu.edu.ph
+                      <br />Eduardo Louis Zablan — eduardo.louis.zablan@student.ateneo.edu
+                    </p>
+                  </div>
 
-              {application.membershipGranted ? (
-                <div className={styles.actions}>
-                  <a className={`${styles.btn} ${styles.btnSecondary}`} href="/onboarding">
-                    Continue to onboarding
-                  </a>
-                </div>
+                  {application.membershipGranted ? (
+                    <div className={styles.actions}>
+                      <a className={`${styles.btn} ${styles.btnSecondary}`} href="/onboarding">
+                        Continue to onboarding
+                      </a>
+                    </div>
+                  ) : null}
+                </>
               ) : null}
             </article>
           ) : null}
@@ -1631,7 +1847,7 @@ export default function ApplicationPage() {
                   type="button"
                   className={`${styles.btn} ${styles.btnSecondary}`}
                   onClick={() =>
-                    goToStep(Math.min(stepDefinitions.length - 1, activeStep + 1))
+                    goToStep(Math.min(lastStep, activeStep + 1))
                   }
                   disabled={isDeletingDraft}
                 >
@@ -51,7 +51,14 @@ export default function Navbar() {
   const navLinks = [
     { href: "/", label: "Home" },
     { href: "/application", label: "Application" },
-    ...(isAdmin ? [{ href: "/admin/applications", label: "Admin" }] : []),
+    ...(isAdmin
+      ? [
+          { href: "/admin/applications", label: "Admin" },
+          { href: "/admin/interviews", label: "Interviews" },
+          { href: "/admin/payments", label: "Payments" },
+          { href: "/admin/users", label: "Users" },
+        ]
+      : []),
   ];
 
   return (
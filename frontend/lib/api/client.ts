@@ -1,13 +1,43 @@
 import {
   ApiError,
+  type AdminApplicationBulkResponse,
+  type AdminApplicationComment,
+  type AdminApplicationCommentsResponse,
   type AdminApplicationDetailResponse,
+  type AdminApplicationEventsResponse,
+  type AdminApplicationSearchResponse,
   type AdminApplicationsListResponse,
+  type AdminCycleWaitlistResponse,
+  type AdminInterviewSlotInput,
+  type AdminInterviewSlotsResponse,
+  type AdminRecruitmentCyclesResponse,
+  type AdminRefund,
+  type AdminRefundsResponse,
+  type AdminReviewerWorkloadResponse,
+  type AdminUserRoleUpdateResponse,
+  type AdminUsersResponse,
   type ApplicationDraftSaveResponse,
+  type ApplicationFormResponse,
   type ApplicationGetResponse,
+  type ApplicationInterviewResponse,
+  type ApplicationScoring,
+  type ApplicationStatus,
   type ApplicationStartResponse,
+  type ApplicationTimelineResponse,
+  type FeeScheduleEntry,
+  type FeeScheduleResponse,
+  type InterviewBookingResponse,
+  type PaymentProofConfirmResponse,
+  type PaymentReconciliationConfirmResponse,
+  type PaymentReconciliationMatch,
+  type PaymentReconciliationResponse,
   type PaymentProofUploadUrlResponse,
+  type RefundStatus,
   type SessionResponse,
+  type StatementColumns,
   type SubmitOrReapplyResponse,
+  type UserRole,
+  type WithdrawApplicationResponse,
 } from "./types";
 
 const API_ORIGIN = process.env.NEXT_PUBLIC_API_ORIGIN ?? "http://localhost:3001";
@@ -113,6 +143,12 @@ export const getSession = () => apiFetch<SessionResponse>("/auth/session");
 
 export const getApplication = () => apiFetch<ApplicationGetResponse>("/application");
 
+export const getApplicationForm = () =>
+  apiFetch<ApplicationFormResponse>("/application/form");
+
+export const getApplicationTimeline = () =>
+  apiFetch<ApplicationTimelineResponse>("/application/timeline");
+
 export const startApplication = () =>
   apiFetch<ApplicationStartResponse>("/application/start", {
     method: "POST",
@@ -138,6 +174,12 @@ export const requestPaymentProofUploadUrl = (
     body: JSON.stringify({ contentType, contentLength }),
   });
 
+export const confirmPaymentProof = (objectKey: string) =>
+  apiFetch<PaymentProofConfirmResponse>("/application/payment-proof/confirm", {
+    method: "POST",
+    body: JSON.stringify({ objectKey }),
+  });
+
 export const submitApplication = (answers: Record<string, unknown>) =>
   apiFetch<SubmitOrReapplyResponse>("/application", {
     method: "POST",
@@ -150,20 +192,332 @@ export const reapplyApplication = (answers: Record<string, unknown>) =>
     body: JSON.stringify({ answers }),
   });
 
-export const listAdminApplications = () =>
-  apiFetch<AdminApplicationsListResponse>("/admin/applications");
+export const withdrawApplication = (reason: string) =>
+  apiFetch<WithdrawApplicationResponse>("/application/withdraw", {
+    method: "POST",
+    body: JSON.stringify({ reason: reason.trim() || null }),
+  });
+
+export const getApplicationInterview = () =>
+  apiFetch<ApplicationInterviewResponse>("/application/interview");
+
+export const bookInterviewSlot = (slotId: string) =>
+  apiFetch<InterviewBookingResponse>("/application/interview/booking", {
+    method: "POST",
+    body: JSON.stringify({ slotId }),
+  });
+
+export const cancelInterviewBooking = () =>
+  apiFetch<void>("/application/interview/booking", {
+    method: "DELETE",
+  });
+
+// Calendar files are plain downloads, so these are linked rather than fetched.
+export const applicationInterviewIcsUrl = resolvePath(
+  "/application/interview/booking/ics"
+);
+
+export const adminInterviewBookingIcsUrl = (bookingId: string) =>
+  resolvePath(`/admin/interview-bookings/${bookingId}/ics`);
+
+export type AdminApplicationSort = "newest" | "oldest" | "score_desc" | "score_asc";
+
+export type AdminApplicationsListOptions = {
+  cycleId?: string;
+  includeWithdrawn?: boolean;
+  sort?: AdminApplicationSort;
+  assignedTo?: "me" | "unassigned" | string;
+  status?: Exclude<ApplicationStatus, "DRAFT">;
+  paymentVerified?: boolean;
+  memberType?: string;
+  universityType?: string;
+  submittedFrom?: string;
+  submittedTo?: string;
+  reviewedBy?: "me" | string;
+  tag?: string;
+  cursor?: string;
+  limit?: number;
+};
+
+const adminApplicationListParams = ({
+  cycleId,
+  includeWithdrawn,
+  sort,
+  assignedTo,
+  status,
+  paymentVerified,
+  memberType,
+  universityType,
+  submittedFrom,
+  submittedTo,
+  reviewedBy,
+  tag,
+  cursor,
+  limit,
+}: AdminApplicationsListOptions) => {
+  const params = new URLSearchParams();
+  if (cycleId) {
+    params.set("cycleId", cycleId);
+  }
+  if (includeWithdrawn) {
+    params.set("includeWithdrawn", "true");
+  }
+  if (sort && sort !== "newest") {
+    params.set("sort", sort);
+  }
+  if (assignedTo) {
+    params.set("assignedTo", assignedTo);
+  }
+  if (status) {
+    params.set("status", status);
+  }
+  if (paymentVerified !== undefined) {
+    params.set("paymentVerified", String(paymentVerified));
+  }
+  if (memberType) {
+    params.set("memberType", memberType);
+  }
+  if (universityType) {
+    params.set("universityType", universityType);
+  }
+  if (submittedFrom) {
+    params.set("submittedFrom", submittedFrom);
+  }
+  if (submittedTo) {
+    params.set("submittedTo", submittedTo);
+  }
+  if (reviewedBy) {
+    params.set("reviewedBy", reviewedBy);
+  }
+  if (tag) {
+    params.set("tag", tag);
+  }
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+  if (limit) {
+    params.set("limit", String(limit));
+  }
+  return params;
+};
+
+export const listAdminApplications = (
+  options: AdminApplicationsListOptions = {}
+) => {
+  const params = adminApplicationListParams(options);
+  const query = params.toString();
+  return apiFetch<AdminApplicationsListResponse>(
+    query ? `/admin/applications?${query}` : "/admin/applications"
+  );
+};
+
+// Exports stream by submission date, so score sorts fall back to newest first.
+export const adminApplicationsExportUrl = (
+  format: "csv" | "xlsx",
+  options: AdminApplicationsListOptions = {}
+) => {
+  const params = adminApplicationListParams({
+    ...options,
+    sort: options.sort === "oldest" ? "oldest" : undefined,
+    cursor: undefined,
+    limit: undefined,
+  });
+  params.set("format", format);
+  return resolvePath(`/admin/applications/export?${params.toString()}`);
+};
+
+export const searchAdminApplications = (
+  q: string,
+  { cycleId, includeWithdrawn }: { cycleId?: string; includeWithdrawn?: boolean } = {}
+) => {
+  const params = new URLSearchParams({ q });
+  if (cycleId) {
+    params.set("cycleId", cycleId);
+  }
+  if (includeWithdrawn) {
+    params.set("includeWithdrawn", "true");
+  }
+  return apiFetch<AdminApplicationSearchResponse>(
+    `/admin/applications/search?${params.toString()}`
+  );
+};
+
+export const listAdminCycles = () =>
+  apiFetch<AdminRecruitmentCyclesResponse>("/admin/cycles");
+
+export const updateAdminCycle = (
+  id: string,
+  input: { acceptanceCapacity?: number | null; blindReview?: boolean }
+) =>
+  apiFetch<{ data: unknown }>(`/admin/cycles/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+  });
+
+export const getAdminCycleFees = (cycleId: string) =>
+  apiFetch<FeeScheduleResponse>(`/admin/cycles/${cycleId}/fees`);
+
+export const updateAdminCycleFees = (cycleId: string, fees: FeeScheduleEntry[]) =>
+  apiFetch<FeeScheduleResponse>(`/admin/cycles/${cycleId}/fees`, {
+    method: "PUT",
+    body: JSON.stringify({ fees }),
+  });
+
+export const reconcileAdminCyclePayments = (
+  cycleId: string,
+  csv: string,
+  columns?: Partial<StatementColumns>
+) =>
+  apiFetch<PaymentReconciliationResponse>(`/admin/cycles/${cycleId}/payment-reconciliation`, {
+    method: "POST",
+    body: JSON.stringify({ csv, columns }),
+  });
+
+export const confirmAdminCyclePayments = (
+  cycleId: string,
+  matches: PaymentReconciliationMatch[]
+) =>
+  apiFetch<PaymentReconciliationConfirmResponse>(
+    `/admin/cycles/${cycleId}/payment-reconciliation/confirm`,
+    {
+      method: "POST",
+      body: JSON.stringify({ matches }),
+    }
+  );
+
+export const getAdminCycleWaitlist = (cycleId: string) =>
+  apiFetch<AdminCycleWaitlistResponse>(`/admin/cycles/${cycleId}/waitlist`);
+
+export const promoteAdminCycleWaitlist = (cycleId: string) =>
+  apiFetch<{ data: unknown }>(`/admin/cycles/${cycleId}/waitlist/promote`, {
+    method: "POST",
+  });
+
+export const getAdminUsers = (role?: UserRole) =>
+  apiFetch<AdminUsersResponse>(role ? `/admin/users?role=${role}` : "/admin/users");
+
+export const updateAdminUserRole = (id: string, role: UserRole) =>
+  apiFetch<AdminUserRoleUpdateResponse>(`/admin/users/${id}/role`, {
+    method: "PATCH",
+    body: JSON.stringify({ role }),
+  });
+
+export const getAdminReviewers = (cycleId?: string) => {
+  const params = new URLSearchParams();
+  if (cycleId) {
+    params.set("cycleId", cycleId);
+  }
+  const query = params.toString();
+  return apiFetch<AdminReviewerWorkloadResponse>(
+    query ? `/admin/reviewers?${query}` : "/admin/reviewers"
+  );
+};
+
+export const distributeAdminAssignments = (
+  cycleId: string,
+  strategy: "round_robin" | "least_loaded"
+) =>
+  apiFetch<{ data: { assignedCount: number } }>(`/admin/cycles/${cycleId}/assignments`, {
+    method: "POST",
+    body: JSON.stringify({ strategy }),
+  });
 
 export const getAdminApplication = (id: string) =>
   apiFetch<AdminApplicationDetailResponse>(`/admin/applications/${id}`);
 
-export const verifyAdminApplicationPayment = (id: string) =>
+export const getAdminApplicationEvents = (id: string) =>
+  apiFetch<AdminApplicationEventsResponse>(`/admin/applications/${id}/events`);
+
+export const listAdminApplicationComments = (id: string) =>
+  apiFetch<AdminApplicationCommentsResponse>(`/admin/applications/${id}/comments`);
+
+export const createAdminApplicationComment = (id: string, body: string) =>
+  apiFetch<{ data: AdminApplicationComment }>(`/admin/applications/${id}/comments`, {
+    method: "POST",
+    body: JSON.stringify({ body }),
+  });
+
+export const updateAdminApplicationComment = (id: string, commentId: string, body: string) =>
+  apiFetch<{ data: AdminApplicationComment }>(
+    `/admin/applications/${id}/comments/${commentId}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify({ body }),
+    }
+  );
+
+export const deleteAdminApplicationComment = (id: string, commentId: string) =>
+  apiFetch<void>(`/admin/applications/${id}/comments/${commentId}`, {
+    method: "DELETE",
+  });
+
+export const verifyAdminApplicationPayment = (
+  id: string,
+  options: { overrideAmountMismatch?: boolean; acknowledgeDuplicatePayment?: boolean } = {}
+) =>
   apiFetch<{ data: unknown }>(`/admin/applications/${id}/payment-verify`, {
     method: "POST",
+    body: JSON.stringify(options),
+  });
+
+export const rejectAdminApplicationPayment = (id: string, reason: string) =>
+  apiFetch<{ data: unknown }>(`/admin/applications/${id}/payment-reject`, {
+    method: "POST",
+    body: JSON.stringify({ reason: reason.trim() }),
+  });
+
+export const createAdminApplicationRefund = (
+  id: string,
+  input: { amount: number; method: string; reference?: string; note?: string }
+) =>
+  apiFetch<{ data: AdminRefund }>(`/admin/applications/${id}/refunds`, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+
+const refundsQuery = (filters: { cycleId?: string; status?: RefundStatus }) => {
+  const params = new URLSearchParams();
+  if (filters.cycleId) {
+    params.set("cycleId", filters.cycleId);
+  }
+  if (filters.status) {
+    params.set("status", filters.status);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
+
+export const getAdminRefunds = (
+  filters: { cycleId?: string; status?: RefundStatus } = {}
+) => apiFetch<AdminRefundsResponse>(`/admin/refunds${refundsQuery(filters)}`);
+
+export const adminRefundsExportUrl = (
+  filters: { cycleId?: string; status?: RefundStatus } = {}
+) => resolvePath(`/admin/refunds/export${refundsQuery(filters)}`);
+
+export const advanceAdminRefund = (
+  id: string,
+  input: { status: "APPROVED" | "SENT"; reference?: string; note?: string }
+) =>
+  apiFetch<{ data: AdminRefund }>(`/admin/refunds/${id}/advance`, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+
+export const runAdminApplicationBulkAction = (
+  input:
+    | { action: "verify_payment"; applicationIds: string[] }
+    | { action: "accept" | "reject"; applicationIds: string[]; decisionNote?: string }
+    | { action: "tag"; applicationIds: string[]; tag: string }
+) =>
+  apiFetch<AdminApplicationBulkResponse>("/admin/applications/bulk", {
+    method: "POST",
+    body: JSON.stringify(input),
   });
 
 export const decideAdminApplication = (
   id: string,
-  status: "ACCEPTED" | "REJECTED",
+  status: "ACCEPTED" | "REJECTED" | "WAITLISTED",
   decisionNote: string
 ) =>
   apiFetch<{ data: unknown }>(`/admin/applications/${id}/decision`, {
@@ -171,6 +525,55 @@ export const decideAdminApplication = (
     body: JSON.stringify({ status, decisionNote: decisionNote.trim() || null }),
   });
 
+export const assignAdminApplication = (id: string, reviewerUserId: string | null) =>
+  apiFetch<{ data: unknown }>(`/admin/applications/${id}/assignment`, {
+    method: "POST",
+    body: JSON.stringify({ reviewerUserId }),
+  });
+
+export const scoreAdminApplication = (
+  id: string,
+  scores: Record<string, number>,
+  comment: string
+) =>
+  apiFetch<{ data: ApplicationScoring }>(`/admin/applications/${id}/scores`, {
+    method: "POST",
+    body: JSON.stringify({ scores, comment: comment.trim() || null }),
+  });
+
+export const inviteAdminApplicationToInterview = (id: string) =>
+  apiFetch<{ data: unknown }>(`/admin/applications/${id}/interview`, {
+    method: "POST",
+  });
+
+export const listAdminInterviewSlots = ({
+  from,
+  to,
+}: { from?: Date; to?: Date } = {}) => {
+  const params = new URLSearchParams();
+  if (from) {
+    params.set("from", from.toISOString());
+  }
+  if (to) {
+    params.set("to", to.toISOString());
+  }
+  const query = params.toString();
+  return apiFetch<AdminInterviewSlotsResponse>(
+    query ? `/admin/interview-slots?${query}` : "/admin/interview-slots"
+  );
+};
+
+export const createAdminInterviewSlot = (input: AdminInterviewSlotInput) =>
+  apiFetch<{ data: unknown }>("/admin/interview-slots", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+
+export const deleteAdminInterviewSlot = (id: string) =>
+  apiFetch<void>(`/admin/interview-slots/${id}`, {
+    method: "DELETE",
+  });
+
 export const logout = () =>
   apiFetch<void>("/auth/logout", { method: "POST" });
 
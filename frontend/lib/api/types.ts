@@ -10,7 +10,69 @@ export type PublicUser = {
   createdAt: string;
 };
 
-export type ApplicationStatus = "DRAFT" | "PENDING" | "ACCEPTED" | "REJECTED";
+export type ApplicationStatus =
+  | "DRAFT"
+  | "PENDING"
+  | "INTERVIEW"
+  | "ACCEPTED"
+  | "REJECTED"
+  | "WAITLISTED"
+  | "WITHDRAWN";
+
+export type RecruitmentCycleSummary = {
+  id: string;
+  name: string;
+  opensAt: string;
+  closesAt: string | null;
+  isActive: boolean;
+  acceptanceCapacity: number | null;
+  blindReview: boolean;
+};
+
+export type ApplicationCycle = RecruitmentCycleSummary & {
+  isOpen: boolean;
+};
+
+export type FormQuestionType =
+  | "short_text"
+  | "long_text"
+  | "email"
+  | "url"
+  | "select"
+  | "number";
+
+export type FormQuestion = {
+  id: string;
+  label: string;
+  type: FormQuestionType;
+  required: boolean;
+  helpText?: string;
+  placeholder?: string;
+  width: "full" | "half";
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  options?: Array<{ value: string; label: string }>;
+};
+
+export type FormSection = {
+  id: string;
+  title: string;
+  hint?: string;
+  includesPaymentProof: boolean;
+  questions: FormQuestion[];
+};
+
+export type ApplicationFormDefinition = {
+  id: string | null;
+  version: number;
+  sections: FormSection[];
+};
+
+export type ApplicationFormResponse = {
+  data: ApplicationFormDefinition;
+};
 
 export type SessionResponse = {
   user: PublicUser | null;
@@ -22,31 +84,101 @@ export type ApplicationSummary = {
   updatedAt: string;
   submittedAt: string;
   reviewedAt: string | null;
+  withdrawnAt: string | null;
+  withdrawalReason: string | null;
+  waitlistPosition: number | null;
   paymentProofKey: string | null;
   paymentProofUploadedAt: string | null;
   paymentVerifiedAt: string | null;
+  paymentRejectedAt: string | null;
+  paymentRejectionReason: string | null;
   answers: Record<string, unknown>;
   canSubmit: boolean;
   canReapply: boolean;
+  canWithdraw: boolean;
+  canRestart: boolean;
   canUploadPaymentProof: boolean;
+  paymentNeedsAttention: boolean;
   membershipGranted: boolean;
   isCompleteForSubmission: boolean;
   missingRequiredFields: string[];
   missingPaymentProof: boolean;
+  expectedFee: number | null;
+  refund: ApplicantRefund | null;
+};
+
+export type RefundStatus = "REQUESTED" | "APPROVED" | "SENT";
+
+export type ApplicantRefund = {
+  amount: number;
+  method: string;
+  reference: string | null;
+  status: RefundStatus;
+  requestedAt: string;
+  approvedAt: string | null;
+  sentAt: string | null;
+};
+
+export type AdminRefund = ApplicantRefund & {
+  id: string;
+  note: string | null;
+  updatedAt: string;
+  processedBy: { id: string; email: string; name: string } | null;
+};
+
+export type AdminRefundListItem = AdminRefund & {
+  application: {
+    id: string;
+    status: ApplicationStatus;
+    cycle: { id: string; name: string };
+    user: { id: string | null; email: string | null; name: string };
+    identityHidden: boolean;
+  };
+};
+
+export type AdminRefundsResponse = {
+  data: AdminRefundListItem[];
+};
+
+export type FeeScheduleEntry = {
+  memberType: string;
+  universityType: string;
+  amount: number;
+};
+
+export type FeeSchedule = {
+  isDefault: boolean;
+  fees: FeeScheduleEntry[];
+};
+
+export type FeeScheduleResponse = {
+  data: FeeSchedule;
+};
+
+export type PaymentAmountCheck = {
+  expectedFee: number | null;
+  amountPaid: number | null;
+  difference: number | null;
+  status: "match" | "underpaid" | "overpaid" | "unknown";
 };
 
 export type ApplicationGetResponse =
   | {
       hasApplication: false;
       application: null;
+      cycle: ApplicationCycle | null;
+      fees: FeeScheduleEntry[];
     }
   | {
       hasApplication: true;
       application: ApplicationSummary;
+      cycle: ApplicationCycle | null;
+      fees: FeeScheduleEntry[];
     };
 
 export type ApplicationStartResponse = {
   created: boolean;
+  restarted?: boolean;
   data: {
     id: string;
     status: ApplicationStatus;
@@ -70,11 +202,16 @@ export type PaymentProofUploadUrlResponse = {
     uploadUrl: string;
     objectKey: string;
     expiresIn: number;
-    method: "PUT";
-    requiredHeaders: {
-      "Content-Type": string;
-      "Content-Length": string;
-    };
+    method: "POST";
+    fields: Record<string, string>;
+    attachedToApplication: boolean;
+  };
+};
+
+export type PaymentProofConfirmResponse = {
+  data: {
+    objectKey: string;
+    status: "CONFIRMED";
     attachedToApplication: boolean;
   };
 };
@@ -87,6 +224,181 @@ export type SubmitOrReapplyResponse = {
   };
 };
 
+export type WithdrawApplicationResponse = {
+  data: {
+    id: string;
+    status: ApplicationStatus;
+    withdrawnAt: string;
+    withdrawalReason: string | null;
+  };
+};
+
+export type InterviewSlotSummary = {
+  id: string;
+  cycleId: string;
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  location: string | null;
+  videoUrl: string | null;
+  bookedCount: number;
+  remaining: number;
+};
+
+export type InterviewBooking = {
+  id: string;
+  slot: InterviewSlotSummary;
+};
+
+export type ApplicationInterviewResponse = {
+  data: {
+    booking: InterviewBooking | null;
+    slots: InterviewSlotSummary[];
+  };
+};
+
+export type InterviewBookingResponse = {
+  data: InterviewBooking;
+};
+
+export type ApplicationEventType =
+  | "STARTED"
+  | "DRAFT_SAVED"
+  | "PAYMENT_PROOF_UPLOADED"
+  | "SUBMITTED"
+  | "REAPPLIED"
+  | "PAYMENT_VERIFIED"
+  | "PAYMENT_REJECTED"
+  | "DECIDED"
+  | "WITHDRAWN"
+  | "INTERVIEW_INVITED"
+  | "INTERVIEW_BOOKED"
+  | "INTERVIEW_RESCHEDULED"
+  | "INTERVIEW_CANCELLED"
+  | "WAITLIST_PROMOTED"
+  | "REVIEWER_ASSIGNED"
+  | "REFUND_REQUESTED"
+  | "REFUND_APPROVED"
+  | "REFUND_SENT"
+  | "TAGGED";
+
+export type ApplicationTimelineEvent = {
+  id: string;
+  type: ApplicationEventType;
+  fromStatus: ApplicationStatus | null;
+  toStatus: ApplicationStatus | null;
+  note: string | null;
+  createdAt: string;
+  actorRole: UserRole | null;
+};
+
+export type ApplicationTimelineResponse = {
+  data: ApplicationTimelineEvent[];
+};
+
+export type RubricCriterion = {
+  id: string;
+  label: string;
+  description: string | null;
+  weight: number;
+  scaleMin: number;
+  scaleMax: number;
+  sortOrder: number;
+};
+
+export type ApplicationScoreSummary = {
+  count: number;
+  mean: number | null;
+  spread: number | null;
+  hidden: boolean;
+};
+
+export type ApplicationReview = {
+  id: string;
+  scores: Record<string, number>;
+  comment: string | null;
+  weightedScore: number | null;
+  createdAt: string;
+  updatedAt: string;
+  reviewer: {
+    id: string;
+    email: string;
+    name: string;
+  };
+};
+
+export type ApplicationScoring = {
+  criteria: RubricCriterion[];
+  mine: ApplicationReview | null;
+  summary: ApplicationScoreSummary;
+  reviews: ApplicationReview[];
+};
+
+export type ReviewerSummary = {
+  id: string;
+  email: string;
+  name: string;
+};
+
+export type AdminReviewerWorkload = {
+  reviewers: Array<ReviewerSummary & { openCount: number }>;
+  unassignedCount: number;
+};
+
+export type AdminReviewerWorkloadResponse = {
+  data: AdminReviewerWorkload;
+  cycle: RecruitmentCycleSummary | null;
+};
+
+export type AdminUser = {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  isBootstrapAdmin: boolean;
+  onboardingCompletedAt: string | null;
+  createdAt: string;
+  applications: Array<{
+    status: ApplicationStatus;
+    submittedAt: string;
+    paymentVerifiedAt: string | null;
+    cycle: { id: string; name: string };
+  }>;
+};
+
+export type AdminUsersResponse = {
+  data: AdminUser[];
+};
+
+export type AdminUserRoleUpdateResponse = {
+  data: {
+    id: string;
+    email: string;
+    name: string;
+    role: UserRole;
+    isBootstrapAdmin: boolean;
+    releasedAssignmentCount: number;
+  };
+};
+
+export type AdminApplicationComment = {
+  id: string;
+  body: string;
+  editedAt: string | null;
+  createdAt: string;
+  author: ReviewerSummary;
+  mentions: ReviewerSummary[];
+  revisions: Array<{
+    id: string;
+    body: string;
+    createdAt: string;
+  }>;
+};
+
+export type AdminApplicationCommentsResponse = {
+  data: AdminApplicationComment[];
+};
+
 export type AdminApplicationListItem = {
   id: string;
   status: ApplicationStatus;
@@ -94,19 +406,136 @@ export type AdminApplicationListItem = {
   paymentProofKey: string | null;
   paymentProofUploadedAt: string | null;
   paymentVerifiedAt: string | null;
+  paymentRejectedAt: string | null;
+  paymentRejectionReason: string | null;
   reviewedAt: string | null;
   decisionNote: string | null;
-  paymentProofViewUrl: string | null;
-  user: {
+  withdrawnAt: string | null;
+  withdrawalReason: string | null;
+  waitlistPosition: number | null;
+  tags: string[];
+  assignedAt: string | null;
+  assignedReviewer: ReviewerSummary | null;
+  paymentProofThumbnailUrl: string | null;
+  paymentProofProcessing: boolean;
+  score: ApplicationScoreSummary;
+  identityHidden: boolean;
+  cycle: {
     id: string;
-    email: string;
+    name: string;
+    blindReview: boolean;
+  };
+  user: {
+    id: string | null;
+    email: string | null;
     name: string;
     onboardingCompletedAt: string | null;
   };
 };
 
+export type AdminApplicationCounts = {
+  total: number;
+  byStatus: Record<Exclude<ApplicationStatus, "DRAFT">, number>;
+  paymentUnverified: number;
+};
+
 export type AdminApplicationsListResponse = {
   data: AdminApplicationListItem[];
+  cycle: RecruitmentCycleSummary | null;
+  counts: AdminApplicationCounts;
+  pageInfo: {
+    limit: number;
+    nextCursor: string | null;
+  };
+};
+
+export type AdminApplicationSearchResult = {
+  application: {
+    id: string;
+    status: ApplicationStatus;
+    submittedAt: string;
+    cycle: { id: string; name: string };
+    user: { id: string | null; email: string | null; name: string };
+    identityHidden: boolean;
+  };
+  rank: number;
+  matches: Array<{
+    questionId: string;
+    label: string;
+    segments: Array<{ text: string; highlighted: boolean }>;
+  }>;
+};
+
+export type AdminApplicationSearchResponse = {
+  data: AdminApplicationSearchResult[];
+  cycle: RecruitmentCycleSummary | null;
+};
+
+export type AdminRecruitmentCycle = RecruitmentCycleSummary & {
+  createdAt: string;
+  _count: {
+    applications: number;
+  };
+};
+
+export type AdminRecruitmentCyclesResponse = {
+  data: AdminRecruitmentCycle[];
+};
+
+export type AdminCycleWaitlist = {
+  cycle: RecruitmentCycleSummary;
+  acceptedCount: number;
+  remainingCapacity: number | null;
+  waitlist: Array<{
+    id: string;
+    rank: number;
+    waitlistPosition: number | null;
+    reviewedAt: string | null;
+    user: {
+      id: string | null;
+      email: string | null;
+      name: string;
+    };
+    identityHidden: boolean;
+  }>;
+};
+
+export type AdminCycleWaitlistResponse = {
+  data: AdminCycleWaitlist;
+};
+
+export type PaymentProofStatus = "PENDING" | "CONFIRMED" | "SUPERSEDED" | "INVALID" | "REJECTED";
+
+export type AdminPaymentProof = {
+  id: string;
+  objectKey: string | null;
+  contentType: string;
+  contentLength: number;
+  contentSha256: string | null;
+  thumbnailKey: string | null;
+  previewKey: string | null;
+  status: PaymentProofStatus;
+  uploadedAt: string;
+  confirmedAt: string | null;
+  processedAt: string | null;
+  isCurrent: boolean;
+  viewUrl: string | null;
+  thumbnailUrl: string | null;
+};
+
+export type PaymentDuplicateApplication = {
+  id: string;
+  status: ApplicationStatus;
+  submittedAt: string;
+  paymentVerifiedAt: string | null;
+  cycle: { id: string; name: string };
+  user: { id: string | null; email: string | null; name: string };
+  identityHidden: boolean;
+};
+
+export type PaymentDuplicates = {
+  reference: PaymentDuplicateApplication[];
+  image: PaymentDuplicateApplication[];
 };
 
 export type AdminApplicationDetail = {
@@ -118,21 +547,195 @@ export type AdminApplicationDetail = {
   paymentProofKey: string | null;
   paymentProofUploadedAt: string | null;
   paymentVerifiedAt: string | null;
+  paymentRejectedAt: string | null;
+  paymentRejectionReason: string | null;
   reviewedAt: string | null;
   decisionNote: string | null;
+  withdrawnAt: string | null;
+  withdrawalReason: string | null;
+  waitlistPosition: number | null;
+  tags: string[];
+  assignedAt: string | null;
+  assignedReviewer: ReviewerSummary | null;
   paymentProofViewUrl: string | null;
-  user: {
+  paymentProofPreviewUrl: string | null;
+  paymentProofs: AdminPaymentProof[];
+  paymentAmount: PaymentAmountCheck;
+  paymentDuplicates: PaymentDuplicates;
+  refund: AdminRefund | null;
+  form: ApplicationFormDefinition;
+  scoring: ApplicationScoring;
+  interviewBooking: {
+    id: string;
+    slot: {
+      id: string;
+      startsAt: string;
+      endsAt: string;
+      location: string | null;
+      videoUrl: string | null;
+    };
+  } | null;
+  identityHidden: boolean;
+  cycle: {
     id: string;
-    email: string;
+    name: string;
+    blindReview: boolean;
+  };
+  user: {
+    id: string | null;
+    email: string | null;
     name: string;
     onboardingCompletedAt: string | null;
   };
 };
 
+export type AdminApplicationBulkAction =
+  | "verify_payment"
+  | "accept"
+  | "reject"
+  | "tag";
+
+export type AdminApplicationBulkResult =
+  | { applicationId: string; ok: true; data: unknown }
+  | {
+      applicationId: string;
+      ok: false;
+      error: { status: number; code: string; message: string };
+    };
+
+export type AdminApplicationBulkResponse = {
+  data: AdminApplicationBulkResult[];
+  summary: { succeeded: number; failed: number };
+};
+
 export type AdminApplicationDetailResponse = {
   data: AdminApplicationDetail;
 };
 
+export type AdminApplicationEvent = {
+  id: string;
+  type: ApplicationEventType;
+  fromStatus: ApplicationStatus | null;
+  toStatus: ApplicationStatus | null;
+  note: string | null;
+  metadataJson: Record<string, unknown> | null;
+  createdAt: string;
+  actor: {
+    id: string | null;
+    email: string | null;
+    name: string;
+    role: UserRole;
+  } | null;
+};
+
+export type AdminApplicationEventsResponse = {
+  data: AdminApplicationEvent[];
+};
+
+export type AdminInterviewSlot = InterviewSlotSummary & {
+  bookings: Array<{
+    id: string;
+    createdAt: string;
+    application: {
+      id: string;
+      status: ApplicationStatus;
+      user: {
+        id: string | null;
+        email: string | null;
+        name: string;
+      };
+      identityHidden: boolean;
+    };
+  }>;
+};
+
+export type AdminInterviewSlotsResponse = {
+  data: AdminInterviewSlot[];
+  cycle: RecruitmentCycleSummary | null;
+};
+
+export type AdminInterviewSlotInput = {
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  location?: string | null;
+  videoUrl?: string | null;
+};
+
+export type StatementColumns = {
+  date: string | null;
+  amount: string | null;
+  reference: string | null;
+};
+
+export type StatementRowView = {
+  line: number;
+  date: string | null;
+  reference: string;
+  amount: number | null;
+};
+
+export type ReconciliationApplication = {
+  id: string;
+  status: ApplicationStatus;
+  referenceNumber: string | null;
+  amountPaid: number | null;
+  user: {
+    id: string | null;
+    name: string;
+    email: string | null;
+  };
+  identityHidden: boolean;
+};
+
+export type StatementSkipReason =
+  | "already_verified"
+  | "not_submitted"
+  | "withdrawn"
+  | "payment_proof_rejected"
+  | "payment_proof_unconfirmed";
+
+export type PaymentReconciliation = {
+  headers: string[];
+  columns: StatementColumns;
+  rowCount: number;
+  matched: Array<{ row: StatementRowView; application: ReconciliationApplication }>;
+  ambiguous: Array<{
+    row: StatementRowView;
+    reason:
+      | "duplicate_reference"
+      | "amount_mismatch"
+      | "reference_reused"
+      | "fee_mismatch"
+      | "possible_duplicate_payment";
+    candidates: ReconciliationApplication[];
+  }>;
+  unmatched: Array<{
+    row: StatementRowView;
+    reason: "invalid_row" | "debit_row" | "no_reference_match" | StatementSkipReason;
+  }>;
+  unmatchedApplications: ReconciliationApplication[];
+};
+
+export type PaymentReconciliationResponse = {
+  data: PaymentReconciliation;
+};
+
+export type PaymentReconciliationMatch = {
+  applicationId: string;
+  reference: string;
+  amount: number;
+  date?: string | null;
+};
+
+export type PaymentReconciliationConfirmResponse = {
+  data: {
+    verifiedCount: number;
+    verified: string[];
+    skipped: Array<{ applicationId: string; reason: string }>;
+  };
+};
+
 export type ApiErrorPayload = {
   error: {
     code: string;
@@ -1,70 +1,59 @@
 import { z } from "zod";
+import type { FormQuestion, FormSection } from "@/lib/api/types";
 
-export type ApplicationFormState = {
-  description: string;
-  email: string;
-  fullName: string;
-  universityAndBranch: string;
-  currentYearLevelAndProgram: string;
-  facebookLink: string;
-  resumeOrCv: string;
-  linkedInLink: string;
-  hobbiesAndInterests: string;
-  personalWhy: string;
-  currentBuildingOrWantToBuild: string;
-  whyAsesManila: string;
-  oneToTwoYearVision: string;
-  fiveYearVision: string;
-  uniqueAboutYou: string;
-  memberType: "" | "NEW" | "RETURNING";
-  universityType: "" | "PUBLIC" | "PRIVATE";
-  amountPaid: string;
-  referenceNumber: string;
-};
+export type ApplicationFormState = Record<string, string>;
+
+export const getFormQuestions = (sections: FormSection[]) =>
+  sections.flatMap((section) => section.questions);
+
+export const createEmptyApplicationForm = (sections: FormSection[]): ApplicationFormState =>
+  Object.fromEntries(getFormQuestions(sections).map((question) => [question.id, ""]));
+
+export const getLabelByField = (sections: FormSection[]): Record<string, string> =>
+  Object.fromEntries(getFormQuestions(sections).map((question) => [question.id, question.label]));
+
+const buildQuestionSchema = (question: FormQuestion): z.ZodTypeAny => {
+  let schema: z.ZodTypeAny;
 
-export const emptyApplicationForm: ApplicationFormState = {
-  description: "",
-  email: "",
-  fullName: "",
-  universityAndBranch: "",
-  currentYearLevelAndProgram: "",
-  facebookLink: "",
-  resumeOrCv: "",
-  linkedInLink: "",
-  hobbiesAndInterests: "",
-  personalWhy: "",
-  currentBuildingOrWantToBuild: "",
-  whyAsesManila: "",
-  oneToTwoYearVision: "",
-  fiveYearVision: "",
-  uniqueAboutYou: "",
-  memberType: "",
-  universityType: "",
-  amountPaid: "",
-  referenceNumber: "",
+  if (question.type === "select") {
+    const values = (question.options ?? []).map((option) => option.value);
+    schema = z.enum(values as [string, ...string[]]);
+  } else if (question.type === "number") {
+    let numberSchema = z.number();
+    if (question.min != null) {
+      numberSchema = numberSchema.min(question.min);
+    }
+    if (question.max != null) {
+      numberSchema = numberSchema.max(question.max);
+    }
+    schema = numberSchema;
+  } else {
+    let stringSchema = z.string().trim();
+    if (question.type === "email") {
+      stringSchema = stringSchema.email();
+    }
+    if (question.type === "url") {
+      stringSchema = stringSchema.url();
+    }
+    const minLength = question.minLength ?? (question.required ? 1 : 0);
+    if (minLength > 0) {
+      stringSchema = stringSchema.min(minLength);
+    }
+    if (question.maxLength != null) {
+      stringSchema = stringSchema.max(question.maxLength);
+    }
+    schema = stringSchema;
+  }
+
+  return question.required ? schema : schema.nullable();
 };
 
-export const applicationAnswersPayloadSchema = z.object({
-  description: z.string().trim().max(1000).optional().nullable(),
-  email: z.string().trim().email(),
-  fullName: z.string().trim().min(1).max(200),
-  universityAndBranch: z.string().trim().min(1).max(200),
-  currentYearLevelAndProgram: z.string().trim().min(1).max(200),
-  facebookLink: z.string().trim().url(),
-  resumeOrCv: z.string().trim().min(3).max(2000),
-  linkedInLink: z.string().trim().url().or(z.literal("")),
-  hobbiesAndInterests: z.string().trim().min(1).max(1000),
-  personalWhy: z.string().trim().min(1).max(4000),
-  currentBuildingOrWantToBuild: z.string().trim().min(1).max(4000),
-  whyAsesManila: z.string().trim().min(1).max(4000),
-  oneToTwoYearVision: z.string().trim().min(1).max(4000),
-  fiveYearVision: z.string().trim().min(1).max(4000),
-  uniqueAboutYou: z.string().trim().min(1).max(4000),
-  memberType: z.enum(["NEW", "RETURNING"]),
-  universityType: z.enum(["PUBLIC", "PRIVATE"]),
-  amountPaid: z.number().positive(),
-  referenceNumber: z.string().trim().min(1).max(200),
-});
+export const buildApplicationAnswersSchema = (sections: FormSection[]) =>
+  z.object(
+    Object.fromEntries(
+      getFormQuestions(sections).map((question) => [question.id, buildQuestionSchema(question)])
+    )
+  );
 
 const asString = (value: unknown) => {
   if (typeof value === "string") {
@@ -76,97 +65,41 @@ const asString = (value: unknown) => {
   return "";
 };
 
-const asEnum = <T extends string>(value: unknown, allowed: readonly T[]): T | "" => {
+const asOption = (value: unknown, allowed: readonly string[]) => {
   if (typeof value !== "string") {
     return "";
   }
-  return (allowed as readonly string[]).includes(value) ? (value as T) : "";
+  return allowed.includes(value) ? value : "";
 };
 
-export const fromApiAnswers = (answers: Record<string, unknown>): ApplicationFormState => ({
-  description: asString(answers.description),
-  email: asString(answers.email),
-  fullName: asString(answers.fullName),
-  universityAndBranch: asString(answers.universityAndBranch),
-  currentYearLevelAndProgram: asString(answers.currentYearLevelAndProgram),
-  facebookLink: asString(answers.facebookLink),
-  resumeOrCv: asString(answers.resumeOrCv),
-  linkedInLink: asString(answers.linkedInLink),
-  hobbiesAndInterests: asString(answers.hobbiesAndInterests),
-  personalWhy: asString(answers.personalWhy),
-  currentBuildingOrWantToBuild: asString(answers.currentBuildingOrWantToBuild),
-  whyAsesManila: asString(answers.whyAsesManila),
-  oneToTwoYearVision: asString(answers.oneToTwoYearVision),
-  fiveYearVision: asString(answers.fiveYearVision),
-  uniqueAboutYou: asString(answers.uniqueAboutYou),
-  memberType: asEnum(answers.memberType, ["NEW", "RETURNING"] as const),
-  universityType: asEnum(answers.universityType, ["PUBLIC", "PRIVATE"] as const),
-  amountPaid: asString(answers.amountPaid),
-  referenceNumber: asString(answers.referenceNumber),
-});
+export const fromApiAnswers = (
+  sections: FormSection[],
+  answers: Record<string, unknown>
+): ApplicationFormState =>
+  Object.fromEntries(
+    getFormQuestions(sections).map((question) => [
+      question.id,
+      question.type === "select"
+        ? asOption(
+            answers[question.id],
+            (question.options ?? []).map((option) => option.value)
+          )
+        : asString(answers[question.id]),
+    ])
+  );
 
-export const toDraftPayload = (form: ApplicationFormState) => ({
-  description: form.description,
-  email: form.email,
-  fullName: form.fullName,
-  universityAndBranch: form.universityAndBranch,
-  currentYearLevelAndProgram: form.currentYearLevelAndProgram,
-  facebookLink: form.facebookLink,
-  resumeOrCv: form.resumeOrCv,
-  linkedInLink: form.linkedInLink,
-  hobbiesAndInterests: form.hobbiesAndInterests,
-  personalWhy: form.personalWhy,
-  currentBuildingOrWantToBuild: form.currentBuildingOrWantToBuild,
-  whyAsesManila: form.whyAsesManila,
-  oneToTwoYearVision: form.oneToTwoYearVision,
-  fiveYearVision: form.fiveYearVision,
-  uniqueAboutYou: form.uniqueAboutYou,
-  memberType: form.memberType,
-  universityType: form.universityType,
-  amountPaid: form.amountPaid,
-  referenceNumber: form.referenceNumber,
-});
+export const toDraftPayload = (form: ApplicationFormState) => ({ ...form });
 
-export const toSubmitPayload = (form: ApplicationFormState) => ({
-  description: form.description.trim() ? form.description.trim() : null,
-  email: form.email.trim(),
-  fullName: form.fullName.trim(),
-  universityAndBranch: form.universityAndBranch.trim(),
-  currentYearLevelAndProgram: form.currentYearLevelAndProgram.trim(),
-  facebookLink: form.facebookLink.trim(),
-  resumeOrCv: form.resumeOrCv.trim(),
-  linkedInLink: form.linkedInLink.trim(),
-  hobbiesAndInterests: form.hobbiesAndInterests.trim(),
-  personalWhy: form.personalWhy.trim(),
-  currentBuildingOrWantToBuild: form.currentBuildingOrWantToBuild.trim(),
-  whyAsesManila: form.whyAsesManila.trim(),
-  oneToTwoYearVision: form.oneToTwoYearVision.trim(),
-  fiveYearVision: form.fiveYearVision.trim(),
-  uniqueAboutYou: form.uniqueAboutYou.trim(),
-  memberType: form.memberType,
-  universityType: form.universityType,
-  amountPaid: Number(form.amountPaid),
-  referenceNumber: form.referenceNumber.trim(),
-});
-
-export const labelByField: Record<keyof ApplicationFormState, string> = {
-  description: "Anything else you'd like to share? (optional)",
-  email: "Email Address",
-  fullName: "Full Name (Last, First, Middle)",
-  universityAndBranch: "University and Branch",
-  currentYearLevelAndProgram: "Current Year Level and Program",
-  facebookLink: "Facebook Link",
-  resumeOrCv: "Resume / Curriculum Vitae Link",
-  linkedInLink: "LinkedIn Link (optional)",
-  hobbiesAndInterests: "Hobbies and Interests",
-  personalWhy: "What is your personal \"Why?\"",
-  currentBuildingOrWantToBuild: "What are you currently building, or what do you want to build?",
-  whyAsesManila: "Why do you want to be part of ASES Manila?",
-  oneToTwoYearVision: "Where do you see yourself in 1–2 years?",
-  fiveYearVision: "How about 5 years from now?",
-  uniqueAboutYou: "What is unique about you?",
-  memberType: "Type of Member",
-  universityType: "Type of University",
-  amountPaid: "Amount Paid",
-  referenceNumber: "Reference Number",
-};
+export const toSubmitPayload = (sections: FormSection[], form: ApplicationFormState) =>
+  Object.fromEntries(
+    getFormQuestions(sections).map((question) => {
+      const value = (form[question.id] ?? "").trim();
+      if (!value && !question.required) {
+        return [question.id, null];
+      }
+      if (question.type === "number") {
+        return [question.id, value ? Number(value) : null];
+      }
+      return [question.id, value];
+    })
+  );